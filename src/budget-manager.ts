@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import type { TaskRegistry } from './task-registry.js';
+import type { ExecutionManager } from './execution-manager.js';
+import type { AgentBudget, BudgetConfig, BudgetViolation } from './types/budget.js';
+import type { TaskRegistryEntry } from './types/task.js';
+import { currentTaskUsage } from './usage.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const ACTIVE_STATUSES: ReadonlySet<TaskRegistryEntry['status']> = new Set([
+  'blocked',
+  'queued',
+  'running',
+  'paused',
+]);
+
+const AgentBudgetsSchema = z.record(
+  z
+    .object({
+      maxConcurrentTasks: z.number().int().positive().optional(),
+      maxTasksPerHour: z.number().int().positive().optional(),
+      maxDailySpend: z.number().nonnegative().optional(),
+    })
+    .strict()
+);
+
+/**
+ * Parse the AGENT_BUDGETS JSON object of per-agent overrides. Throws an error
+ * naming the setting and the problem for malformed JSON or an unknown shape.
+ */
+export function parseAgentBudgets(value: string | undefined): Record<string, AgentBudget> {
+  if (!value || value.trim() === '') {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error(
+      `Invalid AGENT_BUDGETS: not valid JSON (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+
+  const result = AgentBudgetsSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid AGENT_BUDGETS: ${issues}`);
+  }
+  return result.data;
+}
+
+/**
+ * Enforces per-agent limits on concurrency, submission rate and spend so one
+ * agent cannot use up the shared task slots or budget. Counts come from the
+ * task registry, which keeps finished tasks for its 24 hour idempotency window.
+ */
+export class BudgetManager {
+  constructor(
+    private config: BudgetConfig,
+    private registry: TaskRegistry,
+    private execution?: ExecutionManager
+  ) {}
+
+  getBudget(agentId: string): AgentBudget {
+    return { ...this.config.defaults, ...this.config.agents?.[agentId] };
+  }
+
+  /** Check whether the agent may submit another task. */
+  checkSubmission(agentId: string, now: number = Date.now()): BudgetViolation | undefined {
+    const budget = this.getBudget(agentId);
+    const tasks = this.registry.findTasksByAgent(agentId);
+
+    if (budget.maxConcurrentTasks !== undefined) {
+      const active = tasks.filter((task) => ACTIVE_STATUSES.has(task.status)).length;
+      if (active >= budget.maxConcurrentTasks) {
+        return this.violation(agentId, 'max_concurrent_tasks', active, budget.maxConcurrentTasks);
+      }
+    }
+
+    if (budget.maxTasksPerHour !== undefined) {
+      const lastHour = tasks.filter((task) => task.createdAt > now - HOUR_MS).length;
+      if (lastHour >= budget.maxTasksPerHour) {
+        return this.violation(agentId, 'max_tasks_per_hour', lastHour, budget.maxTasksPerHour);
+      }
+    }
+
+    return this.checkSpend(agentId, now);
+  }
+
+  /** Check whether the agent has reached its daily spend cap. */
+  checkSpend(agentId: string, now: number = Date.now()): BudgetViolation | undefined {
+    const { maxDailySpend } = this.getBudget(agentId);
+    if (maxDailySpend === undefined) {
+      return undefined;
+    }
+
+    const spend = this.getDailySpend(agentId, now);
+    if (spend >= maxDailySpend) {
+      return this.violation(agentId, 'max_daily_spend', spend, maxDailySpend);
+    }
+    return undefined;
+  }
+
+  /** Cost of the agent's tasks created in the last 24 hours, including running ones. */
+  getDailySpend(agentId: string, now: number = Date.now()): number {
+    return this.registry
+      .findTasksByAgent(agentId)
+      .filter((task) => task.createdAt > now - DAY_MS)
+      .reduce((sum, task) => {
+        const usage = currentTaskUsage(task, this.execution?.getTaskUsage(task.taskId));
+        return sum + (usage?.cost ?? 0);
+      }, 0);
+  }
+
+  private violation(
+    agentId: string,
+    limit: BudgetViolation['limit'],
+    current: number,
+    max: number
+  ): BudgetViolation {
+    const usage =
+      limit === 'max_daily_spend'
+        ? `$${current.toFixed(2)} of $${max.toFixed(2)}`
+        : `${current} of ${max}`;
+    return {
+      agentId,
+      limit,
+      current,
+      max,
+      message: `Agent ${agentId} reached its ${limit} budget (${usage})`,
+    };
+  }
+}
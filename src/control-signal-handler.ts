@@ -2,6 +2,8 @@ import type { ExecutionManager } from './execution-manager.js';
 import type { TaskRegistry } from './task-registry.js';
 import type { WorkspaceManager } from './workspace-manager.js';
 import type { MatrixRoomManager } from './matrix-room-manager.js';
+import type { TaskQueue } from './task-queue.js';
+import type { WebhookNotifier } from './webhook-notifier.js';
 
 export type ControlSignalType = 'cancel' | 'pause' | 'resume';
 
@@ -25,7 +27,9 @@ export interface ControlSignalHandlerDependencies {
   execution: ExecutionManager;
   registry: TaskRegistry;
   workspace: WorkspaceManager;
+  queue?: TaskQueue;
   matrix?: MatrixRoomManager | null;
+  webhooks?: WebhookNotifier;
 }
 
 export class ControlSignalHandler {
@@ -80,19 +84,31 @@ export class ControlSignalHandler {
       };
     }
 
-    const killed = await this.deps.execution.cancelTask(request.taskId);
+    if (this.deps.queue?.isQueued(request.taskId)) {
+      // Mark the task cancelled before rejecting its queued execution so the
+      // submitter observes the cancellation rather than a generic failure.
+      this.deps.registry.updateStatus(request.taskId, 'cancelled');
+      this.deps.queue.cancel(request.taskId);
+    } else {
+      const killed = await this.deps.execution.cancelTask(request.taskId);
 
-    if (!killed && this.deps.execution.isTaskActive(request.taskId)) {
-      return {
-        success: false,
-        taskId: request.taskId,
-        signal: 'cancel',
-        previousStatus,
-        error: 'Failed to cancel task execution',
-      };
+      if (!killed && this.deps.execution.isTaskActive(request.taskId)) {
+        return {
+          success: false,
+          taskId: request.taskId,
+          signal: 'cancel',
+          previousStatus,
+          error: 'Failed to cancel task execution',
+        };
+      }
+
+      this.deps.registry.updateStatus(request.taskId, 'cancelled');
     }
 
-    this.deps.registry.updateStatus(request.taskId, 'cancelled');
+    const cancelled = this.deps.registry.getTask(request.taskId);
+    if (cancelled && this.deps.webhooks) {
+      void this.deps.webhooks.notify(cancelled, 'cancelled');
+    }
 
     await this.updateWorkspace(request.taskId, 'cancelled', {
       type: 'task_cancelled',
@@ -0,0 +1,107 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields accept `*`, values, ranges (`1-5`), lists (`1,15`)
+ * and steps (`0-30/10`, or `/15` after `*`). Day-of-week 0 and 7 are both Sunday.
+ */
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Both day fields restricted: a day matches if either does, as in classic cron. */
+  eitherDay: boolean;
+}
+
+const MINUTE_MS = 60_000;
+// Far enough to find the next 29 February on a leap-day schedule
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * MINUTE_MS;
+
+function parseField(field: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron ${name} field: ${field}`);
+    }
+
+    const [, range, startText, endText, stepText] = match;
+    const start = range === '*' ? min : parseInt(startText, 10);
+    const end =
+      range === '*'
+        ? max
+        : endText
+          ? parseInt(endText, 10)
+          : stepText
+            ? max
+            : parseInt(startText, 10);
+    const step = stepText ? parseInt(stepText, 10) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name} field: ${field} (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCronExpression(source: string): CronExpression {
+  const fields = source.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields, got ${fields.length}: ${source}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 'day-of-week', 0, 7);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    source,
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 'day-of-month', 1, 31),
+    months: parseField(month, 'month', 1, 12),
+    daysOfWeek,
+    eitherDay: dayOfMonth !== '*' && dayOfWeek !== '*',
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  return cron.eitherDay ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First time strictly after `after` (Unix ms) that matches the expression, or
+ * undefined if it never matches (e.g. `0 0 31 2 *`).
+ */
+export function nextCronRun(cron: CronExpression, after: number): number | undefined {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after + SEARCH_LIMIT_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+
+  return undefined;
+}
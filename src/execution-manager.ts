@@ -1,19 +1,68 @@
 import { spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
 import type {
   ExecutionConfig,
   ExecutionRequest,
   ExecutionResult,
   ContainerInfo,
+  SessionMessageDelivery,
+  ModelSelection,
+  SessionFileDiff,
+  TaskUsage,
 } from './types/execution.js';
 import { OpenCodeClientManager } from './opencode-client-manager.js';
-import type { OpenCodeEvent } from './types/opencode.js';
+import { DEFAULT_MODEL, formatModel } from './models.js';
+import {
+  captureTaskChanges,
+  createTaskWorktree,
+  isGitRepository,
+  removeTaskWorktree,
+  type TaskWorktree,
+} from './git-workspace.js';
+import { parseSessionDiffEvent } from './task-diff.js';
+import { parseMessageUsage, sumUsage } from './usage.js';
+import { SessionStateMachine } from './session-state.js';
+import type { OpenCodeEvent, SessionOutcome } from './types/opencode.js';
+import type { PermissionDecision } from './types/permission.js';
+
+// Aborting a turn to pause it makes OpenCode emit idle/error events that must
+// not be mistaken for the task finishing.
+const EVENTS_IGNORED_WHILE_PAUSED = new Set([
+  'error',
+  'session.error',
+  'session.idle',
+  'session.status',
+]);
+
+const DEFAULT_EVENT_STREAM_MAX_RECONNECTS = 5;
+
+interface RetainedSession {
+  sessionId: string;
+  /** Deletes the session once the retention window ends; unset while a retry holds it. */
+  expiry?: NodeJS.Timeout;
+}
+
+interface SessionControl {
+  state: SessionStateMachine;
+  paused: boolean;
+  pendingMessages: string[];
+  suspendTimeout: () => void;
+  resumeTimeout: () => void;
+}
 
 export class ExecutionManager {
   private config: ExecutionConfig;
   private activeContainers: Map<string, ContainerInfo> = new Map();
   private openCodeClient?: OpenCodeClientManager;
   private eventHandlers: Map<string, (event: OpenCodeEvent) => void> = new Map();
+  private sessionControls: Map<string, SessionControl> = new Map();
+  private sessionDiffs: Map<string, SessionFileDiff[]> = new Map();
+  // Latest token and cost figures per assistant message, keyed by task
+  private messageUsage: Map<string, Map<string, TaskUsage>> = new Map();
   private sessionCleanupInterval?: NodeJS.Timeout;
+  /** Sessions kept open for a retry or continue_task after their run ended, by task id. */
+  private retainedSessions: Map<string, RetainedSession> = new Map();
 
   constructor(config: ExecutionConfig) {
     this.config = config;
@@ -27,8 +76,9 @@ export class ExecutionManager {
         enabled: true,
         serverUrl: config.openCodeServerUrl,
         healthCheckIntervalMs: 5000,
-        maxRetries: 3,
+        maxRetries: config.eventStreamMaxReconnects ?? DEFAULT_EVENT_STREAM_MAX_RECONNECTS,
         retryDelayMs: 1000,
+        defaultModel: config.defaultModel,
       });
       console.log(`[ExecutionManager] OpenCodeClientManager created`);
       this.startSessionCleanup();
@@ -37,6 +87,72 @@ export class ExecutionManager {
     }
   }
 
+  /**
+   * Resolve the model a task should run with, falling back to the configured
+   * default. Throws if the requested model is not in the allowlist.
+   */
+  resolveModel(requested?: ModelSelection): ModelSelection {
+    const defaultModel = this.config.defaultModel ?? DEFAULT_MODEL;
+    if (!requested) {
+      return defaultModel;
+    }
+
+    const allowed = this.config.allowedModels ?? [];
+    const isAllowed =
+      allowed.length === 0 ||
+      formatModel(requested) === formatModel(defaultModel) ||
+      allowed.includes(formatModel(requested)) ||
+      allowed.includes(`${requested.providerId}/*`);
+
+    if (!isAllowed) {
+      throw new Error(
+        `Model ${formatModel(requested)} is not allowed (allowed: ${allowed.join(', ')})`
+      );
+    }
+
+    return requested;
+  }
+
+  /**
+   * Resolve a task's `workspace_path` (relative to WORKSPACE_DIR) to an existing
+   * directory inside WORKSPACE_DIR. Symlinks are resolved before the containment
+   * check so they cannot be used to escape the workspace root.
+   */
+  resolveWorkingDir(workspacePath?: string): string | undefined {
+    if (!workspacePath) {
+      return undefined;
+    }
+
+    const root = path.resolve(this.config.workspaceDir || '/opt/stacks');
+    if (!fs.existsSync(root)) {
+      throw new Error(`Workspace root ${root} does not exist`);
+    }
+
+    const realRoot = fs.realpathSync(root);
+    const isInsideRoot = (target: string) => {
+      const relative = path.relative(realRoot, target);
+      return (
+        relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative)
+      );
+    };
+
+    const candidate = path.resolve(realRoot, workspacePath);
+    if (!isInsideRoot(candidate)) {
+      throw new Error(`Workspace path ${workspacePath} is outside ${root}`);
+    }
+
+    if (!fs.existsSync(candidate) || !fs.statSync(candidate).isDirectory()) {
+      throw new Error(`Workspace path ${workspacePath} is not a directory under ${root}`);
+    }
+
+    const resolved = fs.realpathSync(candidate);
+    if (!isInsideRoot(resolved)) {
+      throw new Error(`Workspace path ${workspacePath} is outside ${root}`);
+    }
+
+    return resolved;
+  }
+
   private startSessionCleanup(): void {
     const CLEANUP_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
     this.sessionCleanupInterval = setInterval(() => {
@@ -58,6 +174,9 @@ export class ExecutionManager {
         .map((c) => c.sessionId)
         .filter(Boolean)
     );
+    for (const retained of this.retainedSessions.values()) {
+      activeSessionIds.add(retained.sessionId);
+    }
 
     let deleted = 0;
     for (const session of sessions) {
@@ -73,17 +192,169 @@ export class ExecutionManager {
     }
   }
 
+  /**
+   * Abort and delete OpenCode sessions that belong to tasks this process can no
+   * longer track (e.g. tasks restored from the task store after a restart).
+   */
+  async releaseOrphanedSessions(taskIds: string[]): Promise<number> {
+    if (!this.openCodeClient || taskIds.length === 0) return 0;
+
+    const sessions = await this.openCodeClient.listSessions();
+    let released = 0;
+
+    for (const session of sessions) {
+      const taskId = taskIds.find((id) => session.title?.includes(`Task: ${id} `));
+      if (!session.id || !taskId) continue;
+
+      await this.openCodeClient.abortSession(session.id).catch((err) => {
+        console.warn(`[ExecutionManager] Failed to abort orphaned session ${session.id}:`, err);
+      });
+      await this.openCodeClient.deleteSession(session.id);
+      released++;
+    }
+
+    return released;
+  }
+
+  /** Whether `taskId` has a session that a follow-up prompt can continue. */
+  hasRetainedSession(taskId: string): boolean {
+    return this.retainedSessions.has(taskId);
+  }
+
+  /** Whether `taskId` is running in, or has kept, a session fork_task can copy. */
+  hasForkableSession(taskId: string): boolean {
+    return Boolean(
+      this.activeContainers.get(taskId)?.sessionId ?? this.retainedSessions.get(taskId)
+    );
+  }
+
+  /**
+   * Copy the conversation of `sourceTaskId`'s session into a new session held
+   * for `taskId`, which its first run continues. Returns false when there is
+   * no session to copy or the fork fails.
+   */
+  async forkTaskSession(sourceTaskId: string, taskId: string, agentId: string): Promise<boolean> {
+    const sourceSessionId =
+      this.activeContainers.get(sourceTaskId)?.sessionId ??
+      this.retainedSessions.get(sourceTaskId)?.sessionId;
+    if (!this.openCodeClient || !sourceSessionId) return false;
+
+    try {
+      const session = await this.openCodeClient.forkSession(sourceSessionId, taskId, agentId);
+      this.retainSession(taskId, session.sessionId);
+      console.error(
+        `[execution-manager] Forked session ${sourceSessionId} of task ${sourceTaskId} into ${session.sessionId} for task ${taskId}`
+      );
+      return true;
+    } catch (error) {
+      console.error(`[execution-manager] Failed to fork session of task ${sourceTaskId}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Stop holding the session a failed attempt of `taskId` kept open for a
+   * retry. It is deleted now, or when the session retention window ends.
+   */
+  async releaseRetainedSession(taskId: string): Promise<void> {
+    const retained = this.retainedSessions.get(taskId);
+    if (!retained) return;
+
+    if (this.config.sessionRetentionMs) {
+      this.retainSession(taskId, retained.sessionId, this.config.sessionRetentionMs);
+    } else {
+      await this.deleteRetainedSession(taskId);
+    }
+  }
+
+  private retainSession(taskId: string, sessionId: string, retentionMs?: number): void {
+    clearTimeout(this.retainedSessions.get(taskId)?.expiry);
+
+    const expiry =
+      retentionMs !== undefined
+        ? setTimeout(() => {
+            void this.deleteRetainedSession(taskId);
+          }, retentionMs)
+        : undefined;
+    expiry?.unref();
+    this.retainedSessions.set(taskId, { sessionId, expiry });
+  }
+
+  private async deleteRetainedSession(taskId: string): Promise<void> {
+    const retained = this.retainedSessions.get(taskId);
+    if (!retained || !this.openCodeClient) return;
+
+    clearTimeout(retained.expiry);
+    this.retainedSessions.delete(taskId);
+    await this.openCodeClient.deleteSession(retained.sessionId).catch((err) => {
+      console.warn(`[execution-manager] Failed to delete session ${retained.sessionId}:`, err);
+    });
+    this.openCodeClient.removeSession(taskId);
+  }
+
   async execute(
     request: ExecutionRequest,
     onEvent?: (event: OpenCodeEvent) => void
   ): Promise<ExecutionResult> {
-    if (this.config.openCodeServerEnabled && this.openCodeClient) {
-      return this.executeWithOpenCodeServer(request, onEvent);
-    } else {
-      return this.executeWithDocker(request);
+    if (this.config.gitIsolation === false || !request.workingDir) {
+      return this.run(request, onEvent);
+    }
+
+    const worktree = await this.prepareWorktree(
+      request.workingDir,
+      request.taskId,
+      request.baseBranch
+    );
+    if (!worktree) {
+      return this.run(request, onEvent);
+    }
+
+    try {
+      const result = await this.run({ ...request, workingDir: worktree.path }, onEvent);
+      result.git = await captureTaskChanges(worktree, request.taskId).catch((error) => {
+        console.error(
+          `[ExecutionManager] Failed to capture git changes for task ${request.taskId}:`,
+          error
+        );
+        return undefined;
+      });
+      return result;
+    } finally {
+      // Awaited so a retry of the task can recreate the worktree at the same path
+      await removeTaskWorktree(worktree).catch((error) => {
+        console.warn(`[ExecutionManager] Failed to remove worktree ${worktree.path}:`, error);
+      });
     }
   }
 
+  private run(
+    request: ExecutionRequest,
+    onEvent?: (event: OpenCodeEvent) => void
+  ): Promise<ExecutionResult> {
+    return this.config.openCodeServerEnabled && this.openCodeClient
+      ? this.executeWithOpenCodeServer(request, onEvent)
+      : this.executeWithDocker(request);
+  }
+
+  private async prepareWorktree(
+    workingDir: string,
+    taskId: string,
+    baseBranch?: string
+  ): Promise<TaskWorktree | undefined> {
+    if (!(await isGitRepository(workingDir))) {
+      return undefined;
+    }
+
+    const worktreeRoot =
+      this.config.gitWorktreeDir ??
+      path.join(this.config.workspaceDir || '/opt/stacks', '.opencode-worktrees');
+    const worktree = await createTaskWorktree(workingDir, worktreeRoot, taskId, baseBranch);
+    console.error(
+      `[ExecutionManager] Task ${taskId} isolated on branch ${worktree.branch} at ${worktree.path}`
+    );
+    return worktree;
+  }
+
   private async executeWithOpenCodeServer(
     request: ExecutionRequest,
     onEvent?: (event: OpenCodeEvent) => void
@@ -94,15 +365,38 @@ export class ExecutionManager {
 
     const startedAt = Date.now();
     const timeout = request.timeout || this.config.timeoutMs;
+    const model = request.model ?? this.resolveModel();
+    let retainedSessionId: string | undefined;
+    if (request.continuePrompt !== undefined) {
+      retainedSessionId = this.retainedSessions.get(request.taskId)?.sessionId;
+      clearTimeout(this.retainedSessions.get(request.taskId)?.expiry);
+      this.retainedSessions.delete(request.taskId);
+    } else {
+      // A cold start must not leave an earlier run's session behind
+      await this.deleteRetainedSession(request.taskId);
+    }
+    let succeeded = false;
 
     try {
-      // Step 1: Create session WITHOUT sending prompt yet
-      console.error(`[execution-manager] Creating session for task ${request.taskId}`);
-      const session = await this.openCodeClient.createSession(
-        request.taskId,
-        request.agentId,
-        request.prompt // This is now ignored, but kept for backward compatibility
-      );
+      // Step 1: Create session WITHOUT sending prompt yet, or continue the one
+      // a failed attempt of this task kept open
+      let session: { sessionId: string };
+      if (retainedSessionId) {
+        console.error(
+          `[execution-manager] Continuing session ${retainedSessionId} for task ${request.taskId}`
+        );
+        session = { sessionId: retainedSessionId };
+        // A forked session was made in its source task's directory
+        this.openCodeClient.setSessionDirectory(request.taskId, request.workingDir);
+      } else {
+        console.error(`[execution-manager] Creating session for task ${request.taskId}`);
+        session = await this.openCodeClient.createSession(
+          request.taskId,
+          request.agentId,
+          request.prompt, // This is now ignored, but kept for backward compatibility
+          request.workingDir
+        );
+      }
 
       const containerInfo: ContainerInfo = {
         containerId: session.sessionId,
@@ -110,22 +404,58 @@ export class ExecutionManager {
         startedAt,
         sessionId: session.sessionId,
         serverUrl: this.config.openCodeServerUrl,
+        model,
       };
 
       this.activeContainers.set(request.taskId, containerInfo);
 
       let output = '';
-      let error: string | undefined;
-      let completed = false;
-      let timedOut = false;
+      let sessionDiff: SessionFileDiff[] | undefined;
+      const messageUsage = new Map<string, TaskUsage>();
+      this.messageUsage.set(request.taskId, messageUsage);
+      const state = new SessionStateMachine();
+      let timeoutHandle: NodeJS.Timeout | null = null;
+      let remainingMs = timeout;
+      let deadlineArmedAt = startedAt;
+
+      const armTimeout = () => {
+        deadlineArmedAt = Date.now();
+        timeoutHandle = setTimeout(() => {
+          if (!state.isSettled()) {
+            console.error(
+              `[execution-manager] Task ${request.taskId} timeout reached after ${timeout}ms`
+            );
+            state.timeout();
+            this.openCodeClient?.abortSession(session.sessionId).catch(console.error);
+          }
+        }, remainingMs);
+      };
+
+      const control: SessionControl = {
+        state,
+        paused: false,
+        pendingMessages: [],
+        suspendTimeout: () => {
+          if (timeoutHandle) {
+            clearTimeout(timeoutHandle);
+            timeoutHandle = null;
+            remainingMs = Math.max(0, remainingMs - (Date.now() - deadlineArmedAt));
+          }
+        },
+        resumeTimeout: armTimeout,
+      };
+      this.sessionControls.set(request.taskId, control);
 
       const eventHandler = (event: OpenCodeEvent) => {
         console.error(
           `[execution-manager] Event received for task ${request.taskId}: type=${event.type}`
         );
 
-        if (onEvent) {
-          onEvent(event);
+        if (control.paused && EVENTS_IGNORED_WHILE_PAUSED.has(event.type)) {
+          console.error(
+            `[execution-manager] Ignoring ${event.type} for paused task ${request.taskId}`
+          );
+          return;
         }
 
         switch (event.type) {
@@ -140,133 +470,149 @@ export class ExecutionManager {
             break;
           }
           case 'message.updated': {
-            const info = (event.data as Record<string, unknown>)?.info as Record<string, unknown>;
-            if (info?.role === 'assistant') {
-              const time = info?.time as Record<string, unknown>;
-              if (time?.completed) {
-                console.error(
-                  `[execution-manager] Assistant message completed for task ${request.taskId}`
-                );
-              }
+            const usage = parseMessageUsage(event.data);
+            if (usage) {
+              messageUsage.set(usage.messageId, usage.usage);
             }
             break;
           }
-          case 'session.error': {
-            const errData = (event.data as Record<string, unknown>)?.error as Record<
-              string,
-              unknown
-            >;
-            const errMsg = (errData?.data as Record<string, unknown>)?.message ?? errData?.name;
-            error = typeof errMsg === 'string' ? errMsg : String(event.data);
+          case 'session.diff': {
+            const diff = parseSessionDiffEvent(event.data);
+            if (diff) {
+              sessionDiff = diff;
+              this.sessionDiffs.set(request.taskId, diff);
+            }
             break;
           }
           case 'error':
-            error = String(event.data);
-            break;
-          case 'complete':
-            console.error(
-              `[execution-manager] COMPLETE event received for task ${request.taskId}, setting completed=true`
-            );
-            completed = true;
-            break;
-          case 'abort':
-            error = error || 'Task aborted';
-            completed = true;
+            state.recordError(String(event.data));
             break;
           default:
             break;
         }
+
+        // After the usage above is stored, so spend checks see this message's cost
+        if (onEvent) {
+          onEvent(event);
+        }
+
+        state.handleEvent(event);
       };
 
       this.eventHandlers.set(request.taskId, eventHandler);
 
       // Step 2: Subscribe to events BEFORE sending prompt
       console.error(`[execution-manager] Subscribing to events for session ${session.sessionId}`);
-      this.openCodeClient.subscribeToEvents(session.sessionId, eventHandler, (err) => {
-        console.error(
-          `[execution-manager] Event subscription error for task ${request.taskId}:`,
-          err.message
-        );
-        error = err.message;
-        completed = true;
-      });
+      this.openCodeClient.subscribeToEvents(
+        session.sessionId,
+        eventHandler,
+        (err) => {
+          console.error(
+            `[execution-manager] Event subscription error for task ${request.taskId}:`,
+            err.message
+          );
+          state.disconnect(err);
+        },
+        () => {
+          void this.resyncSession(request.taskId, session.sessionId, eventHandler, state);
+        }
+      );
 
       // Step 3: NOW send the prompt (events are already being listened to)
       console.error(`[execution-manager] Sending prompt to session ${session.sessionId}`);
+      state.start();
       await this.openCodeClient.sendPrompt(
         session.sessionId,
         request.taskId,
         request.agentId,
-        request.prompt
+        retainedSessionId ? (request.continuePrompt ?? request.prompt) : request.prompt,
+        model
       );
       console.error(`[execution-manager] Prompt sent, waiting for events...`);
 
-      let timeoutHandle: NodeJS.Timeout | null = null;
-
-      const completionPromise = new Promise<void>((resolve) => {
-        console.error(
-          `[execution-manager] Starting completion wait for task ${request.taskId}, timeout=${timeout}ms`
-        );
-        const checkInterval = setInterval(() => {
-          if (completed) {
-            console.error(
-              `[execution-manager] Task ${request.taskId} completed, resolving promise`
-            );
-            clearInterval(checkInterval);
-            if (timeoutHandle) {
-              clearTimeout(timeoutHandle);
-            }
-            resolve();
-          } else if (timedOut) {
-            console.error(
-              `[execution-manager] Task ${request.taskId} timed out, resolving promise`
-            );
-            clearInterval(checkInterval);
-            resolve();
-          }
-        }, 100);
-
-        timeoutHandle = setTimeout(() => {
-          if (!completed) {
-            console.error(
-              `[execution-manager] Task ${request.taskId} timeout reached after ${timeout}ms`
-            );
-            timedOut = true;
-            clearInterval(checkInterval);
-            this.openCodeClient?.abortSession(session.sessionId).catch(console.error);
-            resolve();
-          }
-        }, timeout);
-      });
+      if (!control.paused) {
+        armTimeout();
+      }
 
       console.error(`[execution-manager] Awaiting completion for task ${request.taskId}`);
-      await completionPromise;
+      const outcome = await state.done.catch(
+        (err: Error): SessionOutcome => ({ status: 'error', error: err.message })
+      );
+      if (timeoutHandle) {
+        clearTimeout(timeoutHandle);
+      }
       console.error(
-        `[execution-manager] Completion promise resolved for task ${request.taskId}, completed=${completed}, timedOut=${timedOut}`
+        `[execution-manager] Task ${request.taskId} settled with ${outcome.status} (phase=${state.getPhase()})`
       );
 
       const result: ExecutionResult = {
         taskId: request.taskId,
-        status: timedOut ? 'timeout' : error ? 'error' : 'success',
+        status: outcome.status,
         output: output || 'Task completed',
-        error: timedOut ? 'Task execution timed out' : error,
+        error: outcome.error,
         startedAt,
         completedAt: Date.now(),
         durationMs: Date.now() - startedAt,
+        sessionDiff,
+        usage: messageUsage.size > 0 ? sumUsage(messageUsage.values()) : undefined,
       };
 
+      succeeded = result.status === 'success';
       return result;
     } finally {
       const sessionId = this.activeContainers.get(request.taskId)?.sessionId;
       this.eventHandlers.delete(request.taskId);
-      this.openCodeClient.removeSession(request.taskId);
-      this.activeContainers.delete(request.taskId);
+      this.sessionControls.delete(request.taskId);
+      this.sessionDiffs.delete(request.taskId);
+      this.messageUsage.delete(request.taskId);
 
       if (sessionId) {
-        this.openCodeClient.deleteSession(sessionId).catch((err) => {
-          console.warn(`[execution-manager] Failed to delete session ${sessionId}:`, err);
-        });
+        this.openCodeClient.unsubscribeFromEvents(sessionId);
+      }
+      if (sessionId && request.retainSession && !succeeded) {
+        this.retainSession(request.taskId, sessionId);
+      } else if (sessionId && this.config.sessionRetentionMs) {
+        this.retainSession(request.taskId, sessionId, this.config.sessionRetentionMs);
+      } else {
+        // Delete before removing the session so the request is scoped to its directory
+        if (sessionId) {
+          this.openCodeClient.deleteSession(sessionId).catch((err) => {
+            console.warn(`[execution-manager] Failed to delete session ${sessionId}:`, err);
+          });
+        }
+        this.openCodeClient.removeSession(request.taskId);
+      }
+      this.activeContainers.delete(request.taskId);
+    }
+  }
+
+  /**
+   * Replay a session's messages and current status after the event stream was
+   * down, so output, usage and completion that happened meanwhile are not lost.
+   */
+  private async resyncSession(
+    taskId: string,
+    sessionId: string,
+    eventHandler: (event: OpenCodeEvent) => void,
+    state: SessionStateMachine
+  ): Promise<void> {
+    if (!this.openCodeClient || state.isSettled()) {
+      return;
+    }
+
+    try {
+      const events = await this.openCodeClient.getSessionSnapshot(sessionId);
+      console.error(
+        `[execution-manager] Re-syncing task ${taskId} from ${events.length} snapshot event(s)`
+      );
+      for (const event of events) {
+        if (state.isSettled()) {
+          break;
+        }
+        eventHandler(event);
       }
+    } catch (error) {
+      console.error(`[execution-manager] Failed to re-sync task ${taskId}:`, error);
     }
   }
 
@@ -306,7 +652,7 @@ export class ExecutionManager {
   ): Promise<Omit<ExecutionResult, 'taskId' | 'startedAt' | 'completedAt' | 'durationMs'>> {
     return new Promise((resolve) => {
       const workspaceDir = this.config.workspaceDir || '/opt/stacks';
-      const taskWorkspace = `${workspaceDir}/${request.taskId}`;
+      const taskWorkspace = request.workingDir ?? `${workspaceDir}/${request.taskId}`;
 
       const dockerArgs = [
         'run',
@@ -440,8 +786,7 @@ export class ExecutionManager {
     }
 
     if (containerInfo.sessionId) {
-      console.warn('[ExecutionManager] Pause not supported for OpenCode server sessions');
-      return false;
+      return this.pauseSession(taskId, containerInfo.sessionId);
     }
 
     return new Promise((resolve) => {
@@ -462,8 +807,7 @@ export class ExecutionManager {
     }
 
     if (containerInfo.sessionId) {
-      console.warn('[ExecutionManager] Resume not supported for OpenCode server sessions');
-      return false;
+      return this.resumeSession(taskId, containerInfo.sessionId);
     }
 
     return new Promise((resolve) => {
@@ -477,6 +821,62 @@ export class ExecutionManager {
     });
   }
 
+  /**
+   * Pause an OpenCode session by aborting its current turn. The session and its
+   * message history are kept so the task can be resumed with a follow-up prompt.
+   */
+  private async pauseSession(taskId: string, sessionId: string): Promise<boolean> {
+    const control = this.sessionControls.get(taskId);
+    if (!control || control.paused || !this.openCodeClient) {
+      return false;
+    }
+
+    control.paused = true;
+    control.state.pause();
+    control.suspendTimeout();
+
+    try {
+      await this.openCodeClient.abortSession(sessionId);
+      return true;
+    } catch (error) {
+      console.error(`[ExecutionManager] Failed to pause session ${sessionId}:`, error);
+      control.paused = false;
+      control.state.cancelPause();
+      control.resumeTimeout();
+      return false;
+    }
+  }
+
+  private async resumeSession(taskId: string, sessionId: string): Promise<boolean> {
+    const control = this.sessionControls.get(taskId);
+    if (!control || !control.paused || !this.openCodeClient) {
+      return false;
+    }
+
+    const pendingMessages = control.pendingMessages.splice(0);
+    const prompt = [
+      'The task was paused and has now been resumed. Continue where you left off.',
+      ...pendingMessages,
+    ].join('\n\n');
+
+    control.paused = false;
+    control.state.resume();
+    control.resumeTimeout();
+
+    try {
+      const model = this.activeContainers.get(taskId)?.model;
+      await this.openCodeClient.sendMessageAsync(sessionId, prompt, model);
+      return true;
+    } catch (error) {
+      console.error(`[ExecutionManager] Failed to resume session ${sessionId}:`, error);
+      control.suspendTimeout();
+      control.paused = true;
+      control.state.pause();
+      control.pendingMessages.unshift(...pendingMessages);
+      return false;
+    }
+  }
+
   async cancelTask(taskId: string): Promise<boolean> {
     return this.killTask(taskId);
   }
@@ -493,6 +893,48 @@ export class ExecutionManager {
     return this.activeContainers.get(taskId);
   }
 
+  /**
+   * Deliver a follow-up message to the task's live OpenCode session. Messages
+   * sent while the task is paused are held and included in the resume prompt.
+   */
+  async sendTaskMessage(taskId: string, message: string): Promise<SessionMessageDelivery> {
+    const containerInfo = this.activeContainers.get(taskId);
+    if (!containerInfo?.sessionId || !this.openCodeClient) {
+      return 'not_delivered';
+    }
+
+    const control = this.sessionControls.get(taskId);
+    if (control?.paused) {
+      control.pendingMessages.push(message);
+      return 'queued';
+    }
+
+    await this.openCodeClient.sendMessageAsync(
+      containerInfo.sessionId,
+      message,
+      containerInfo.model
+    );
+    return 'delivered';
+  }
+
+  /**
+   * Relay a permission decision to the task's live OpenCode session. Returns
+   * false when the task has no running session left to answer.
+   */
+  async respondToPermission(
+    taskId: string,
+    permissionId: string,
+    response: PermissionDecision
+  ): Promise<boolean> {
+    const containerInfo = this.activeContainers.get(taskId);
+    if (!containerInfo?.sessionId || !this.openCodeClient) {
+      return false;
+    }
+
+    await this.openCodeClient.respondToPermission(containerInfo.sessionId, permissionId, response);
+    return true;
+  }
+
   async getTaskFiles(taskId: string): Promise<string[]> {
     const containerInfo = this.activeContainers.get(taskId);
     if (!containerInfo?.sessionId || !this.openCodeClient) {
@@ -502,6 +944,17 @@ export class ExecutionManager {
     return this.openCodeClient.listFiles(containerInfo.sessionId);
   }
 
+  /** Latest per-file diff OpenCode reported for an active task. */
+  getTaskDiff(taskId: string): SessionFileDiff[] {
+    return this.sessionDiffs.get(taskId) ?? [];
+  }
+
+  /** Tokens and cost an active task has used so far. */
+  getTaskUsage(taskId: string): TaskUsage | undefined {
+    const usage = this.messageUsage.get(taskId);
+    return usage && usage.size > 0 ? sumUsage(usage.values()) : undefined;
+  }
+
   async readTaskFile(taskId: string, filePath: string): Promise<string> {
     const containerInfo = this.activeContainers.get(taskId);
     if (!containerInfo?.sessionId || !this.openCodeClient) {
@@ -515,6 +968,10 @@ export class ExecutionManager {
     if (this.sessionCleanupInterval) {
       clearInterval(this.sessionCleanupInterval);
     }
+    for (const retained of this.retainedSessions.values()) {
+      clearTimeout(retained.expiry);
+    }
+    this.retainedSessions.clear();
     this.openCodeClient?.cleanup();
     this.eventHandlers.clear();
     this.activeContainers.clear();
@@ -0,0 +1,186 @@
+import { execFile } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import type { GitCommitSummary, GitFileStat, TaskGitChanges } from './types/execution.js';
+
+const GIT_MAX_BUFFER = 20 * 1024 * 1024;
+
+export interface TaskWorktree {
+  repoDir: string;
+  path: string;
+  branch: string;
+  baseCommit: string;
+}
+
+function git(cwd: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: GIT_MAX_BUFFER }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+export async function isGitRepository(dir: string): Promise<boolean> {
+  try {
+    return (await git(dir, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+  } catch {
+    return false;
+  }
+}
+
+async function branchExists(repoDir: string, branch: string): Promise<boolean> {
+  try {
+    await git(repoDir, ['rev-parse', '--verify', '--quiet', `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keep a worktree root that lies inside the repository out of its status, so
+ * the checkout the tasks are isolated from does not list their worktrees.
+ */
+async function excludeWorktreeRoot(repoDir: string, worktreeRoot: string): Promise<void> {
+  const topLevel = (await git(repoDir, ['rev-parse', '--show-toplevel'])).trim();
+  const relative = path.relative(fs.realpathSync(topLevel), fs.realpathSync(worktreeRoot));
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return;
+  }
+
+  const excludePath = path.resolve(
+    repoDir,
+    (await git(repoDir, ['rev-parse', '--git-path', 'info/exclude'])).trim()
+  );
+  const pattern = `/${relative.split(path.sep).join('/')}/`;
+  const existing = fs.existsSync(excludePath) ? fs.readFileSync(excludePath, 'utf8') : '';
+  if (existing.split('\n').includes(pattern)) {
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(excludePath), { recursive: true });
+  const separator = existing === '' || existing.endsWith('\n') ? '' : '\n';
+  fs.appendFileSync(excludePath, `${separator}${pattern}\n`);
+}
+
+/**
+ * The commit a task branch was created from is kept in the branch's git
+ * config, since neither the branch nor HEAD records it once either moves on.
+ */
+function baseCommitKey(branch: string): string {
+  return `branch.${branch}.opencodeBase`;
+}
+
+async function readBaseCommit(repoDir: string, branch: string): Promise<string> {
+  try {
+    return (await git(repoDir, ['config', '--get', baseCommitKey(branch)])).trim();
+  } catch {
+    // Branches created before the base was recorded
+    return (await git(repoDir, ['merge-base', 'HEAD', branch])).trim();
+  }
+}
+
+/**
+ * Check out a dedicated `opencode/<taskId>` branch in its own worktree so
+ * concurrent tasks on the same repository never edit the same checkout. A
+ * retried task checks its existing branch out again, keeping earlier attempts'
+ * commits and the base commit of the first attempt. A new branch starts from
+ * `baseBranch` when it exists, else HEAD.
+ */
+export async function createTaskWorktree(
+  repoDir: string,
+  worktreeRoot: string,
+  taskId: string,
+  baseBranch?: string
+): Promise<TaskWorktree> {
+  const branch = `opencode/${taskId}`;
+  const worktreePath = path.join(worktreeRoot, taskId);
+
+  fs.mkdirSync(worktreeRoot, { recursive: true });
+  await excludeWorktreeRoot(repoDir, worktreeRoot);
+
+  if (await branchExists(repoDir, branch)) {
+    const baseCommit = await readBaseCommit(repoDir, branch);
+    await git(repoDir, ['worktree', 'add', worktreePath, branch]);
+    return { repoDir, path: worktreePath, branch, baseCommit };
+  }
+
+  const base = baseBranch && (await branchExists(repoDir, baseBranch)) ? baseBranch : 'HEAD';
+  const baseCommit = (await git(repoDir, ['rev-parse', base])).trim();
+  await git(repoDir, ['worktree', 'add', '-b', branch, worktreePath, baseCommit]);
+  await git(repoDir, ['config', baseCommitKey(branch), baseCommit]);
+
+  return { repoDir, path: worktreePath, branch, baseCommit };
+}
+
+/**
+ * Commit anything the task left uncommitted onto its branch, then summarise
+ * the branch relative to the commit it started from.
+ */
+export async function captureTaskChanges(
+  worktree: TaskWorktree,
+  taskId: string
+): Promise<TaskGitChanges> {
+  const status = await git(worktree.path, ['status', '--porcelain']);
+  if (status.trim().length > 0) {
+    await git(worktree.path, ['add', '-A']);
+    await git(worktree.path, [
+      '-c',
+      'user.name=OpenCode',
+      '-c',
+      'user.email=opencode@localhost',
+      'commit',
+      '--no-verify',
+      '-m',
+      `OpenCode task ${taskId}`,
+    ]);
+  }
+
+  const range = `${worktree.baseCommit}..HEAD`;
+  const [log, numstat, diff] = await Promise.all([
+    git(worktree.path, ['log', '--reverse', '--format=%H%x09%s', range]),
+    git(worktree.path, ['diff', '--numstat', range]),
+    git(worktree.path, ['diff', range]),
+  ]);
+
+  const commits: GitCommitSummary[] = log
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [sha, ...subject] = line.split('\t');
+      return { sha, subject: subject.join('\t') };
+    });
+
+  // Binary files report "-" for both counts
+  const files: GitFileStat[] = numstat
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line) => {
+      const [additions, deletions, ...filePath] = line.split('\t');
+      return {
+        path: filePath.join('\t'),
+        additions: additions === '-' ? 0 : parseInt(additions, 10),
+        deletions: deletions === '-' ? 0 : parseInt(deletions, 10),
+      };
+    });
+
+  return {
+    branch: worktree.branch,
+    baseCommit: worktree.baseCommit,
+    commits,
+    files,
+    diff,
+  };
+}
+
+/**
+ * Remove the task's worktree directory. The branch is kept so the calling
+ * agent can review and merge it.
+ */
+export async function removeTaskWorktree(worktree: TaskWorktree): Promise<void> {
+  await git(worktree.repoDir, ['worktree', 'remove', '--force', worktree.path]);
+}
@@ -4,6 +4,7 @@ import { randomUUID } from 'crypto';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { metricsRegistry, registerTransportSources } from './metrics.js';
 
 const DEBUG = process.env.DEBUG === 'true';
 
@@ -121,6 +122,14 @@ export async function runHTTP(server: Server): Promise<HTTPServerHandle> {
   const transports: Record<string, StreamableHTTPServerTransport> = {};
   const eventStores = new Map<string, InMemoryEventStore>();
 
+  const countStoredEvents = () =>
+    Array.from(eventStores.values()).reduce((sum, store) => sum + store.getEventCount(), 0);
+
+  registerTransportSources({
+    sessions: () => Object.keys(transports).length,
+    eventStoreEvents: countStoredEvents,
+  });
+
   app.use((req, res, next) => {
     const origin = req.headers.origin;
     const allowedOrigins = [
@@ -322,10 +331,7 @@ export async function runHTTP(server: Server): Promise<HTTPServerHandle> {
 
   app.get('/health', (req, res) => {
     const memUsage = process.memoryUsage();
-    const totalEvents = Array.from(eventStores.values()).reduce(
-      (sum, store) => sum + store.getEventCount(),
-      0
-    );
+    const totalEvents = countStoredEvents();
 
     res.json({
       status: 'healthy',
@@ -354,10 +360,21 @@ export async function runHTTP(server: Server): Promise<HTTPServerHandle> {
     });
   });
 
+  app.get('/metrics', async (req, res) => {
+    try {
+      res.set('Content-Type', metricsRegistry.contentType);
+      res.send(await metricsRegistry.metrics());
+    } catch (error) {
+      log('Error collecting metrics:', error);
+      res.status(500).send('Failed to collect metrics');
+    }
+  });
+
   const httpServer = app.listen(PORT, HOST, () => {
     console.log(`Letta OpenCode Plugin HTTP server is running on ${HOST}:${PORT}`);
     console.log(`MCP endpoint: http://localhost:${PORT}/mcp`);
     console.log(`Health check: http://localhost:${PORT}/health`);
+    console.log(`Metrics: http://localhost:${PORT}/metrics`);
     console.log(`Protocol versions: ${SUPPORTED_PROTOCOL_VERSIONS.join(', ')}`);
     console.log(
       `Security: Origin validation enabled, localhost binding (${HOST}), DNS rebinding protection active`
@@ -1,4 +1,9 @@
 import { LettaClient as SDKLettaClient } from '@letta-ai/letta-client';
+import {
+  fetcher,
+  type APIResponse,
+  type Fetcher,
+} from '@letta-ai/letta-client/core/fetcher/index.js';
 import type {
   LettaConfig,
   LettaAgent,
@@ -9,6 +14,40 @@ import type {
   AttachMemoryBlockRequest,
   SendMessageRequest,
 } from './types/letta.js';
+import { lettaRequestDuration, lettaRetries } from './metrics.js';
+
+const DEFAULT_MAX_RETRIES = 2;
+const INITIAL_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+function isRetryable(error: Fetcher.Error): boolean {
+  if (error.reason === 'status-code' || error.reason === 'non-json') {
+    return error.statusCode === 408 || error.statusCode === 429 || error.statusCode >= 500;
+  }
+  return false;
+}
+
+/**
+ * SDK fetcher that runs the retry loop itself, with the SDK's backoff, so every
+ * attempt and retry can be measured.
+ */
+async function instrumentedFetcher<R>(args: Fetcher.Args): Promise<APIResponse<R, Fetcher.Error>> {
+  const maxRetries = args.maxRetries ?? DEFAULT_MAX_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    const endTimer = lettaRequestDuration.startTimer({ method: args.method });
+    const response = await fetcher<R>({ ...args, maxRetries: 0 });
+    endTimer({ outcome: response.ok ? 'success' : 'error' });
+
+    if (response.ok || attempt >= maxRetries || !isRetryable(response.error)) {
+      return response;
+    }
+
+    lettaRetries.inc({ method: args.method });
+    const delay = Math.min(INITIAL_RETRY_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    await new Promise((resolve) => setTimeout(resolve, delay * (0.8 + Math.random() * 0.4)));
+  }
+}
 
 export class LettaClient {
   private client: SDKLettaClient;
@@ -19,6 +58,7 @@ export class LettaClient {
     this.client = new SDKLettaClient({
       baseUrl: config.baseUrl,
       token: config.token,
+      fetcher: instrumentedFetcher,
     });
     this.timeout = config.timeout || 30000;
     this.maxRetries = config.maxRetries || 3;
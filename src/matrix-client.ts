@@ -1,4 +1,5 @@
 import { MatrixClient, SimpleFsStorageProvider, AutojoinRoomsMixin } from 'matrix-bot-sdk';
+import { matrixSendFailures } from './metrics.js';
 
 export interface MatrixConfig {
   homeserverUrl: string;
@@ -69,7 +70,7 @@ export class MatrixClientWrapper {
       Object.assign(content, metadata);
     }
 
-    return await this.client.sendMessage(roomId, content);
+    return this.send('message', roomId, content);
   }
 
   async sendHtmlMessage(
@@ -89,7 +90,7 @@ export class MatrixClientWrapper {
       Object.assign(content, metadata);
     }
 
-    return await this.client.sendMessage(roomId, content);
+    return this.send('html_message', roomId, content);
   }
 
   async sendControlSignal(
@@ -107,7 +108,20 @@ export class MatrixClientWrapper {
       },
     };
 
-    return await this.client.sendMessage(roomId, content);
+    return this.send('control_signal', roomId, content);
+  }
+
+  private async send(
+    operation: string,
+    roomId: string,
+    content: Record<string, unknown>
+  ): Promise<string> {
+    try {
+      return await this.client.sendMessage(roomId, content);
+    } catch (error) {
+      matrixSendFailures.inc({ operation });
+      throw error;
+    }
   }
 
   async getRoomState(roomId: string): Promise<unknown> {
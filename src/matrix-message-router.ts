@@ -4,7 +4,9 @@ import type { TaskRegistry } from './task-registry.js';
 import type { WorkspaceManager } from './workspace-manager.js';
 import type { WorkspaceEvent } from './types/workspace.js';
 import type { RoomInfo } from './types/matrix.js';
+import type { TaskRegistryEntry } from './types/task.js';
 import type { ControlSignalHandler } from './control-signal-handler.js';
+import { parsePermissionReply, type PermissionGate } from './permission-gate.js';
 
 const DEBUG = process.env.DEBUG === 'true';
 
@@ -16,6 +18,11 @@ function log(...args: unknown[]): void {
 
 export interface MatrixMessageRouterConfig {
   allowHumanObservers?: boolean;
+  /**
+   * Matrix users, besides the task's calling agent, whose replies may answer
+   * permission requests. Other room members, such as observers, cannot.
+   */
+  permissionApprovers?: string[];
 }
 
 interface MatrixEventContent {
@@ -46,6 +53,7 @@ export class MatrixMessageRouter {
   private readonly workspace: WorkspaceManager;
   private readonly config: MatrixMessageRouterConfig;
   private readonly controlHandler?: ControlSignalHandler;
+  private readonly permissions?: PermissionGate;
   private listener?: (roomId: string, event: MatrixTimelineEvent) => void;
 
   constructor(options: {
@@ -54,6 +62,7 @@ export class MatrixMessageRouter {
     registry: TaskRegistry;
     workspace: WorkspaceManager;
     controlHandler?: ControlSignalHandler;
+    permissions?: PermissionGate;
     config?: MatrixMessageRouterConfig;
   }) {
     this.matrix = options.matrix;
@@ -61,6 +70,7 @@ export class MatrixMessageRouter {
     this.registry = options.registry;
     this.workspace = options.workspace;
     this.controlHandler = options.controlHandler;
+    this.permissions = options.permissions;
     this.config = options.config || {};
   }
 
@@ -112,6 +122,10 @@ export class MatrixMessageRouter {
         return;
       }
 
+      if (event.content.msgtype === 'm.text' && this.permissions) {
+        await this.handlePermissionReply(event, taskEntry);
+      }
+
       const metadata = this.extractTaskMetadata(event);
 
       const workspaceEvent: WorkspaceEvent = {
@@ -167,6 +181,52 @@ export class MatrixMessageRouter {
     }
   }
 
+  private async handlePermissionReply(
+    event: MatrixRoomEvent,
+    taskEntry: TaskRegistryEntry
+  ): Promise<void> {
+    const body = typeof event.content.body === 'string' ? event.content.body : '';
+    const reply = parsePermissionReply(body);
+    if (!reply || !this.permissions) {
+      return;
+    }
+
+    const taskId = taskEntry.taskId;
+    if (!this.canApprovePermissions(event.sender, taskEntry)) {
+      log(`Ignoring permission reply from ${event.sender} for task ${taskId}: not an approver`);
+      return;
+    }
+
+    const pending = this.permissions.list(taskId);
+    const permissionId =
+      reply.permissionId ?? (pending.length === 1 ? pending[0].permissionId : undefined);
+    if (!permissionId || !pending.some((permission) => permission.permissionId === permissionId)) {
+      log(`No pending permission matches reply from ${event.sender} for task ${taskId}`);
+      return;
+    }
+
+    try {
+      await this.permissions.resolve(permissionId, reply.decision, 'matrix', event.sender);
+      log(
+        `Permission ${permissionId} for task ${taskId} answered ${reply.decision} by ${event.sender}`
+      );
+    } catch (error) {
+      console.error(`Failed to relay permission ${permissionId} for task ${taskId}:`, error);
+    }
+  }
+
+  private canApprovePermissions(sender: string, taskEntry: TaskRegistryEntry): boolean {
+    if (this.config.permissionApprovers?.includes(sender)) {
+      return true;
+    }
+    return (
+      sender === taskEntry.agentId ||
+      (taskEntry.matrixRoom?.participants ?? []).some(
+        (participant) => participant.role === 'calling_agent' && participant.id === sender
+      )
+    );
+  }
+
   private extractMessage(event: MatrixRoomEvent): string {
     const content = event.content;
     if (content.formatted_body && typeof content.formatted_body === 'string') {
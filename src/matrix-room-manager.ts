@@ -322,7 +322,7 @@ ${participants.map((p) => `<li>${p.role}: <code>${p.id}</code></li>`).join('\n')
     roomId: string,
     taskId: string,
     message: string,
-    eventType: 'progress' | 'error' | 'status_change'
+    eventType: 'progress' | 'error' | 'status_change' | 'permission_request'
   ): Promise<void> {
     await this.matrixClient.sendMessage(roomId, message, {
       'io.letta.task': {
@@ -0,0 +1,124 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import type { TaskRegistry } from './task-registry.js';
+import type { TaskQueue } from './task-queue.js';
+import type { TaskRegistryEntry } from './types/task.js';
+
+const PREFIX = 'letta_opencode_';
+
+const TASK_STATUSES: TaskRegistryEntry['status'][] = [
+  'blocked',
+  'queued',
+  'running',
+  'paused',
+  'completed',
+  'failed',
+  'timeout',
+  'cancelled',
+];
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: PREFIX });
+
+interface TaskSources {
+  registry: TaskRegistry;
+  queue: TaskQueue;
+}
+
+interface TransportSources {
+  sessions: () => number;
+  eventStoreEvents: () => number;
+}
+
+// Gauges read live state at scrape time from whichever components registered it
+let taskSources: TaskSources | undefined;
+let transportSources: TransportSources | undefined;
+
+export function registerTaskSources(sources: TaskSources): void {
+  taskSources = sources;
+}
+
+export function registerTransportSources(sources: TransportSources): void {
+  transportSources = sources;
+}
+
+new Gauge({
+  name: `${PREFIX}tasks`,
+  help: 'Tasks held by the task registry, by status',
+  labelNames: ['status'],
+  registers: [metricsRegistry],
+  collect() {
+    this.reset();
+    if (!taskSources) return;
+    const counts = new Map(TASK_STATUSES.map((status) => [status, 0]));
+    for (const task of taskSources.registry.getAllTasks()) {
+      counts.set(task.status, (counts.get(task.status) ?? 0) + 1);
+    }
+    for (const [status, count] of counts) {
+      this.set({ status }, count);
+    }
+  },
+});
+
+new Gauge({
+  name: `${PREFIX}queue_depth`,
+  help: 'Tasks waiting for an execution slot',
+  registers: [metricsRegistry],
+  collect() {
+    this.set(taskSources?.queue.getDepth() ?? 0);
+  },
+});
+
+new Gauge({
+  name: `${PREFIX}mcp_sessions`,
+  help: 'Open MCP transport sessions',
+  registers: [metricsRegistry],
+  collect() {
+    this.set(transportSources?.sessions() ?? 0);
+  },
+});
+
+new Gauge({
+  name: `${PREFIX}mcp_event_store_events`,
+  help: 'Events buffered for MCP stream resumption across all sessions',
+  registers: [metricsRegistry],
+  collect() {
+    this.set(transportSources?.eventStoreEvents() ?? 0);
+  },
+});
+
+export const taskDuration = new Histogram({
+  name: `${PREFIX}task_duration_seconds`,
+  help: 'Task execution time, by final status',
+  labelNames: ['status'],
+  buckets: [5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600],
+  registers: [metricsRegistry],
+});
+
+export const openCodeEventStreamErrors = new Counter({
+  name: `${PREFIX}opencode_event_stream_errors_total`,
+  help: 'OpenCode event subscriptions that failed or ended with an error',
+  registers: [metricsRegistry],
+});
+
+export const lettaRequestDuration = new Histogram({
+  name: `${PREFIX}letta_request_duration_seconds`,
+  help: 'Letta API request attempts, by HTTP method and outcome',
+  labelNames: ['method', 'outcome'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry],
+});
+
+export const lettaRetries = new Counter({
+  name: `${PREFIX}letta_retries_total`,
+  help: 'Letta API requests retried after a timeout, rate limit or server error',
+  labelNames: ['method'],
+  registers: [metricsRegistry],
+});
+
+export const matrixSendFailures = new Counter({
+  name: `${PREFIX}matrix_send_failures_total`,
+  help: 'Matrix messages that could not be sent, by operation',
+  labelNames: ['operation'],
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,10 @@
+import type { ModelSelection } from './types/execution.js';
+
+export const DEFAULT_MODEL: ModelSelection = {
+  providerId: 'anthropic',
+  modelId: 'claude-sonnet-4-5-20250929',
+};
+
+export function formatModel(model: ModelSelection): string {
+  return `${model.providerId}/${model.modelId}`;
+}
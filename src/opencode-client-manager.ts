@@ -4,7 +4,12 @@ import type {
   OpenCodeSession,
   OpenCodeEvent,
   SessionInfo,
+  EventStreamGap,
 } from './types/opencode.js';
+import type { ModelSelection } from './types/execution.js';
+import type { PermissionDecision } from './types/permission.js';
+import { DEFAULT_MODEL } from './models.js';
+import { openCodeEventStreamErrors } from './metrics.js';
 
 type RawEvent = {
   type?: string;
@@ -12,89 +17,33 @@ type RawEvent = {
   [key: string]: unknown;
 };
 
-function normalizeCompletionStatus(value: unknown): string | undefined {
-  if (typeof value === 'string' && value.trim().length > 0) {
-    return value.trim().toLowerCase();
-  }
-  return undefined;
+interface SessionEventHandlers {
+  onEvent: (event: OpenCodeEvent) => void;
+  onError?: (error: Error) => void;
+  onGap?: (gap: EventStreamGap) => void;
 }
 
-function mapEventType(
-  rawType: unknown,
-  properties?: Record<string, unknown>
-): { type: string; mappedFrom?: string } {
-  if (typeof rawType !== 'string') {
-    return { type: 'unknown' };
-  }
-
-  const originalLower = rawType.toLowerCase();
-
-  const isCompletionKeyword = (lower: string): boolean => {
-    if (lower === 'session.idle') {
-      return true;
-    }
-    if (lower === 'finish' || lower === 'finish-step' || lower === 'done' || lower === 'complete') {
-      return true;
-    }
-    if (lower.startsWith('finish:') || lower.startsWith('finish_')) {
-      return true;
-    }
-    if (lower.endsWith(':finish') || lower.endsWith('.finish') || lower.endsWith('_finish')) {
-      return true;
-    }
-    if (lower.endsWith(':complete') || lower.endsWith('.complete') || lower.endsWith('_complete')) {
-      return true;
-    }
-    if (lower.includes('session.complete') || lower.includes('session.finished')) {
-      return true;
-    }
-    if (lower.includes('complete') && !lower.includes('incomplete')) {
-      return true;
-    }
-    if (lower.includes('finished') && !lower.includes('unfinished')) {
-      return true;
-    }
-    if (lower.includes('success') && !lower.includes('unsuccess')) {
-      return true;
-    }
-    return false;
-  };
-
-  if (isCompletionKeyword(originalLower)) {
-    return { type: 'complete', mappedFrom: rawType };
-  }
-
-  if (properties) {
-    const statusKeys = ['status', 'state', 'phase', 'result'];
-    for (const key of statusKeys) {
-      const value = normalizeCompletionStatus(properties[key]);
-      if (!value) {
-        continue;
-      }
-      if (
-        value === 'complete' ||
-        value === 'completed' ||
-        value === 'finished' ||
-        value === 'success' ||
-        value === 'succeeded' ||
-        value === 'done'
-      ) {
-        return { type: 'complete', mappedFrom: `${rawType}:${key}=${value}` };
-      }
-      if (value === 'timeout' || value === 'cancelled' || value === 'failed') {
-        // propagate original type for failure states
-        return { type: rawType };
-      }
-    }
-  }
-
-  return { type: rawType };
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+function abortableDelay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener('abort', done);
+  });
 }
 
 export class OpenCodeClientManager {
   private config: OpenCodeServerConfig;
   private activeSessions: Map<string, OpenCodeSession> = new Map();
   private client: OpencodeClient;
+  private sessionHandlers: Map<string, SessionEventHandlers> = new Map();
+  private eventStream?: Promise<void>;
+  private eventStreamAbort?: AbortController;
 
   constructor(config: OpenCodeServerConfig) {
     this.config = config;
@@ -127,7 +76,7 @@ export class OpenCodeClientManager {
     taskId: string,
     agentId: string,
     _prompt: string,
-    _workingDir?: string
+    workingDir?: string
   ): Promise<OpenCodeSession> {
     try {
       if (!this.client) {
@@ -140,6 +89,7 @@ export class OpenCodeClientManager {
         body: {
           title: `Task: ${taskId} (agent: ${agentId})`,
         },
+        ...(workingDir && { query: { directory: workingDir } }),
       });
 
       if (sessionResponse.error) {
@@ -157,6 +107,7 @@ export class OpenCodeClientManager {
         agentId,
         startedAt: Date.now(),
         status: 'active',
+        directory: workingDir,
       };
 
       this.activeSessions.set(taskId, session);
@@ -173,11 +124,66 @@ export class OpenCodeClientManager {
     }
   }
 
+  /**
+   * Copy the conversation of `sourceSessionId` into a new session for
+   * `taskId`. The fork is made in the source's directory and titled like a
+   * session created for the task.
+   */
+  async forkSession(
+    sourceSessionId: string,
+    taskId: string,
+    agentId: string
+  ): Promise<OpenCodeSession> {
+    try {
+      if (!this.client) {
+        throw new Error('OpenCode client not initialized');
+      }
+      console.error(`[OpenCodeClient] Forking session ${sourceSessionId} for task ${taskId}`);
+      const query = this.directoryQuery(sourceSessionId);
+      const forkResponse = await this.client.session.fork({
+        path: { id: sourceSessionId },
+        ...query,
+      });
+
+      if (forkResponse.error) {
+        throw new Error(`Session fork failed: ${JSON.stringify(forkResponse.error)}`);
+      }
+
+      const sessionId = forkResponse.data?.id;
+      if (!sessionId) {
+        throw new Error(`Session fork failed: no ID returned`);
+      }
+
+      await this.client.session.update({
+        path: { id: sessionId },
+        body: { title: `Task: ${taskId} (agent: ${agentId})` },
+        ...query,
+      });
+
+      const session: OpenCodeSession = {
+        sessionId,
+        taskId,
+        agentId,
+        startedAt: Date.now(),
+        status: 'active',
+        directory: query.query?.directory,
+      };
+      this.activeSessions.set(taskId, session);
+
+      return session;
+    } catch (error) {
+      throw new Error(
+        `Failed to fork session: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
   async sendPrompt(
     sessionId: string,
     taskId: string,
     agentId: string,
-    prompt: string
+    prompt: string,
+    model: ModelSelection = this.config.defaultModel ?? DEFAULT_MODEL
   ): Promise<void> {
     try {
       if (!this.client) {
@@ -199,10 +205,11 @@ Calling Agent ID: ${agentId}`;
       console.log(`[OpenCodeClient] Sending prompt to session ${sessionId}`);
       await this.client.session.prompt({
         path: { id: sessionId },
+        ...this.directoryQuery(sessionId),
         body: {
           model: {
-            providerID: 'anthropic',
-            modelID: 'claude-sonnet-4-5-20250929',
+            providerID: model.providerId,
+            modelID: model.modelId,
           },
           parts: [{ type: 'text', text: enhancedPrompt }],
         },
@@ -215,100 +222,167 @@ Calling Agent ID: ${agentId}`;
     }
   }
 
+  /**
+   * Route events for `sessionId` to `onEvent`. All sessions share one event
+   * stream, which reconnects with backoff when it fails or closes; `onGap` is
+   * told about every outage the session lived through, and `onError` is only
+   * called once `maxRetries` consecutive reconnects have failed.
+   */
   async subscribeToEvents(
     sessionId: string,
     onEvent: (event: OpenCodeEvent) => void,
-    onError?: (error: Error) => void
+    onError?: (error: Error) => void,
+    onGap?: (gap: EventStreamGap) => void
   ): Promise<void> {
-    try {
-      console.error(`[OpenCodeClient] Subscribing to events for session ${sessionId}...`);
-      const subscription = await this.client.event.subscribe();
+    console.error(`[OpenCodeClient] Subscribing to events for session ${sessionId}...`);
+    this.sessionHandlers.set(sessionId, { onEvent, onError, onGap });
+
+    if (!this.eventStream) {
+      const abort = new AbortController();
+      this.eventStreamAbort = abort;
+      const stream = this.runEventStream(abort.signal).finally(() => {
+        if (this.eventStream === stream) {
+          this.eventStream = undefined;
+        }
+      });
+      this.eventStream = stream;
 
-      // OpenCode 1.0 SDK returns { stream: AsyncGenerator }
-      const eventIterable = subscription.stream as AsyncIterable<RawEvent>;
+      // Give the event loop a moment to connect before the prompt is sent
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    console.error(`[OpenCodeClient] Event subscription ready for session ${sessionId}`);
+  }
+
+  unsubscribeFromEvents(sessionId: string): void {
+    this.sessionHandlers.delete(sessionId);
+    if (this.sessionHandlers.size === 0) {
+      this.closeEventStream();
+    }
+  }
 
-      if (!eventIterable || typeof (eventIterable as any)[Symbol.asyncIterator] !== 'function') {
-        throw new Error(
-          'Event subscription did not return an async iterable (expected .stream to be AsyncGenerator)'
+  private closeEventStream(): void {
+    this.eventStreamAbort?.abort();
+    this.eventStreamAbort = undefined;
+    this.eventStream = undefined;
+  }
+
+  private async runEventStream(signal: AbortSignal): Promise<void> {
+    let failures = 0;
+    let disconnectedAt: number | undefined;
+
+    while (!signal.aborted && this.sessionHandlers.size > 0) {
+      let streamError: unknown;
+      try {
+        // Let this loop own retries so outages are visible to it
+        const subscription = await this.client.event.subscribe({
+          signal,
+          sseMaxRetryAttempts: 1,
+          onSseError: (error: unknown) => {
+            streamError = error;
+          },
+        });
+
+        // OpenCode 1.0 SDK returns { stream: AsyncGenerator }
+        const eventIterable = subscription.stream as AsyncIterable<RawEvent>;
+        if (!eventIterable || typeof (eventIterable as any)[Symbol.asyncIterator] !== 'function') {
+          throw new Error(
+            'Event subscription did not return an async iterable (expected .stream to be AsyncGenerator)'
+          );
+        }
+        console.error(
+          `[OpenCodeClient] Event stream opened for ${this.sessionHandlers.size} session(s)`
         );
-      }
-      console.error(`[OpenCodeClient] Event subscription created, starting event loop...`);
-
-      // Start the event consumption loop
-      (async () => {
-        try {
-          console.error(`[OpenCodeClient] Event loop started for session ${sessionId}`);
-          for await (const event of eventIterable) {
-            // DEBUG: Log ALL events to understand structure
-            console.error(
-              `[OpenCodeClient] DEBUG: Received event:`,
-              JSON.stringify(
-                {
-                  type: event.type,
-                  properties: event.properties,
-                  targetSession: sessionId,
-                },
-                null,
-                2
-              )
-            );
-
-            // Filter events for this session
-            // OpenCode v1.x uses 'sessionID' (capital ID) in various locations:
-            // - properties.sessionID (e.g., session.idle, session.error)
-            // - properties.info.sessionID (e.g., message.updated, session.updated)
-            // - properties.part.sessionID (e.g., message.part.updated)
-            const props = event.properties as Record<string, unknown> | undefined;
-            const eventSessionId =
-              (props?.sessionID as string) ??
-              (props?.sessionId as string) ??
-              ((props?.info as Record<string, unknown>)?.sessionID as string) ??
-              ((props?.info as Record<string, unknown>)?.sessionId as string) ??
-              ((props?.part as Record<string, unknown>)?.sessionID as string) ??
-              ((props?.part as Record<string, unknown>)?.sessionId as string);
-
-            if (eventSessionId === sessionId) {
-              // Map server event types to our internal event types
-              console.error(
-                `[OpenCodeClient] Raw event received: type=${event.type}, sessionId=${sessionId}`
-              );
-              const { type: eventType, mappedFrom } = mapEventType(event.type, props);
-              if (mappedFrom) {
-                console.error(
-                  `[OpenCodeClient] Mapping ${mappedFrom} -> ${eventType} for sessionId=${sessionId}`
-                );
-              }
-
-              const openCodeEvent: OpenCodeEvent = {
-                type: eventType as any,
-                timestamp: Date.now(),
-                sessionId,
-                data: event.properties,
-              };
-              console.error(`[OpenCodeClient] Calling onEvent with type=${openCodeEvent.type}`);
-              onEvent(openCodeEvent);
-            }
-          }
-        } catch (error) {
-          console.error('[OpenCodeClient] Event stream error:', error);
-          if (onError) {
-            onError(error instanceof Error ? error : new Error(String(error)));
+
+        for await (const event of eventIterable) {
+          if (disconnectedAt !== undefined) {
+            this.reportGap({ disconnectedAt, reconnectedAt: Date.now(), reconnects: failures });
+            disconnectedAt = undefined;
           }
+          failures = 0;
+          this.dispatchEvent(event);
         }
-      })();
 
-      // Give the async event loop a moment to start before returning
-      // This ensures the loop is active before the prompt is sent
-      await new Promise((resolve) => setTimeout(resolve, 100));
-      console.error(`[OpenCodeClient] Event subscription ready for session ${sessionId}`);
-    } catch (error) {
-      console.error('[OpenCodeClient] Failed to subscribe to events:', error);
-      if (onError) {
-        onError(error instanceof Error ? error : new Error(String(error)));
+        if (signal.aborted) {
+          return;
+        }
+        throw streamError ?? new Error('Event stream closed');
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        console.error('[OpenCodeClient] Event stream error:', error);
+        openCodeEventStreamErrors.inc();
+        disconnectedAt ??= Date.now();
+        failures++;
+
+        if (failures > this.config.maxRetries) {
+          this.failSubscriptions(
+            new Error(
+              `Event stream lost after ${this.config.maxRetries} reconnect attempts: ${
+                error instanceof Error ? error.message : String(error)
+              }`
+            )
+          );
+          return;
+        }
+
+        const backoffMs = Math.min(
+          this.config.retryDelayMs * 2 ** (failures - 1),
+          MAX_RECONNECT_DELAY_MS
+        );
+        console.error(`[OpenCodeClient] Reconnecting event stream in ${backoffMs}ms`);
+        await abortableDelay(backoffMs, signal);
       }
     }
   }
 
+  private dispatchEvent(event: RawEvent): void {
+    // OpenCode v1.x uses 'sessionID' (capital ID) in various locations:
+    // - properties.sessionID (e.g., session.idle, session.error)
+    // - properties.info.sessionID (e.g., message.updated, session.updated)
+    // - properties.part.sessionID (e.g., message.part.updated)
+    const props = event.properties as Record<string, unknown> | undefined;
+    const eventSessionId =
+      (props?.sessionID as string) ??
+      (props?.sessionId as string) ??
+      ((props?.info as Record<string, unknown>)?.sessionID as string) ??
+      ((props?.info as Record<string, unknown>)?.sessionId as string) ??
+      ((props?.part as Record<string, unknown>)?.sessionID as string) ??
+      ((props?.part as Record<string, unknown>)?.sessionId as string);
+
+    const handlers = eventSessionId ? this.sessionHandlers.get(eventSessionId) : undefined;
+    if (!handlers || typeof event.type !== 'string') {
+      return;
+    }
+
+    console.error(
+      `[OpenCodeClient] Raw event received: type=${event.type}, sessionId=${eventSessionId}`
+    );
+    handlers.onEvent({
+      type: event.type,
+      timestamp: Date.now(),
+      sessionId: eventSessionId,
+      data: event.properties,
+    });
+  }
+
+  private reportGap(gap: EventStreamGap): void {
+    console.error(
+      `[OpenCodeClient] Event stream reconnected after ${gap.reconnectedAt - gap.disconnectedAt}ms; events in between were missed`
+    );
+    for (const handlers of this.sessionHandlers.values()) {
+      handlers.onGap?.(gap);
+    }
+  }
+
+  private failSubscriptions(error: Error): void {
+    const handlers = Array.from(this.sessionHandlers.values());
+    this.sessionHandlers.clear();
+    for (const { onError } of handlers) {
+      onError?.(error);
+    }
+  }
+
   async getSessionInfo(sessionId: string): Promise<SessionInfo> {
     try {
       const response = await this.client.session.get({
@@ -334,10 +408,61 @@ Calling Agent ID: ${agentId}`;
     }
   }
 
+  /**
+   * The session's current state expressed as the events that produced it: a
+   * `message.updated` and `message.part.updated` per stored message and part,
+   * then `session.status`. An idle session whose last reply failed also gets
+   * the `session.error` it would have emitted.
+   */
+  async getSessionSnapshot(sessionId: string): Promise<OpenCodeEvent[]> {
+    const query = this.directoryQuery(sessionId);
+    const [messagesResponse, statusResponse] = await Promise.all([
+      this.client.session.messages({ path: { id: sessionId }, ...query }),
+      this.client.session.status({ ...query }),
+    ]);
+
+    if (messagesResponse.error) {
+      throw new Error(`Failed to get session messages: ${JSON.stringify(messagesResponse.error)}`);
+    }
+    if (statusResponse.error) {
+      throw new Error(`Failed to get session status: ${JSON.stringify(statusResponse.error)}`);
+    }
+
+    const timestamp = Date.now();
+    const event = (type: string, data: Record<string, unknown>): OpenCodeEvent => ({
+      type,
+      timestamp,
+      sessionId,
+      data: { sessionID: sessionId, ...data },
+    });
+
+    const events: OpenCodeEvent[] = [];
+    let lastAssistant: Record<string, unknown> | undefined;
+    for (const message of messagesResponse.data ?? []) {
+      events.push(event('message.updated', { info: message.info }));
+      for (const part of message.parts) {
+        events.push(event('message.part.updated', { part }));
+      }
+      if (message.info.role === 'assistant') {
+        lastAssistant = message.info as unknown as Record<string, unknown>;
+      }
+    }
+
+    // Idle sessions are left out of the status map
+    const status = statusResponse.data?.[sessionId] ?? { type: 'idle' };
+    if (status.type === 'idle' && lastAssistant?.error) {
+      events.push(event('session.error', { error: lastAssistant.error }));
+    }
+    events.push(event('session.status', { status }));
+
+    return events;
+  }
+
   async abortSession(sessionId: string): Promise<void> {
     try {
       await this.client.session.abort({
         path: { id: sessionId },
+        ...this.directoryQuery(sessionId),
       });
     } catch (error) {
       throw new Error(
@@ -346,14 +471,42 @@ Calling Agent ID: ${agentId}`;
     }
   }
 
-  async sendMessage(sessionId: string, message: string): Promise<void> {
+  /** Answer a `permission.updated` request so the session's pending tool call can go on. */
+  async respondToPermission(
+    sessionId: string,
+    permissionId: string,
+    response: PermissionDecision
+  ): Promise<void> {
+    try {
+      const result = await this.client.postSessionIdPermissionsPermissionId({
+        path: { id: sessionId, permissionID: permissionId },
+        ...this.directoryQuery(sessionId),
+        body: { response },
+      });
+
+      if (result.error) {
+        throw new Error(JSON.stringify(result.error));
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to respond to permission: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async sendMessage(
+    sessionId: string,
+    message: string,
+    model: ModelSelection = this.config.defaultModel ?? DEFAULT_MODEL
+  ): Promise<void> {
     try {
       await this.client.session.prompt({
         path: { id: sessionId },
+        ...this.directoryQuery(sessionId),
         body: {
           model: {
-            providerID: 'anthropic',
-            modelID: 'claude-sonnet-4-5-20250929',
+            providerID: model.providerId,
+            modelID: model.modelId,
           },
           parts: [{ type: 'text', text: message }],
         },
@@ -365,10 +518,44 @@ Calling Agent ID: ${agentId}`;
     }
   }
 
-  async listFiles(_sessionId: string, _path: string = '/'): Promise<string[]> {
+  /**
+   * Queue a message on the session without waiting for the assistant's reply,
+   * so callers are not blocked while the session is mid-turn.
+   */
+  async sendMessageAsync(
+    sessionId: string,
+    message: string,
+    model: ModelSelection = this.config.defaultModel ?? DEFAULT_MODEL
+  ): Promise<void> {
+    try {
+      const response = await this.client.session.promptAsync({
+        path: { id: sessionId },
+        ...this.directoryQuery(sessionId),
+        body: {
+          model: {
+            providerID: model.providerId,
+            modelID: model.modelId,
+          },
+          parts: [{ type: 'text', text: message }],
+        },
+      });
+
+      if (response.error) {
+        throw new Error(JSON.stringify(response.error));
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to send message: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async listFiles(sessionId: string, _path: string = '/'): Promise<string[]> {
     try {
       // OpenCode 1.0 SDK: file.status() returns { data, error }
-      const response = await this.client.file.status();
+      const response = await this.client.file.status({
+        query: { directory: this.getSessionDirectory(sessionId) },
+      });
 
       if (response.error) {
         throw new Error(`Failed to list files: ${JSON.stringify(response.error)}`);
@@ -387,7 +574,7 @@ Calling Agent ID: ${agentId}`;
     try {
       // OpenCode 1.0 SDK: file.read() uses 'path' query param and returns { data, error }
       const response = await this.client.file.read({
-        query: { path: filePath },
+        query: { path: filePath, directory: this.getSessionDirectory(sessionId) },
       });
 
       if (response.error) {
@@ -402,6 +589,25 @@ Calling Agent ID: ${agentId}`;
     }
   }
 
+  /**
+   * Working directory a session was created in. OpenCode routes each request to
+   * the project instance for its `directory`, so every call on the session must
+   * carry it.
+   */
+  getSessionDirectory(sessionId: string): string | undefined {
+    for (const session of this.activeSessions.values()) {
+      if (session.sessionId === sessionId) {
+        return session.directory;
+      }
+    }
+    return undefined;
+  }
+
+  private directoryQuery(sessionId: string): { query?: { directory: string } } {
+    const directory = this.getSessionDirectory(sessionId);
+    return directory ? { query: { directory } } : {};
+  }
+
   getActiveSession(taskId: string): OpenCodeSession | undefined {
     return this.activeSessions.get(taskId);
   }
@@ -411,6 +617,7 @@ Calling Agent ID: ${agentId}`;
       console.log(`[OpenCodeClient] Deleting session ${sessionId} from server`);
       const response = await this.client.session.delete({
         path: { id: sessionId },
+        ...this.directoryQuery(sessionId),
       });
       if (response.error) {
         console.warn(
@@ -449,11 +656,21 @@ Calling Agent ID: ${agentId}`;
     }
   }
 
+  /** Route later calls on the task's session to `directory`, e.g. a forked task's worktree. */
+  setSessionDirectory(taskId: string, directory?: string): void {
+    const session = this.activeSessions.get(taskId);
+    if (session && directory) {
+      session.directory = directory;
+    }
+  }
+
   removeSession(taskId: string): void {
     this.activeSessions.delete(taskId);
   }
 
   cleanup(): void {
     this.activeSessions.clear();
+    this.sessionHandlers.clear();
+    this.closeEventStream();
   }
 }
@@ -0,0 +1,182 @@
+import type { ExecutionManager } from './execution-manager.js';
+import type {
+  PendingPermission,
+  PermissionDecision,
+  PermissionDecisionSource,
+  PermissionGateConfig,
+  PermissionResolution,
+} from './types/permission.js';
+
+interface PendingEntry {
+  permission: PendingPermission;
+  timer: NodeJS.Timeout;
+  responding: boolean;
+  onResolved?: (resolution: PermissionResolution) => void;
+}
+
+const DEFAULT_DECISION_RETRY_MS = 5000;
+
+const REPLY_DECISIONS: Record<string, PermissionDecision> = {
+  approve: 'once',
+  allow: 'once',
+  always: 'always',
+  deny: 'reject',
+  reject: 'reject',
+};
+
+/**
+ * Parse a task room reply of the form "approve <permission id>", "always <id>"
+ * or "deny <id>". The ID may be left out while the task has one open request.
+ */
+export function parsePermissionReply(
+  text: string
+): { decision: PermissionDecision; permissionId?: string } | undefined {
+  const match = /^\s*(approve|allow|always|deny|reject)(?:\s+(\S+))?\s*$/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  return { decision: REPLY_DECISIONS[match[1].toLowerCase()], permissionId: match[2] };
+}
+
+/**
+ * Holds OpenCode permission requests until they are approved or rejected via
+ * approve_task_permission or a reply in the task's Matrix room, then relays the
+ * decision to the session. Requests nobody answers within `timeoutMs` get the
+ * configured default decision.
+ */
+export class PermissionGate {
+  private pending: Map<string, PendingEntry> = new Map();
+
+  constructor(
+    private config: PermissionGateConfig,
+    private execution: ExecutionManager
+  ) {}
+
+  getDefaultDecision(): PermissionDecision {
+    return this.config.defaultDecision;
+  }
+
+  /**
+   * Start waiting for a decision on `permission`. Returns undefined when the
+   * request is already pending, as OpenCode may report it more than once.
+   */
+  request(
+    permission: Omit<PendingPermission, 'requestedAt' | 'expiresAt'>,
+    onResolved?: (resolution: PermissionResolution) => void
+  ): PendingPermission | undefined {
+    if (this.pending.has(permission.permissionId)) {
+      return undefined;
+    }
+
+    const requestedAt = Date.now();
+    const pending: PendingPermission = {
+      ...permission,
+      requestedAt,
+      expiresAt: requestedAt + this.config.timeoutMs,
+    };
+    this.pending.set(permission.permissionId, {
+      permission: pending,
+      timer: this.scheduleDefaultDecision(permission.permissionId, this.config.timeoutMs),
+      responding: false,
+      onResolved,
+    });
+    return pending;
+  }
+
+  /**
+   * Apply the default decision after `delayMs`. If OpenCode does not accept
+   * it, try again shortly until the request is answered or its task ends.
+   */
+  private scheduleDefaultDecision(permissionId: string, delayMs: number): NodeJS.Timeout {
+    const timer = setTimeout(() => {
+      this.resolve(permissionId, this.config.defaultDecision, 'timeout').catch((error) => {
+        console.error(
+          `[permission-gate] Failed to apply default decision to permission ${permissionId}, retrying:`,
+          error
+        );
+        const entry = this.pending.get(permissionId);
+        if (entry && !entry.responding) {
+          entry.timer = this.scheduleDefaultDecision(permissionId, DEFAULT_DECISION_RETRY_MS);
+        }
+      });
+    }, delayMs);
+    timer.unref();
+    return timer;
+  }
+
+  /**
+   * Relay `decision` to the task's OpenCode session. Resolves undefined when the
+   * permission is not pending or its session has ended; throws if OpenCode
+   * rejects the answer, leaving the request pending.
+   */
+  async resolve(
+    permissionId: string,
+    decision: PermissionDecision,
+    source: PermissionDecisionSource,
+    decidedBy?: string
+  ): Promise<PermissionResolution | undefined> {
+    const entry = this.pending.get(permissionId);
+    if (!entry || entry.responding) {
+      return undefined;
+    }
+
+    const { permission } = entry;
+    entry.responding = true;
+    let delivered: boolean;
+    try {
+      delivered = await this.execution.respondToPermission(
+        permission.taskId,
+        permissionId,
+        decision
+      );
+    } catch (error) {
+      entry.responding = false;
+      throw error;
+    }
+
+    this.dismiss(permissionId);
+    if (!delivered) {
+      return undefined;
+    }
+
+    const resolution: PermissionResolution = { permission, decision, source, decidedBy };
+    entry.onResolved?.(resolution);
+    return resolution;
+  }
+
+  /** Stop waiting on a permission that was answered elsewhere, e.g. in the OpenCode UI. */
+  dismiss(permissionId: string): void {
+    const entry = this.pending.get(permissionId);
+    if (entry) {
+      clearTimeout(entry.timer);
+      this.pending.delete(permissionId);
+    }
+  }
+
+  /** Drop a task's open requests once its session has stopped running. */
+  clearTask(taskId: string): void {
+    for (const entry of Array.from(this.pending.values())) {
+      if (entry.permission.taskId === taskId) {
+        this.dismiss(entry.permission.permissionId);
+      }
+    }
+  }
+
+  get(permissionId: string): PendingPermission | undefined {
+    return this.pending.get(permissionId)?.permission;
+  }
+
+  /** Pending requests, oldest first, optionally limited to one task. */
+  list(taskId?: string): PendingPermission[] {
+    return Array.from(this.pending.values())
+      .map((entry) => entry.permission)
+      .filter((permission) => !taskId || permission.taskId === taskId);
+  }
+
+  cleanup(): void {
+    for (const entry of this.pending.values()) {
+      clearTimeout(entry.timer);
+    }
+    this.pending.clear();
+  }
+}
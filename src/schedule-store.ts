@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { ScheduledTask, ScheduleStore } from './types/schedule.js';
+
+const ScheduledTaskListSchema = z.array(
+  z.object({
+    scheduleId: z.string(),
+    cron: z.string().optional(),
+    runAt: z.number().optional(),
+    request: z.object({
+      agent_id: z.string(),
+      task_description: z.string(),
+      timeout_ms: z.number().optional(),
+      priority: z.enum(['low', 'normal', 'high']).optional(),
+      model: z.object({ provider_id: z.string(), model_id: z.string() }).optional(),
+      workspace_path: z.string().optional(),
+      callback_url: z.string().optional(),
+    }),
+    createdAt: z.number(),
+    nextRunAt: z.number().optional(),
+    lastRunAt: z.number().optional(),
+    lastTaskId: z.string().optional(),
+    lastError: z.string().optional(),
+    runCount: z.number().int().nonnegative(),
+  })
+);
+
+export class InMemoryScheduleStore implements ScheduleStore {
+  load(): ScheduledTask[] {
+    return [];
+  }
+
+  save(_schedules: ScheduledTask[]): void {}
+}
+
+/**
+ * Single JSON file rewritten atomically on every change. Schedules are few and
+ * change at most once per run, so a journal like the task store's is not needed.
+ * A file that cannot be read or validated is left untouched: no schedules are
+ * loaded and nothing is saved over it until it is fixed or removed.
+ */
+export class JsonScheduleStore implements ScheduleStore {
+  private loadFailed = false;
+
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  load(): ScheduledTask[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    let schedules: unknown;
+    try {
+      schedules = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    } catch (error) {
+      return this.rejectFile(error instanceof Error ? error.message : String(error));
+    }
+
+    const result = ScheduledTaskListSchema.safeParse(schedules);
+    if (!result.success) {
+      return this.rejectFile(
+        result.error.issues
+          .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+          .join('; ')
+      );
+    }
+    return result.data;
+  }
+
+  save(schedules: ScheduledTask[]): void {
+    if (this.loadFailed) {
+      console.error(
+        `[schedule-store] Not saving schedules over unreadable schedule file ${this.filePath}`
+      );
+      return;
+    }
+
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.writeFileSync(tmpPath, `${JSON.stringify(schedules, null, 2)}\n`);
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      console.error(`[schedule-store] Failed to write ${this.filePath}:`, error);
+    }
+  }
+
+  private rejectFile(reason: string): ScheduledTask[] {
+    this.loadFailed = true;
+    console.error(
+      `[schedule-store] Ignoring unreadable schedule file ${this.filePath}; it will not be overwritten: ${reason}`
+    );
+    return [];
+  }
+}
+
+export function createScheduleStore(filePath?: string): ScheduleStore {
+  if (filePath) {
+    return new JsonScheduleStore(filePath);
+  }
+  return new InMemoryScheduleStore();
+}
@@ -1,32 +1,31 @@
 #!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  Tool,
-} from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import dotenv from 'dotenv';
 import { LettaClient } from './letta-client.js';
 import { WorkspaceManager } from './workspace-manager.js';
 import { ExecutionManager } from './execution-manager.js';
 import { TaskRegistry } from './task-registry.js';
-import { executeTask, ExecuteTaskSchema, type ExecuteTaskParams } from './tools/execute-task.js';
+import { createTaskStore } from './task-store.js';
+import { TaskQueue } from './task-queue.js';
+import { TaskEventLog } from './task-event-log.js';
+import { BudgetManager, parseAgentBudgets } from './budget-manager.js';
+import { WebhookNotifier } from './webhook-notifier.js';
+import { TaskScheduler } from './task-scheduler.js';
+import { createScheduleStore } from './schedule-store.js';
+import { PermissionGate } from './permission-gate.js';
+import { executeTask } from './tools/execute-task.js';
+import { registerTaskSources } from './metrics.js';
+import { ToolRegistry } from './tool-registry.js';
+import { allTools } from './tools/index.js';
+import { SERVER_VERSION } from './tools/server-tools.js';
+import type { ToolDependencies } from './types/tool.js';
+import type { PermissionDecision } from './types/permission.js';
 import { runHTTP } from './http-transport.js';
 import { MatrixClientWrapper } from './matrix-client.js';
 import { MatrixRoomManager } from './matrix-room-manager.js';
 import { MatrixMessageRouter } from './matrix-message-router.js';
 import { ControlSignalHandler } from './control-signal-handler.js';
-import { sendTaskControl, SendTaskControlSchema } from './tools/task-coordination-tools.js';
-import { sendTaskMessage, SendTaskMessageSchema } from './tools/task-message-tools.js';
-import { getTaskStatus, GetTaskStatusSchema } from './tools/task-status-tools.js';
-import { getTaskHistory, GetTaskHistorySchema } from './tools/task-archive-tools.js';
-import {
-  getTaskFiles,
-  GetTaskFilesSchema,
-  readTaskFile,
-  ReadTaskFileSchema,
-} from './tools/file-access-tools.js';
 
 dotenv.config();
 
@@ -56,19 +55,90 @@ const execution = new ExecutionManager({
   openCodeServerEnabled: process.env.OPENCODE_SERVER_ENABLED === 'true',
   openCodeServerUrl: process.env.OPENCODE_SERVER_URL,
   workspaceDir: process.env.WORKSPACE_DIR || '/opt/stacks',
+  gitIsolation: process.env.GIT_ISOLATION_ENABLED !== 'false',
+  gitWorktreeDir: process.env.GIT_WORKTREE_DIR || undefined,
+  eventStreamMaxReconnects: parseInt(process.env.OPENCODE_EVENT_MAX_RECONNECTS || '5', 10),
+  sessionRetentionMs: parseInt(process.env.SESSION_RETENTION_MS || '900000', 10),
+  defaultModel: {
+    providerId: process.env.OPENCODE_DEFAULT_PROVIDER || 'anthropic',
+    modelId: process.env.OPENCODE_DEFAULT_MODEL || 'claude-sonnet-4-5-20250929',
+  },
+  allowedModels: (process.env.OPENCODE_ALLOWED_MODELS || '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter((model) => model.length > 0),
 });
 
-const registry = new TaskRegistry({
+const taskQueueConfig = {
   maxConcurrentTasks: parseInt(process.env.MAX_CONCURRENT_TASKS || '10', 10),
+  maxQueuedTasks: parseInt(process.env.MAX_QUEUED_TASKS || '100', 10),
   idempotencyWindowMs: 24 * 60 * 60 * 1000,
+};
+
+const registry = new TaskRegistry(taskQueueConfig, createTaskStore(process.env.TASK_STORE_PATH));
+
+const queue = new TaskQueue(taskQueueConfig);
+
+registerTaskSources({ registry, queue });
+
+function parsePermissionDecision(value: string | undefined): PermissionDecision {
+  if (value === undefined || value === '') {
+    return 'reject';
+  }
+  if (value !== 'once' && value !== 'always' && value !== 'reject') {
+    throw new Error(`PERMISSION_DEFAULT_DECISION must be once, always or reject (got ${value})`);
+  }
+  return value;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value ? parseFloat(value) : undefined;
+}
+
+const budget = new BudgetManager(
+  {
+    defaults: {
+      maxConcurrentTasks: optionalNumber(process.env.AGENT_MAX_CONCURRENT_TASKS),
+      maxTasksPerHour: optionalNumber(process.env.AGENT_MAX_TASKS_PER_HOUR),
+      maxDailySpend: optionalNumber(process.env.AGENT_MAX_DAILY_SPEND),
+    },
+    agents: parseAgentBudgets(process.env.AGENT_BUDGETS),
+  },
+  registry,
+  execution
+);
+
+const eventLog = new TaskEventLog({
+  maxEntriesPerTask: parseInt(process.env.TASK_EVENT_LOG_MAX_ENTRIES || '1000', 10),
 });
 
+const webhooks = new WebhookNotifier(
+  {
+    urls: (process.env.WEBHOOK_URLS || '')
+      .split(',')
+      .map((url) => url.trim())
+      .filter((url) => url.length > 0),
+    secret: process.env.WEBHOOK_SECRET || undefined,
+    maxRetries: parseInt(process.env.WEBHOOK_MAX_RETRIES || '3', 10),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10),
+  },
+  workspace
+);
+
+const permissions = new PermissionGate(
+  {
+    timeoutMs: parseInt(process.env.PERMISSION_TIMEOUT_MS || '300000', 10),
+    defaultDecision: parsePermissionDecision(process.env.PERMISSION_DEFAULT_DECISION),
+  },
+  execution
+);
+
+let matrixClient: MatrixClientWrapper | null = null;
 let matrixRoomManager: MatrixRoomManager | null = null;
 let matrixMessageRouter: MatrixMessageRouter | null = null;
-let controlSignalHandler: ControlSignalHandler | null = null;
 
 if (process.env.MATRIX_ENABLED === 'true') {
-  const matrixClient = new MatrixClientWrapper({
+  matrixClient = new MatrixClientWrapper({
     homeserverUrl: process.env.MATRIX_HOMESERVER_URL || '',
     accessToken: process.env.MATRIX_ACCESS_TOKEN || '',
     userId: process.env.MATRIX_USER_ID || '',
@@ -85,35 +155,62 @@ if (process.env.MATRIX_ENABLED === 'true') {
     });
 
   matrixRoomManager = new MatrixRoomManager(matrixClient);
+}
 
-  controlSignalHandler = new ControlSignalHandler({
-    execution,
-    registry,
-    workspace,
-    matrix: matrixRoomManager,
-  });
+const scheduler = new TaskScheduler(
+  { pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '30000', 10) },
+  createScheduleStore(process.env.SCHEDULE_STORE_PATH),
+  (request, scheduleId) =>
+    executeTask(
+      { ...request, sync: false },
+      {
+        letta,
+        workspace,
+        execution,
+        registry,
+        queue,
+        eventLog,
+        budget,
+        webhooks,
+        permissions,
+        matrix: matrixRoomManager,
+      },
+      { scheduleId }
+    )
+);
+
+const controlSignalHandler = new ControlSignalHandler({
+  execution,
+  registry,
+  workspace,
+  queue,
+  matrix: matrixRoomManager,
+  webhooks,
+});
 
+if (matrixClient && matrixRoomManager) {
   matrixMessageRouter = new MatrixMessageRouter({
     matrix: matrixClient,
     rooms: matrixRoomManager,
     registry,
     workspace,
     controlHandler: controlSignalHandler,
+    permissions,
+    config: {
+      permissionApprovers: (process.env.PERMISSION_APPROVERS || '')
+        .split(',')
+        .map((userId) => userId.trim())
+        .filter((userId) => userId.length > 0),
+    },
   });
   matrixMessageRouter.start();
 }
 
-export function createMCPServer(deps: {
-  letta: LettaClient;
-  workspace: WorkspaceManager;
-  execution: ExecutionManager;
-  registry: TaskRegistry;
-  matrix: MatrixRoomManager | null;
-}): Server {
+export function createMCPServer(deps: ToolDependencies): Server {
   const server = new Server(
     {
       name: 'letta-opencode-plugin',
-      version: '0.1.0',
+      version: SERVER_VERSION,
     },
     {
       capabilities: {
@@ -122,397 +219,26 @@ export function createMCPServer(deps: {
     }
   );
 
-  const PingSchema = z.object({});
-  const HealthSchema = z.object({});
+  const tools = new ToolRegistry(allTools, deps);
 
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    const tools: Tool[] = [
-      {
-        name: 'ping',
-        description: 'Simple ping tool to verify the MCP server is responsive',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'health',
-        description: 'Health check tool that returns server status and environment info',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
-      },
-      {
-        name: 'opencode_execute_task',
-        description:
-          'Execute a development task using OpenCode. Returns task ID and status. ' +
-          'Use sync=true to wait for completion, or sync=false (default) to return immediately.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            agent_id: {
-              type: 'string',
-              description: 'ID of the Letta agent requesting the task',
-            },
-            task_description: {
-              type: 'string',
-              description: 'Natural language description of the task to execute',
-            },
-            idempotency_key: {
-              type: 'string',
-              description: 'Optional key to prevent duplicate execution',
-            },
-            timeout_ms: {
-              type: 'number',
-              description: 'Optional task execution timeout in milliseconds',
-            },
-            sync: {
-              type: 'boolean',
-              description: 'If true, wait for task completion; if false, return immediately',
-              default: false,
-            },
-            observers: {
-              type: 'array',
-              items: { type: 'string' },
-              description:
-                'Optional list of Matrix user IDs to invite as observers (e.g., @user:domain.com)',
-            },
-          },
-          required: ['agent_id', 'task_description'],
-        },
-      },
-      {
-        name: 'get_task_status',
-        description:
-          'Get the current status and recent activity of a task. ' +
-          'Returns task status, timestamps, and the 5 most recent events.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            task_id: {
-              type: 'string',
-              description: 'Task ID to check status for',
-            },
-          },
-          required: ['task_id'],
-        },
-      },
-      {
-        name: 'send_task_message',
-        description:
-          'Send a message to a running task. Use this for updates, feedback, clarifications, ' +
-          'corrections, guidance, approvals, or context changes.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            task_id: {
-              type: 'string',
-              description: 'Task ID to send message to',
-            },
-            message: {
-              type: 'string',
-              description: 'Message content',
-            },
-            message_type: {
-              type: 'string',
-              description: 'Type of message',
-              enum: [
-                'update',
-                'feedback',
-                'context_change',
-                'requirement_change',
-                'priority_change',
-                'clarification',
-                'correction',
-                'guidance',
-                'approval',
-              ],
-              default: 'update',
-            },
-            metadata: {
-              type: 'object',
-              description: 'Optional additional metadata',
-            },
-          },
-          required: ['task_id', 'message'],
-        },
-      },
-      {
-        name: 'send_task_control',
-        description: 'Send a control signal to cancel, pause, or resume task execution.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            task_id: {
-              type: 'string',
-              description: 'Task ID to control',
-            },
-            control: {
-              type: 'string',
-              description: 'Control action',
-              enum: ['cancel', 'pause', 'resume'],
-            },
-            reason: {
-              type: 'string',
-              description: 'Optional explanation for the control signal',
-            },
-          },
-          required: ['task_id', 'control'],
-        },
-      },
-      {
-        name: 'get_task_history',
-        description:
-          'Retrieve the complete history of events and optionally artifacts for a completed task. ' +
-          'Supports pagination for large event histories.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            task_id: {
-              type: 'string',
-              description: 'Task ID to retrieve history for',
-            },
-            include_artifacts: {
-              type: 'boolean',
-              description: 'Whether to include artifacts (files, outputs) in the response',
-              default: false,
-            },
-            events_limit: {
-              type: 'number',
-              description: 'Maximum number of events to return (default: 100, use -1 for all)',
-              default: 100,
-            },
-            events_offset: {
-              type: 'number',
-              description: 'Number of events to skip for pagination (default: 0)',
-              default: 0,
-            },
-          },
-          required: ['task_id'],
-        },
-      },
-      {
-        name: 'get_task_files',
-        description:
-          "List files that have been created or modified in a running task's workspace. " +
-          'Only available when using OpenCode server mode.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            task_id: {
-              type: 'string',
-              description: 'Task ID to list files for',
-            },
-            path: {
-              type: 'string',
-              description: 'Optional path filter (default: / for root)',
-            },
-          },
-          required: ['task_id'],
-        },
-      },
-      {
-        name: 'read_task_file',
-        description:
-          "Read the content of a file from a running task's workspace. " +
-          'Only available when using OpenCode server mode.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            task_id: {
-              type: 'string',
-              description: 'Task ID to read file from',
-            },
-            file_path: {
-              type: 'string',
-              description: 'Path to the file to read',
-            },
-          },
-          required: ['task_id', 'file_path'],
-        },
-      },
-    ];
-
-    return { tools };
+    return { tools: tools.listTools() };
   });
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
 
     try {
-      if (name === 'ping') {
-        PingSchema.parse(args);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ status: 'ok', timestamp: Date.now() }),
-            },
-          ],
-        };
-      }
-
-      if (name === 'health') {
-        HealthSchema.parse(args);
-        const health = {
-          status: 'healthy',
-          timestamp: Date.now(),
-          version: '0.1.0',
-          environment: {
-            letta_api_url: process.env.LETTA_API_URL || 'not_configured',
-            runner_image: process.env.RUNNER_IMAGE || 'not_configured',
-            mcp_port: process.env.MCP_PORT || 'not_configured',
-          },
-          metrics: {
-            active_tasks: deps.registry.getRunningTasksCount(),
-            can_accept_task: deps.registry.canAcceptTask(),
-          },
-        };
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(health, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'opencode_execute_task') {
-        console.log(`[server] Executing opencode_execute_task with args:`, JSON.stringify(args));
-        const params = ExecuteTaskSchema.parse(args) as ExecuteTaskParams;
-        const result = await executeTask(params, {
-          letta: deps.letta,
-          workspace: deps.workspace,
-          execution: deps.execution,
-          registry: deps.registry,
-          matrix: deps.matrix,
-        });
-        console.log(`[server] opencode_execute_task result:`, JSON.stringify(result));
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'get_task_status') {
-        const params = GetTaskStatusSchema.parse(args);
-        const result = await getTaskStatus(params, {
-          registry: deps.registry,
-          workspace: deps.workspace,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'send_task_message') {
-        const params = SendTaskMessageSchema.parse(args);
-        const result = await sendTaskMessage(params, {
-          registry: deps.registry,
-          workspace: deps.workspace,
-          matrix: deps.matrix,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'send_task_control') {
-        const params = SendTaskControlSchema.parse(args);
-        const result = await sendTaskControl(params, {
-          registry: deps.registry,
-          matrix: deps.matrix,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'get_task_history') {
-        const params = GetTaskHistorySchema.parse(args);
-        const result = await getTaskHistory(params, {
-          registry: deps.registry,
-          workspace: deps.workspace,
-          matrix: deps.matrix,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'get_task_files') {
-        const params = GetTaskFilesSchema.parse(args);
-        const result = await getTaskFiles(params, {
-          execution: deps.execution,
-          registry: deps.registry,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
-
-      if (name === 'read_task_file') {
-        const params = ReadTaskFileSchema.parse(args);
-        const result = await readTaskFile(params, {
-          execution: deps.execution,
-          registry: deps.registry,
-        });
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+      log(`Calling tool ${name}`);
+      const result = await tools.callTool(name, args);
 
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify({ error: `Unknown tool: ${name}` }),
+            text: JSON.stringify(result, null, 2),
           },
         ],
-        isError: true,
       };
     } catch (error) {
       log('Error handling tool call:', error);
@@ -533,13 +259,59 @@ export function createMCPServer(deps: {
   return server;
 }
 
+async function reconcileRestoredTasks(): Promise<void> {
+  const orphaned = registry.reconcile((taskId) => execution.isTaskActive(taskId));
+  if (orphaned.length === 0) {
+    return;
+  }
+
+  console.error(`[letta-opencode-plugin] Marked ${orphaned.length} orphaned task(s) as failed`);
+
+  for (const task of orphaned) {
+    if (!task.workspaceBlockId) continue;
+    await workspace
+      .updateWorkspace(task.agentId, task.workspaceBlockId, {
+        status: 'failed',
+        events: [
+          {
+            timestamp: Date.now(),
+            type: 'task_failed',
+            message: task.error || 'Task orphaned by server restart',
+          },
+        ],
+      })
+      .catch((error) => {
+        console.error(`Failed to update workspace for orphaned task ${task.taskId}:`, error);
+      });
+  }
+
+  const released = await execution
+    .releaseOrphanedSessions(orphaned.map((task) => task.taskId))
+    .catch((error) => {
+      console.error('Failed to release orphaned OpenCode sessions:', error);
+      return 0;
+    });
+  if (released > 0) {
+    log(`Released ${released} orphaned OpenCode session(s)`);
+  }
+}
+
 async function main() {
   log('Starting Letta OpenCode Plugin MCP Server...');
+  await reconcileRestoredTasks();
+  scheduler.start();
   const server = createMCPServer({
     letta,
     workspace,
     execution,
     registry,
+    queue,
+    eventLog,
+    budget,
+    webhooks,
+    scheduler,
+    controlHandler: controlSignalHandler,
+    permissions,
     matrix: matrixRoomManager,
   });
   await runHTTP(server);
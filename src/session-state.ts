@@ -0,0 +1,151 @@
+import type { OpenCodeEvent, SessionOutcome, SessionPhase } from './types/opencode.js';
+
+type Props = Record<string, unknown>;
+
+function asProps(value: unknown): Props {
+  return value && typeof value === 'object' ? (value as Props) : {};
+}
+
+/** Human-readable message from a `session.error` event's `error` property. */
+export function parseSessionError(data: unknown): string {
+  const error = asProps(asProps(data).error);
+  const message = asProps(error.data).message ?? error.name;
+  return typeof message === 'string' ? message : 'Session error';
+}
+
+/**
+ * Tracks one OpenCode session through a prompt turn. The turn only ends on an
+ * explicit `session.idle` (or `session.status` reporting `idle`), a
+ * `session.error`, the task timeout or loss of the event stream; content of
+ * other events is never interpreted as completion.
+ *
+ * `done` resolves with the outcome of the turn, or rejects if the event stream
+ * is lost before the session settles.
+ */
+export class SessionStateMachine {
+  readonly done: Promise<SessionOutcome>;
+  private phase: SessionPhase = 'pending';
+  private error?: string;
+  private resolveDone!: (outcome: SessionOutcome) => void;
+  private rejectDone!: (error: Error) => void;
+
+  constructor() {
+    this.done = new Promise<SessionOutcome>((resolve, reject) => {
+      this.resolveDone = resolve;
+      this.rejectDone = reject;
+    });
+    // Callers may settle the machine before awaiting `done`
+    this.done.catch(() => undefined);
+  }
+
+  getPhase(): SessionPhase {
+    return this.phase;
+  }
+
+  isSettled(): boolean {
+    return (
+      this.phase === 'idle' ||
+      this.phase === 'errored' ||
+      this.phase === 'timed_out' ||
+      this.phase === 'disconnected'
+    );
+  }
+
+  /** The prompt is about to be sent; idle events before this are stale. */
+  start(): void {
+    if (this.phase === 'pending') {
+      this.phase = 'busy';
+    }
+  }
+
+  /** Suspend the turn; idle and error events caused by aborting it are ignored. */
+  pause(): void {
+    this.transition('paused');
+  }
+
+  /**
+   * A follow-up prompt resumed the session. Idle and error events are ignored
+   * until the new turn reports busy, as the aborted turn may still be settling.
+   */
+  resume(): void {
+    if (this.phase === 'paused') {
+      this.phase = 'awaiting_busy';
+    }
+  }
+
+  /** Pausing failed and the current turn is still running. */
+  cancelPause(): void {
+    if (this.phase === 'paused') {
+      this.phase = 'busy';
+    }
+  }
+
+  /** Record an error reported outside `session.error`; it fails the turn once idle. */
+  recordError(message: string): void {
+    this.error = message;
+  }
+
+  handleEvent(event: OpenCodeEvent): void {
+    if (this.isSettled() || this.phase === 'pending' || this.phase === 'paused') {
+      return;
+    }
+
+    if (this.phase === 'awaiting_busy') {
+      const status = asProps(asProps(event.data).status).type;
+      if (event.type === 'session.status' && (status === 'busy' || status === 'retry')) {
+        this.phase = status === 'busy' ? 'busy' : 'retrying';
+      }
+      return;
+    }
+
+    switch (event.type) {
+      case 'session.status': {
+        const status = asProps(asProps(event.data).status).type;
+        if (status === 'idle') {
+          this.settleIdle();
+        } else if (status === 'busy') {
+          this.phase = 'busy';
+        } else if (status === 'retry') {
+          this.phase = 'retrying';
+        }
+        break;
+      }
+      case 'session.idle':
+        this.settleIdle();
+        break;
+      case 'session.error':
+        this.error = parseSessionError(event.data);
+        this.phase = 'errored';
+        this.resolveDone({ status: 'error', error: this.error });
+        break;
+      default:
+        break;
+    }
+  }
+
+  timeout(): void {
+    if (this.transition('timed_out')) {
+      this.resolveDone({ status: 'timeout', error: 'Task execution timed out' });
+    }
+  }
+
+  /** The event stream failed or closed before the session settled. */
+  disconnect(error: Error): void {
+    if (this.transition('disconnected')) {
+      this.rejectDone(error);
+    }
+  }
+
+  private settleIdle(): void {
+    this.phase = 'idle';
+    this.resolveDone(this.error ? { status: 'error', error: this.error } : { status: 'success' });
+  }
+
+  private transition(phase: SessionPhase): boolean {
+    if (this.isSettled()) {
+      return false;
+    }
+    this.phase = phase;
+    return true;
+  }
+}
@@ -0,0 +1,132 @@
+import type { TaskRegistry } from './task-registry.js';
+import type { WorkspaceManager } from './workspace-manager.js';
+import type { TaskRegistryEntry } from './types/task.js';
+
+const SETTLED_STATUSES: ReadonlySet<TaskRegistryEntry['status']> = new Set([
+  'completed',
+  'failed',
+  'timeout',
+  'cancelled',
+]);
+
+// Same artifacts get_task_diff reads for finished tasks
+const DIFF_ARTIFACT_NAMES = ['git_diff', 'session_diff'];
+const MAX_CONTEXT_DIFF_LENGTH = 20000;
+
+export function isSettled(task: TaskRegistryEntry): boolean {
+  return SETTLED_STATUSES.has(task.status);
+}
+
+export function findUnknownDependencies(registry: TaskRegistry, dependsOn: string[]): string[] {
+  return dependsOn.filter((taskId) => !registry.getTask(taskId));
+}
+
+export function hasPendingDependencies(registry: TaskRegistry, dependsOn: string[]): boolean {
+  return dependsOn.some((taskId) => {
+    const task = registry.getTask(taskId);
+    return task !== undefined && !isSettled(task);
+  });
+}
+
+/**
+ * Resolve with the dependency entries once every one of them has settled, or
+ * with `null` if the waiting task itself is cancelled first.
+ */
+export function waitForDependencies(
+  registry: TaskRegistry,
+  taskId: string,
+  dependsOn: string[]
+): Promise<TaskRegistryEntry[] | null> {
+  return waitUntil(registry, () =>
+    registry.getTask(taskId)?.status === 'cancelled' ? null : settledEntries(registry, dependsOn)
+  );
+}
+
+/** Resolve with the entries of `taskIds` once every one of them has settled. */
+export function waitForSettled(
+  registry: TaskRegistry,
+  taskIds: string[]
+): Promise<TaskRegistryEntry[]> {
+  return waitUntil(registry, () => settledEntries(registry, taskIds));
+}
+
+function settledEntries(
+  registry: TaskRegistry,
+  taskIds: string[]
+): TaskRegistryEntry[] | undefined {
+  const entries = taskIds
+    .map((id) => registry.getTask(id))
+    .filter((task): task is TaskRegistryEntry => task !== undefined);
+  return entries.every(isSettled) ? entries : undefined;
+}
+
+/** Re-evaluate `check` on every status change until it returns a value. */
+function waitUntil<T>(registry: TaskRegistry, check: () => T | undefined): Promise<T> {
+  return new Promise((resolve) => {
+    const initial = check();
+    if (initial !== undefined) {
+      resolve(initial);
+      return;
+    }
+    const unsubscribe = registry.onStatusChange(() => {
+      const value = check();
+      if (value !== undefined) {
+        unsubscribe();
+        resolve(value);
+      }
+    });
+  });
+}
+
+/**
+ * Prompt section describing what each dependency produced: its status, output
+ * and, when the task recorded one, the diff of its changes.
+ */
+export async function buildDependencyContext(
+  upstream: TaskRegistryEntry[],
+  workspace: WorkspaceManager
+): Promise<string> {
+  const sections = await Promise.all(
+    upstream.map(async (task) => {
+      const lines = [`### ${task.taskId} (${task.status})`];
+      let description: unknown;
+      let diff: string | undefined;
+
+      if (task.workspaceBlockId) {
+        try {
+          const block = await workspace.getWorkspace(task.agentId, task.workspaceBlockId);
+          description = block.metadata?.task_description;
+          diff = DIFF_ARTIFACT_NAMES.map(
+            (name) => block.artifacts.find((a) => a.type === 'diff' && a.name === name)?.content
+          ).find((content) => content !== undefined);
+        } catch (error) {
+          console.error(`[task-dependencies] Failed to read workspace of ${task.taskId}:`, error);
+        }
+      }
+
+      if (typeof description === 'string') {
+        lines.push(`Task: ${description}`);
+      }
+      if (task.error) {
+        lines.push(`Error: ${task.error}`);
+      }
+      if (task.output) {
+        lines.push('Output:', task.output);
+      }
+      if (diff) {
+        const truncated =
+          diff.length > MAX_CONTEXT_DIFF_LENGTH
+            ? `${diff.slice(0, MAX_CONTEXT_DIFF_LENGTH)}\n... [diff truncated]`
+            : diff;
+        lines.push('Changes:', '```diff', truncated, '```');
+      }
+      return lines.join('\n');
+    })
+  );
+
+  return [
+    '## Results of prerequisite tasks',
+    'This task ran after the following tasks finished. Build on their results.',
+    ...sections,
+  ].join('\n\n');
+}
@@ -0,0 +1,82 @@
+import { createTwoFilesPatch, FILE_HEADERS_ONLY } from 'diff';
+import type { SessionFileDiff, UnifiedFileDiff } from './types/execution.js';
+
+export function formatSessionDiff(diffs: SessionFileDiff[]): UnifiedFileDiff[] {
+  return diffs.map((file) => {
+    const patch = createTwoFilesPatch(
+      file.before ? `a/${file.path}` : '/dev/null',
+      file.after ? `b/${file.path}` : '/dev/null',
+      file.before,
+      file.after,
+      undefined,
+      undefined,
+      { headerOptions: FILE_HEADERS_ONLY }
+    );
+    return {
+      path: file.path,
+      diff: `diff --git a/${file.path} b/${file.path}\n${patch}`,
+      additions: file.additions,
+      deletions: file.deletions,
+    };
+  });
+}
+
+function diffPath(header: string, lines: string[]): string {
+  for (const line of lines) {
+    if (line.startsWith('@@')) break;
+    if (line.startsWith('+++ b/')) return line.slice('+++ b/'.length);
+    if (line.startsWith('--- a/')) return line.slice('--- a/'.length);
+  }
+  const match = /^diff --git a\/(.+) b\/(.+)$/.exec(header);
+  return match ? match[2] : header;
+}
+
+/**
+ * Split a multi-file `git diff` into one entry per file, counting added and
+ * removed lines from the hunks.
+ */
+export function splitUnifiedDiff(text: string): UnifiedFileDiff[] {
+  const sections = text.split(/^(?=diff --git )/m).filter((section) => section.trim().length > 0);
+
+  return sections.map((section) => {
+    const lines = section.split('\n');
+    let additions = 0;
+    let deletions = 0;
+    let inHunk = false;
+
+    for (const line of lines) {
+      if (line.startsWith('@@')) {
+        inHunk = true;
+      } else if (inHunk && line.startsWith('+')) {
+        additions++;
+      } else if (inHunk && line.startsWith('-')) {
+        deletions++;
+      }
+    }
+
+    return {
+      path: diffPath(lines[0], lines),
+      diff: section,
+      additions,
+      deletions,
+    };
+  });
+}
+
+/** Read the file list out of an OpenCode `session.diff` event payload. */
+export function parseSessionDiffEvent(data: unknown): SessionFileDiff[] | undefined {
+  const diff = (data as Record<string, unknown> | undefined)?.diff;
+  if (!Array.isArray(diff)) {
+    return undefined;
+  }
+
+  return diff
+    .filter((entry): entry is Record<string, unknown> => typeof entry?.file === 'string')
+    .map((entry) => ({
+      path: entry.file as string,
+      before: typeof entry.before === 'string' ? entry.before : '',
+      after: typeof entry.after === 'string' ? entry.after : '',
+      additions: typeof entry.additions === 'number' ? entry.additions : 0,
+      deletions: typeof entry.deletions === 'number' ? entry.deletions : 0,
+    }));
+}
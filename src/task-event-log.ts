@@ -0,0 +1,202 @@
+import type { OpenCodeEvent } from './types/opencode.js';
+import type { TaskEventLogConfig, TaskLogEntry, TaskLogEntryType } from './types/task.js';
+import { parseSessionDiffEvent } from './task-diff.js';
+import { formatUsage, parseMessageUsage, toUsageSummary } from './usage.js';
+
+const DEFAULT_MAX_ENTRIES_PER_TASK = 1000;
+const DEFAULT_MAX_TASKS = 200;
+const MAX_CONTENT_LENGTH = 2000;
+
+// Tools whose `filePath` input is a file the task wrote to.
+const FILE_EDIT_TOOLS = new Set(['edit', 'write', 'multiedit', 'patch']);
+
+type Props = Record<string, unknown>;
+
+interface TaskLog {
+  entries: TaskLogEntry[];
+  messageText: Map<string, string>;
+  recorded: Set<string>;
+}
+
+export interface TaskLogQuery {
+  types?: TaskLogEntryType[];
+}
+
+function truncate(value: unknown): unknown {
+  if (typeof value === 'string' && value.length > MAX_CONTENT_LENGTH) {
+    return `${value.slice(0, MAX_CONTENT_LENGTH)}... [truncated]`;
+  }
+  return value;
+}
+
+function asProps(value: unknown): Props {
+  return value && typeof value === 'object' ? (value as Props) : {};
+}
+
+/**
+ * Normalized per-task record of what OpenCode did: tool invocations, file
+ * edits, assistant messages and token usage. OpenCode streams many partial
+ * updates for the same part or message, so each one is recorded only once it
+ * has settled.
+ */
+export class TaskEventLog {
+  private logs: Map<string, TaskLog> = new Map();
+  private maxEntriesPerTask: number;
+  private maxTasks: number;
+
+  constructor(config: TaskEventLogConfig = {}) {
+    this.maxEntriesPerTask = config.maxEntriesPerTask ?? DEFAULT_MAX_ENTRIES_PER_TASK;
+    this.maxTasks = config.maxTasks ?? DEFAULT_MAX_TASKS;
+  }
+
+  record(taskId: string, event: OpenCodeEvent): void {
+    const log = this.getLog(taskId);
+    const data = asProps(event.data);
+
+    switch (event.type) {
+      case 'message.part.updated':
+        this.recordPart(log, event.timestamp, asProps(data.part));
+        break;
+      case 'message.updated':
+        this.recordMessage(log, event.timestamp, event.data);
+        break;
+      case 'session.diff': {
+        const files = parseSessionDiffEvent(event.data) ?? [];
+        this.append(log, event.timestamp, 'diff', `${files.length} file(s) changed`, {
+          files: files.map(({ path, additions, deletions }) => ({ path, additions, deletions })),
+        });
+        break;
+      }
+      case 'session.error':
+      case 'error': {
+        const error = asProps(data.error);
+        const message = asProps(error.data).message ?? error.name ?? event.data;
+        this.append(log, event.timestamp, 'error', String(message), { error: event.data });
+        break;
+      }
+      default:
+        break;
+    }
+  }
+
+  getEntries(taskId: string, query: TaskLogQuery = {}): TaskLogEntry[] {
+    const entries = this.logs.get(taskId)?.entries ?? [];
+    if (!query.types || query.types.length === 0) {
+      return [...entries];
+    }
+    const types = new Set(query.types);
+    return entries.filter((entry) => types.has(entry.type));
+  }
+
+  has(taskId: string): boolean {
+    return this.logs.has(taskId);
+  }
+
+  clear(taskId: string): void {
+    this.logs.delete(taskId);
+  }
+
+  private getLog(taskId: string): TaskLog {
+    let log = this.logs.get(taskId);
+    if (!log) {
+      log = { entries: [], messageText: new Map(), recorded: new Set() };
+      this.logs.set(taskId, log);
+
+      // Maps iterate in insertion order, so the first key is the oldest task
+      while (this.logs.size > this.maxTasks) {
+        const oldest = this.logs.keys().next().value as string;
+        this.logs.delete(oldest);
+      }
+    }
+    return log;
+  }
+
+  private recordPart(log: TaskLog, timestamp: number, part: Props): void {
+    if (part.type === 'text' && typeof part.messageID === 'string') {
+      log.messageText.set(part.messageID, String(part.text ?? ''));
+      return;
+    }
+
+    if (part.type !== 'tool') {
+      return;
+    }
+
+    const state = asProps(part.state);
+    const status = state.status;
+    const callId = String(part.callID ?? part.id);
+    if ((status !== 'completed' && status !== 'error') || log.recorded.has(`tool:${callId}`)) {
+      return;
+    }
+    log.recorded.add(`tool:${callId}`);
+
+    const tool = String(part.tool);
+    const input = asProps(state.input);
+    this.append(
+      log,
+      timestamp,
+      'tool_call',
+      `Tool ${tool} ${status}${state.title ? `: ${state.title}` : ''}`,
+      {
+        tool,
+        call_id: callId,
+        status,
+        title: state.title,
+        input,
+        output: truncate(state.output),
+        error: state.error,
+      }
+    );
+
+    if (status === 'completed' && FILE_EDIT_TOOLS.has(tool) && typeof input.filePath === 'string') {
+      this.append(log, timestamp, 'file_edit', `Edited ${input.filePath}`, {
+        path: input.filePath,
+        tool,
+      });
+    }
+  }
+
+  private recordMessage(log: TaskLog, timestamp: number, data: unknown): void {
+    const info = asProps(asProps(data).info);
+    const parsed = parseMessageUsage(data);
+    if (
+      !parsed ||
+      !asProps(info.time).completed ||
+      log.recorded.has(`message:${parsed.messageId}`)
+    ) {
+      return;
+    }
+    const { messageId, usage } = parsed;
+    log.recorded.add(`message:${messageId}`);
+
+    const model =
+      typeof info.providerID === 'string' && typeof info.modelID === 'string'
+        ? `${info.providerID}/${info.modelID}`
+        : undefined;
+
+    this.append(log, timestamp, 'message', 'Assistant message completed', {
+      message_id: messageId,
+      model,
+      text: truncate(log.messageText.get(messageId) ?? ''),
+    });
+    log.messageText.delete(messageId);
+
+    this.append(log, timestamp, 'usage', `Used ${formatUsage(usage)}`, {
+      message_id: messageId,
+      model,
+      ...toUsageSummary(usage),
+    });
+  }
+
+  private append(
+    log: TaskLog,
+    timestamp: number,
+    type: TaskLogEntryType,
+    message: string,
+    data: Record<string, unknown>
+  ): void {
+    log.entries.push({ timestamp, type, message, data });
+    if (log.entries.length > this.maxEntriesPerTask) {
+      log.entries.splice(0, log.entries.length - this.maxEntriesPerTask);
+    }
+  }
+}
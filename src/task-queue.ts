@@ -0,0 +1,117 @@
+import type { TaskPriority, TaskQueueConfig } from './types/task.js';
+
+const PRIORITY_WEIGHT: Record<TaskPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+const DEFAULT_MAX_QUEUED_TASKS = 100;
+
+interface PendingTask {
+  taskId: string;
+  weight: number;
+  sequence: number;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Dispatches task executions with bounded concurrency. Tasks wait in priority
+ * order (FIFO within the same priority) and start as soon as a running task
+ * settles.
+ */
+export class TaskQueue {
+  private pending: PendingTask[] = [];
+  private running: Set<string> = new Set();
+  private sequence = 0;
+  private maxConcurrentTasks: number;
+  private maxQueuedTasks: number;
+
+  constructor(config: Pick<TaskQueueConfig, 'maxConcurrentTasks' | 'maxQueuedTasks'>) {
+    this.maxConcurrentTasks = config.maxConcurrentTasks;
+    this.maxQueuedTasks = config.maxQueuedTasks ?? DEFAULT_MAX_QUEUED_TASKS;
+  }
+
+  /**
+   * Queue a task and resolve with the result of `run` once it has had a slot.
+   * Rejects if the task is cancelled before it starts.
+   */
+  enqueue<T>(taskId: string, run: () => Promise<T>, priority: TaskPriority = 'normal'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.push({
+        taskId,
+        weight: PRIORITY_WEIGHT[priority],
+        sequence: this.sequence++,
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.pending.sort((a, b) => b.weight - a.weight || a.sequence - b.sequence);
+      this.drain();
+    });
+  }
+
+  cancel(taskId: string): boolean {
+    const index = this.pending.findIndex((task) => task.taskId === taskId);
+    if (index === -1) {
+      return false;
+    }
+
+    const [task] = this.pending.splice(index, 1);
+    task.reject(new Error(`Task ${taskId} cancelled while queued`));
+    return true;
+  }
+
+  /**
+   * 1-based position among tasks waiting for a slot, or undefined if the task
+   * is not waiting (already running, finished or unknown).
+   */
+  getPosition(taskId: string): number | undefined {
+    const index = this.pending.findIndex((task) => task.taskId === taskId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  isQueued(taskId: string): boolean {
+    return this.getPosition(taskId) !== undefined;
+  }
+
+  getDepth(): number {
+    return this.pending.length;
+  }
+
+  getRunningCount(): number {
+    return this.running.size;
+  }
+
+  isFull(): boolean {
+    return (
+      this.running.size >= this.maxConcurrentTasks && this.pending.length >= this.maxQueuedTasks
+    );
+  }
+
+  /** Whether `count` more tasks fit in the free slots plus the remaining queue space. */
+  hasCapacityFor(count: number): boolean {
+    const waiting = Math.max(0, count - (this.maxConcurrentTasks - this.running.size));
+    return this.pending.length + waiting <= this.maxQueuedTasks;
+  }
+
+  private drain(): void {
+    while (this.running.size < this.maxConcurrentTasks) {
+      const next = this.pending.shift();
+      if (!next) {
+        return;
+      }
+
+      this.running.add(next.taskId);
+      Promise.resolve()
+        .then(() => next.run())
+        .then(next.resolve, next.reject)
+        .finally(() => {
+          this.running.delete(next.taskId);
+          this.drain();
+        });
+    }
+  }
+}
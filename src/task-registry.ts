@@ -1,16 +1,47 @@
-import type { TaskRegistryEntry, TaskQueueConfig } from './types/task.js';
+import type {
+  TaskRegistryEntry,
+  TaskRegistryDetails,
+  TaskQueueConfig,
+  TaskStore,
+} from './types/task.js';
 import type { RoomInfo } from './types/matrix.js';
+import type { TaskUsage } from './types/execution.js';
+import { InMemoryTaskStore } from './task-store.js';
+
+const ACTIVE_STATUSES: ReadonlySet<TaskRegistryEntry['status']> = new Set([
+  'blocked',
+  'queued',
+  'running',
+  'paused',
+]);
 
 export class TaskRegistry {
   private tasks: Map<string, TaskRegistryEntry> = new Map();
   private idempotencyKeys: Map<string, string> = new Map();
   private config: TaskQueueConfig;
+  private store: TaskStore;
+  private statusListeners: Set<(entry: TaskRegistryEntry) => void> = new Set();
 
-  constructor(config: TaskQueueConfig) {
+  constructor(config: TaskQueueConfig, store: TaskStore = new InMemoryTaskStore()) {
     this.config = config;
+    this.store = store;
+    this.restore();
     this.startCleanupInterval();
   }
 
+  private restore(): void {
+    for (const entry of this.store.load()) {
+      this.tasks.set(entry.taskId, entry);
+      if (entry.idempotencyKey) {
+        this.idempotencyKeys.set(entry.idempotencyKey, entry.taskId);
+      }
+    }
+  }
+
+  private persist(entry: TaskRegistryEntry): void {
+    this.store.save(entry);
+  }
+
   private startCleanupInterval(): void {
     setInterval(() => {
       this.cleanup();
@@ -24,6 +55,7 @@ export class TaskRegistry {
     for (const [taskId, entry] of this.tasks.entries()) {
       if (entry.completedAt && entry.completedAt < expiry && entry.status !== 'running') {
         this.tasks.delete(taskId);
+        this.store.delete(taskId);
         if (entry.idempotencyKey) {
           this.idempotencyKeys.delete(entry.idempotencyKey);
         }
@@ -31,7 +63,12 @@ export class TaskRegistry {
     }
   }
 
-  register(taskId: string, agentId: string, idempotencyKey?: string): TaskRegistryEntry {
+  register(
+    taskId: string,
+    agentId: string,
+    idempotencyKey?: string,
+    details?: TaskRegistryDetails
+  ): TaskRegistryEntry {
     if (idempotencyKey && this.idempotencyKeys.has(idempotencyKey)) {
       const existingTaskId = this.idempotencyKeys.get(idempotencyKey)!;
       const existingTask = this.tasks.get(existingTaskId);
@@ -41,6 +78,7 @@ export class TaskRegistry {
     }
 
     const entry: TaskRegistryEntry = {
+      ...details,
       taskId,
       agentId,
       idempotencyKey,
@@ -52,6 +90,7 @@ export class TaskRegistry {
     if (idempotencyKey) {
       this.idempotencyKeys.set(idempotencyKey, taskId);
     }
+    this.persist(entry);
 
     return entry;
   }
@@ -65,6 +104,8 @@ export class TaskRegistry {
       error?: string;
       durationMs?: number;
       exitCode?: number;
+      usage?: TaskUsage;
+      attempts?: number;
     }
   ): void {
     const task = this.tasks.get(taskId);
@@ -74,7 +115,10 @@ export class TaskRegistry {
         task.startedAt = Date.now();
       }
       if (
-        (status === 'completed' || status === 'failed' || status === 'timeout') &&
+        (status === 'completed' ||
+          status === 'failed' ||
+          status === 'timeout' ||
+          status === 'cancelled') &&
         !task.completedAt
       ) {
         task.completedAt = Date.now();
@@ -94,7 +138,46 @@ export class TaskRegistry {
       if (options?.exitCode !== undefined) {
         task.exitCode = options.exitCode;
       }
+      if (options?.usage !== undefined) {
+        task.usage = options.usage;
+      }
+      if (options?.attempts !== undefined) {
+        task.attempts = options.attempts;
+      }
+      this.persist(task);
+      for (const listener of this.statusListeners) {
+        listener(task);
+      }
+    }
+  }
+
+  /** Call `listener` after every status update. Returns a function that removes it. */
+  onStatusChange(listener: (entry: TaskRegistryEntry) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fail every queued, running or paused task that the execution layer no longer
+   * knows about. Used on startup, when restored entries may refer to executions
+   * that died with the previous process.
+   */
+  reconcile(isTaskActive: (taskId: string) => boolean): TaskRegistryEntry[] {
+    const orphaned: TaskRegistryEntry[] = [];
+
+    for (const entry of this.tasks.values()) {
+      if (!ACTIVE_STATUSES.has(entry.status) || isTaskActive(entry.taskId)) {
+        continue;
+      }
+      this.updateStatus(entry.taskId, 'failed', {
+        error: `Task orphaned by server restart (was ${entry.status})`,
+      });
+      orphaned.push(entry);
     }
+
+    return orphaned;
   }
 
   getTask(taskId: string): TaskRegistryEntry | undefined {
@@ -117,6 +200,41 @@ export class TaskRegistry {
     return Array.from(this.tasks.values()).filter((task) => task.agentId === agentId);
   }
 
+  /**
+   * Clear the outcome of a finished task and mark it queued for a follow-up
+   * turn, so the task cannot be continued again until that turn settles.
+   */
+  reopen(taskId: string): TaskRegistryEntry | undefined {
+    const task = this.tasks.get(taskId);
+    if (task) {
+      task.completedAt = undefined;
+      task.error = undefined;
+      task.exitCode = undefined;
+      task.followUps = (task.followUps ?? 0) + 1;
+      this.updateStatus(taskId, 'queued');
+    }
+    return task;
+  }
+
+  /** Ancestors of a forked task, from the original task down to its parent. */
+  getLineage(taskId: string): string[] {
+    const lineage: string[] = [];
+    let parentTaskId = this.tasks.get(taskId)?.parentTaskId;
+    while (parentTaskId && !lineage.includes(parentTaskId)) {
+      lineage.unshift(parentTaskId);
+      parentTaskId = this.tasks.get(parentTaskId)?.parentTaskId;
+    }
+    return lineage;
+  }
+
+  findForks(taskId: string): TaskRegistryEntry[] {
+    return Array.from(this.tasks.values()).filter((task) => task.parentTaskId === taskId);
+  }
+
+  findTasksByBatch(batchId: string): TaskRegistryEntry[] {
+    return Array.from(this.tasks.values()).filter((task) => task.batchId === batchId);
+  }
+
   findTaskByMatrixRoom(roomId: string): TaskRegistryEntry | undefined {
     return Array.from(this.tasks.values()).find((task) => task.matrixRoom?.roomId === roomId);
   }
@@ -125,6 +243,7 @@ export class TaskRegistry {
     const task = this.tasks.get(taskId);
     if (task) {
       task.matrixRoom = roomInfo;
+      this.persist(task);
     }
   }
 
@@ -132,6 +251,7 @@ export class TaskRegistry {
     const task = this.tasks.get(taskId);
     if (task) {
       task.matrixRoom = undefined;
+      this.persist(task);
     }
   }
 }
@@ -0,0 +1,168 @@
+import { nextCronRun, parseCronExpression } from './cron.js';
+import type {
+  ScheduledTask,
+  ScheduledTaskRequest,
+  ScheduleStore,
+  TaskSchedulerConfig,
+} from './types/schedule.js';
+
+const DEFAULT_POLL_INTERVAL_MS = 30_000;
+
+/** Submits one run of a schedule and resolves with the opencode_execute_task result. */
+export type ScheduleSubmitter = (
+  request: ScheduledTaskRequest,
+  scheduleId: string
+) => Promise<Record<string, unknown>>;
+
+/**
+ * Keeps cron and one-shot schedules and submits their task whenever a run is
+ * due. Due schedules are checked every `pollIntervalMs`; a run missed while the
+ * server was down is submitted once on the first check after startup.
+ */
+export class TaskScheduler {
+  private schedules: Map<string, ScheduledTask> = new Map();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private pollIntervalMs: number;
+
+  constructor(
+    config: TaskSchedulerConfig,
+    private store: ScheduleStore,
+    private submit: ScheduleSubmitter
+  ) {
+    this.pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    for (const schedule of store.load()) {
+      this.schedules.set(schedule.scheduleId, schedule);
+    }
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.pollIntervalMs);
+    void this.tick();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /** Throws unless `timing` holds exactly one of a valid `cron` or a future `runAt`. */
+  create(
+    request: ScheduledTaskRequest,
+    timing: { cron?: string; runAt?: number },
+    now: number = Date.now()
+  ): ScheduledTask {
+    if ((timing.cron === undefined) === (timing.runAt === undefined)) {
+      throw new Error('Provide exactly one of cron or run_at');
+    }
+
+    const nextRunAt =
+      timing.cron !== undefined ? nextCronRun(parseCronExpression(timing.cron), now) : timing.runAt;
+    if (nextRunAt === undefined) {
+      throw new Error(`Cron expression never matches: ${timing.cron}`);
+    }
+    if (nextRunAt <= now) {
+      throw new Error('run_at must be in the future');
+    }
+
+    const schedule: ScheduledTask = {
+      scheduleId: `schedule-${now}-${Math.random().toString(36).slice(2, 11)}`,
+      cron: timing.cron,
+      runAt: timing.runAt,
+      request,
+      createdAt: now,
+      nextRunAt,
+      runCount: 0,
+    };
+    this.schedules.set(schedule.scheduleId, schedule);
+    this.persist();
+
+    return schedule;
+  }
+
+  get(scheduleId: string): ScheduledTask | undefined {
+    return this.schedules.get(scheduleId);
+  }
+
+  list(agentId?: string): ScheduledTask[] {
+    return Array.from(this.schedules.values()).filter(
+      (schedule) => agentId === undefined || schedule.request.agent_id === agentId
+    );
+  }
+
+  delete(scheduleId: string): boolean {
+    const deleted = this.schedules.delete(scheduleId);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /** Submit every schedule whose next run is due at `now`. */
+  async tick(now: number = Date.now()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      const due = Array.from(this.schedules.values()).filter(
+        (schedule) => schedule.nextRunAt !== undefined && schedule.nextRunAt <= now
+      );
+
+      for (const schedule of due) {
+        // Advance first so a slow submission cannot fire the same run twice
+        try {
+          schedule.nextRunAt = schedule.cron
+            ? nextCronRun(parseCronExpression(schedule.cron), now)
+            : undefined;
+        } catch (error) {
+          // A stored cron that no longer parses stops the schedule instead of every tick
+          schedule.nextRunAt = undefined;
+          schedule.lastError = error instanceof Error ? error.message : String(error);
+          console.error(`[task-scheduler] Disabled ${schedule.scheduleId}: ${schedule.lastError}`);
+          this.persist();
+          continue;
+        }
+        schedule.lastRunAt = now;
+        schedule.runCount++;
+        this.persist();
+
+        await this.run(schedule);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async run(schedule: ScheduledTask): Promise<void> {
+    console.error(`[task-scheduler] Submitting run ${schedule.runCount} of ${schedule.scheduleId}`);
+
+    try {
+      const result = await this.submit(schedule.request, schedule.scheduleId);
+      schedule.lastTaskId = typeof result.task_id === 'string' ? result.task_id : undefined;
+      schedule.lastError = typeof result.error === 'string' ? result.error : undefined;
+    } catch (error) {
+      schedule.lastTaskId = undefined;
+      schedule.lastError = error instanceof Error ? error.message : String(error);
+    }
+
+    if (schedule.lastError) {
+      console.error(
+        `[task-scheduler] Run of ${schedule.scheduleId} was not submitted: ${schedule.lastError}`
+      );
+    }
+    if (this.schedules.has(schedule.scheduleId)) {
+      this.persist();
+    }
+  }
+
+  private persist(): void {
+    this.store.save(Array.from(this.schedules.values()));
+  }
+}
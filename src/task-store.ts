@@ -0,0 +1,88 @@
+import fs from 'fs';
+import path from 'path';
+import type { TaskRegistryEntry, TaskStore } from './types/task.js';
+
+type JournalRecord = { op: 'put'; entry: TaskRegistryEntry } | { op: 'delete'; taskId: string };
+
+export class InMemoryTaskStore implements TaskStore {
+  load(): TaskRegistryEntry[] {
+    return [];
+  }
+
+  save(_entry: TaskRegistryEntry): void {}
+
+  delete(_taskId: string): void {}
+}
+
+/**
+ * Append-only JSON-lines journal. Every registry mutation appends the full entry,
+ * and the journal is replayed and compacted on load so it stays proportional to
+ * the number of live tasks rather than the number of writes.
+ */
+export class JsonlTaskStore implements TaskStore {
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  load(): TaskRegistryEntry[] {
+    if (!fs.existsSync(this.filePath)) {
+      return [];
+    }
+
+    const entries = new Map<string, TaskRegistryEntry>();
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: JournalRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        console.warn(`[task-store] Skipping corrupt journal line ${index + 1} in ${this.filePath}`);
+        continue;
+      }
+
+      if (record.op === 'put' && record.entry?.taskId) {
+        entries.set(record.entry.taskId, record.entry);
+      } else if (record.op === 'delete') {
+        entries.delete(record.taskId);
+      }
+    }
+
+    this.compact(Array.from(entries.values()));
+    return Array.from(entries.values());
+  }
+
+  save(entry: TaskRegistryEntry): void {
+    this.append({ op: 'put', entry });
+  }
+
+  delete(taskId: string): void {
+    this.append({ op: 'delete', taskId });
+  }
+
+  private append(record: JournalRecord): void {
+    try {
+      fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`);
+    } catch (error) {
+      console.error(`[task-store] Failed to write journal ${this.filePath}:`, error);
+    }
+  }
+
+  private compact(entries: TaskRegistryEntry[]): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const body = entries.map((entry) => JSON.stringify({ op: 'put', entry })).join('\n');
+    fs.writeFileSync(tmpPath, body.length > 0 ? `${body}\n` : '');
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+export function createTaskStore(filePath?: string): TaskStore {
+  if (filePath) {
+    return new JsonlTaskStore(filePath);
+  }
+  return new InMemoryTaskStore();
+}
@@ -0,0 +1,56 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodTypeAny } from 'zod';
+import type { ToolDefinition, ToolDependencies } from './types/tool.js';
+import { toInputSchema } from './tools/json-schema.js';
+
+export function defineTool<S extends ZodTypeAny>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+/**
+ * Builds the MCP tool listing and dispatches tool calls from declarative tool
+ * definitions. Tools whose required dependencies are not configured are hidden.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  constructor(
+    tools: ToolDefinition[],
+    private deps: ToolDependencies
+  ) {
+    for (const tool of tools) {
+      if (this.tools.has(tool.name)) {
+        throw new Error(`Duplicate tool name: ${tool.name}`);
+      }
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  listTools(): Tool[] {
+    return Array.from(this.tools.values())
+      .filter((tool) => this.isAvailable(tool))
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toInputSchema(tool.schema),
+      }));
+  }
+
+  async callTool(name: string, args: unknown): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    if (!this.isAvailable(tool)) {
+      throw new Error(`Tool ${name} is not enabled for this deployment`);
+    }
+
+    const params = tool.schema.parse(args ?? {});
+    return tool.handler(params, this.deps);
+  }
+
+  private isAvailable(tool: ToolDefinition): boolean {
+    return (tool.requiredDeps ?? []).every((key) => this.deps[key] != null);
+  }
+}
@@ -0,0 +1,214 @@
+import { z } from 'zod';
+import type { TaskRegistry } from '../task-registry.js';
+import type { TaskRegistryEntry } from '../types/task.js';
+import { defineTool } from '../tool-registry.js';
+import { isSettled, waitForSettled } from '../task-dependencies.js';
+import {
+  ExecuteTaskSchema,
+  executeTask,
+  sendSystemAlert,
+  type ExecuteTaskDependencies,
+} from './execute-task.js';
+
+export const ExecuteBatchSchema = ExecuteTaskSchema.pick({
+  agent_id: true,
+  timeout_ms: true,
+  priority: true,
+  model: true,
+  workspace_path: true,
+  callback_url: true,
+}).extend({
+  tasks: z
+    .array(z.string().min(1))
+    .min(1)
+    .describe('Task descriptions to run in parallel; each becomes its own task'),
+});
+
+export type ExecuteBatchParams = z.infer<typeof ExecuteBatchSchema>;
+
+export const GetBatchStatusSchema = z.object({
+  batch_id: z.string().describe('Batch ID returned by opencode_execute_batch'),
+});
+
+export type GetBatchStatusParams = z.infer<typeof GetBatchStatusSchema>;
+
+export interface BatchStatusDependencies {
+  registry: TaskRegistry;
+}
+
+type BatchStatus = 'running' | 'completed' | 'partial' | 'failed';
+
+const MAX_ALERT_OUTPUT_LENGTH = 500;
+
+export async function executeBatch(
+  params: ExecuteBatchParams,
+  deps: ExecuteTaskDependencies
+): Promise<Record<string, unknown>> {
+  if (!deps.queue.hasCapacityFor(params.tasks.length)) {
+    return {
+      error: `Task queue cannot hold ${params.tasks.length} more tasks`,
+      code: 'QUEUE_FULL',
+      status: 429,
+    };
+  }
+
+  const { tasks, ...shared } = params;
+  const batchId = `batch-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
+  console.error(`[execute-batch] Starting batch ${batchId} with ${tasks.length} task(s)`);
+
+  const results: Array<Record<string, unknown>> = [];
+  const descriptions = new Map<string, string>();
+  for (const description of tasks) {
+    const result = await executeTask(
+      { ...shared, task_description: description, sync: false },
+      deps,
+      { batchId }
+    );
+    if (typeof result.task_id === 'string') {
+      descriptions.set(result.task_id, description);
+    }
+    results.push(result);
+  }
+
+  if (descriptions.size > 0) {
+    void waitForSettled(deps.registry, Array.from(descriptions.keys())).then((entries) =>
+      sendBatchAlert(batchId, params.agent_id, entries, descriptions, deps)
+    );
+  }
+
+  return {
+    batch_id: batchId,
+    status: descriptions.size > 0 ? 'running' : 'failed',
+    tasks: results,
+    message: `Launched ${descriptions.size} of ${tasks.length} task(s)`,
+  };
+}
+
+async function sendBatchAlert(
+  batchId: string,
+  agentId: string,
+  entries: TaskRegistryEntry[],
+  descriptions: Map<string, string>,
+  deps: ExecuteTaskDependencies
+): Promise<void> {
+  const summary = summarizeBatch(entries);
+  const counts = Object.entries(summary.counts)
+    .map(([status, count]) => `${status}: ${count}`)
+    .join(', ');
+
+  let message = `📦 OpenCode Batch Finished (${summary.status})
+
+Batch ID: ${batchId}
+Tasks: ${entries.length} (${counts})
+Duration: ${summary.durationMs}ms`;
+
+  entries.forEach((task, index) => {
+    const emoji = task.status === 'completed' ? '✅' : task.status === 'timeout' ? '⏱️' : '❌';
+    message += `\n\n[${index + 1}] ${emoji} ${task.taskId}: ${task.status}`;
+    if (task.durationMs !== undefined) {
+      message += ` in ${task.durationMs}ms`;
+    }
+    message += `\nDescription: ${descriptions.get(task.taskId)}`;
+    if (task.output) {
+      message += `\nOutput:\n${task.output.slice(0, MAX_ALERT_OUTPUT_LENGTH)}`;
+      if (task.output.length > MAX_ALERT_OUTPUT_LENGTH) {
+        message += '\n... (truncated, use get_batch_status for more)';
+      }
+    }
+    if (task.error) {
+      message += `\nError: ${task.error}`;
+    }
+  });
+
+  try {
+    await sendSystemAlert(deps.letta, agentId, message);
+    console.error(`[execute-batch] Sent completion notification for batch ${batchId}`);
+  } catch (error) {
+    console.error(
+      `[execute-batch] Failed to send completion notification for batch ${batchId}:`,
+      error
+    );
+  }
+}
+
+function summarizeBatch(tasks: TaskRegistryEntry[]): {
+  status: BatchStatus;
+  counts: Record<string, number>;
+  durationMs?: number;
+} {
+  const counts: Record<string, number> = {};
+  for (const task of tasks) {
+    counts[task.status] = (counts[task.status] ?? 0) + 1;
+  }
+
+  const completed = counts.completed ?? 0;
+  const settled = tasks.every(isSettled);
+  const status: BatchStatus = !settled
+    ? 'running'
+    : completed === tasks.length
+      ? 'completed'
+      : completed === 0
+        ? 'failed'
+        : 'partial';
+
+  const startedAt = Math.min(...tasks.map((task) => task.createdAt));
+  const durationMs = settled
+    ? Math.max(...tasks.map((task) => task.completedAt ?? task.createdAt)) - startedAt
+    : undefined;
+
+  return { status, counts, durationMs };
+}
+
+export async function getBatchStatus(
+  params: GetBatchStatusParams,
+  deps: BatchStatusDependencies
+): Promise<{
+  batch_id: string;
+  status: BatchStatus;
+  counts: Record<string, number>;
+  duration_ms?: number;
+  tasks: Array<{
+    task_id: string;
+    status: string;
+    duration_ms?: number;
+    output?: string;
+    error?: string;
+  }>;
+}> {
+  const tasks = deps.registry.findTasksByBatch(params.batch_id);
+  if (tasks.length === 0) {
+    throw new Error(`Batch ${params.batch_id} not found`);
+  }
+
+  const summary = summarizeBatch(tasks);
+  return {
+    batch_id: params.batch_id,
+    status: summary.status,
+    counts: summary.counts,
+    duration_ms: summary.durationMs,
+    tasks: tasks.map((task) => ({
+      task_id: task.taskId,
+      status: task.status,
+      duration_ms: task.durationMs,
+      output: task.output,
+      error: task.error,
+    })),
+  };
+}
+
+export const executeBatchTool = defineTool({
+  name: 'opencode_execute_batch',
+  description:
+    'Run several development tasks in parallel under one batch ID. Tasks share the ' +
+    'queue with other tasks, and the agent receives one combined alert when all have finished.',
+  schema: ExecuteBatchSchema,
+  handler: executeBatch,
+});
+
+export const getBatchStatusTool = defineTool({
+  name: 'get_batch_status',
+  description:
+    'Get the aggregate status of a task batch along with the status, duration and output of each task.',
+  schema: GetBatchStatusSchema,
+  handler: getBatchStatus,
+});
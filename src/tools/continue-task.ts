@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import type { TaskRegistryEntry } from '../types/task.js';
+import { defineTool } from '../tool-registry.js';
+import {
+  ExecuteTaskSchema,
+  budgetExceededError,
+  enqueueTask,
+  type ExecuteTaskDependencies,
+} from './execute-task.js';
+
+export const ContinueTaskSchema = z.object({
+  task_id: z.string().describe('ID of a completed, failed or timed-out task'),
+  prompt: z.string().describe('Follow-up instructions, e.g. "now also add tests"'),
+  timeout_ms: ExecuteTaskSchema.shape.timeout_ms,
+});
+
+export type ContinueTaskParams = z.infer<typeof ContinueTaskSchema>;
+
+const CONTINUABLE_STATUSES = new Set<TaskRegistryEntry['status']>([
+  'completed',
+  'failed',
+  'timeout',
+]);
+
+export async function continueTask(
+  params: ContinueTaskParams,
+  deps: ExecuteTaskDependencies
+): Promise<Record<string, unknown>> {
+  const task = deps.registry.getTask(params.task_id);
+  if (!task) {
+    throw new Error(`Task ${params.task_id} not found`);
+  }
+
+  if (!CONTINUABLE_STATUSES.has(task.status)) {
+    return {
+      error: `Task ${task.taskId} is ${task.status}; only completed, failed or timed-out tasks can be continued`,
+      code: 'TASK_NOT_CONTINUABLE',
+      status: 409,
+    };
+  }
+
+  const blockId = task.workspaceBlockId;
+  if (!blockId || !deps.execution.hasRetainedSession(task.taskId)) {
+    return {
+      error: `Task ${task.taskId} has no OpenCode session left to continue`,
+      code: 'SESSION_EXPIRED',
+      status: 410,
+    };
+  }
+
+  if (deps.queue.isFull()) {
+    return {
+      error: 'Task queue full',
+      code: 'QUEUE_FULL',
+      status: 429,
+    };
+  }
+
+  const budgetViolation = deps.budget?.checkSubmission(task.agentId);
+  if (budgetViolation) {
+    return { ...budgetExceededError(budgetViolation), status: 429 };
+  }
+
+  // Queue the task before the first await so an overlapping call is rejected
+  const followUps = deps.registry.reopen(task.taskId)?.followUps;
+
+  // The block is detached from the agent a minute after the task settled
+  await deps.workspace.attachWorkspaceBlock(task.agentId, blockId).catch((error) => {
+    console.error(`Failed to reattach workspace block for task ${task.taskId}:`, error);
+  });
+  const taskDescription = await deps.workspace
+    .getWorkspace(task.agentId, blockId)
+    .then((workspace) => workspace.metadata?.task_description)
+    .catch(() => undefined);
+
+  console.error(`[continue-task] Queuing follow-up ${followUps} of task ${task.taskId}`);
+  await deps.workspace
+    .updateWorkspace(task.agentId, blockId, {
+      events: [
+        {
+          timestamp: Date.now(),
+          type: 'task_follow_up',
+          message: params.prompt,
+          data: { follow_up: followUps },
+        },
+      ],
+    })
+    .catch((error) => {
+      console.error(`Failed to record follow-up for task ${task.taskId}:`, error);
+    });
+
+  void enqueueTask(
+    task.taskId,
+    {
+      agent_id: task.agentId,
+      task_description: params.prompt,
+      timeout_ms: params.timeout_ms,
+      priority: task.priority,
+      sync: false,
+    },
+    blockId,
+    {
+      model: task.model,
+      workingDir: task.workingDir,
+      // Starts a new session from the whole task if the kept one expires while queued
+      prompt:
+        typeof taskDescription === 'string'
+          ? `${taskDescription}\n\n## Follow-up\n${params.prompt}`
+          : params.prompt,
+      continuePrompt: params.prompt,
+    },
+    deps,
+    { followUp: true }
+  );
+
+  return {
+    task_id: task.taskId,
+    status: 'queued',
+    workspace_block_id: blockId,
+    queue_position: deps.queue.getPosition(task.taskId),
+    follow_ups: followUps,
+    message: 'Follow-up queued in the task session',
+  };
+}
+
+export const continueTaskTool = defineTool({
+  name: 'continue_task',
+  description:
+    'Send a follow-up prompt to a finished task. The task continues in its OpenCode session ' +
+    '(kept for SESSION_RETENTION_MS after it finished) on the same branch, and the new turn is ' +
+    'recorded on the same task ID and workspace block.',
+  schema: ContinueTaskSchema,
+  handler: continueTask,
+});
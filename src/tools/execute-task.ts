@@ -3,7 +3,39 @@ import { LettaClient } from '../letta-client.js';
 import { WorkspaceManager } from '../workspace-manager.js';
 import { ExecutionManager } from '../execution-manager.js';
 import { TaskRegistry } from '../task-registry.js';
-import type { ExecutionRequest } from '../types/execution.js';
+import { TaskQueue } from '../task-queue.js';
+import type { TaskEventLog } from '../task-event-log.js';
+import type { BudgetManager } from '../budget-manager.js';
+import type { WebhookNotifier } from '../webhook-notifier.js';
+import type { PermissionGate } from '../permission-gate.js';
+import type { BudgetViolation } from '../types/budget.js';
+import type { WebhookEvent } from '../types/webhook.js';
+import type {
+  ExecutionRequest,
+  ExecutionResult,
+  ModelSelection,
+  SessionFileDiff,
+  TaskGitChanges,
+  TaskUsage,
+} from '../types/execution.js';
+import type { OpenCodeEvent } from '../types/opencode.js';
+import type {
+  PendingPermission,
+  PermissionDecision,
+  PermissionResolution,
+} from '../types/permission.js';
+import type { WorkspaceArtifact } from '../types/workspace.js';
+import { defineTool } from '../tool-registry.js';
+import { formatSessionDiff } from '../task-diff.js';
+import { formatUsage, sumUsage } from '../usage.js';
+import { taskDuration } from '../metrics.js';
+import {
+  buildDependencyContext,
+  findUnknownDependencies,
+  hasPendingDependencies,
+  isSettled,
+  waitForDependencies,
+} from '../task-dependencies.js';
 
 export const ExecuteTaskSchema = z.object({
   agent_id: z.string().describe('ID of the Letta agent requesting the task'),
@@ -19,6 +51,75 @@ export const ExecuteTaskSchema = z.object({
     .array(z.string())
     .optional()
     .describe('Optional list of Matrix user IDs to invite as observers (e.g., @user:domain.com)'),
+  priority: z
+    .enum(['low', 'normal', 'high'])
+    .optional()
+    .describe('Scheduling priority while the task waits for an execution slot (default: normal)'),
+  model: z
+    .object({
+      provider_id: z.string().describe('OpenCode provider ID (e.g., anthropic)'),
+      model_id: z
+        .string()
+        .describe('Model ID within the provider (e.g., claude-sonnet-4-5-20250929)'),
+    })
+    .optional()
+    .describe('Model to run the task with (default: server default model)'),
+  workspace_path: z
+    .string()
+    .optional()
+    .describe(
+      'Directory or repository under WORKSPACE_DIR to run the task in, relative to WORKSPACE_DIR'
+    ),
+  callback_url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//i.test(url), 'callback_url must be an http or https URL')
+    .optional()
+    .describe('Optional URL that receives a signed POST on every task lifecycle transition'),
+  depends_on: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Task IDs that must finish before this task starts; their outputs and diffs are added to its prompt'
+    ),
+  on_dependency_failure: z
+    .enum(['skip', 'fail', 'run_anyway'])
+    .optional()
+    .describe(
+      'What to do when a dependency does not complete successfully: skip (cancel this task), fail, or run_anyway (default: fail)'
+    ),
+  retry: z
+    .object({
+      max_attempts: z
+        .number()
+        .int()
+        .min(1)
+        .max(10)
+        .optional()
+        .describe('Total attempts including the first (default: 3)'),
+      backoff_ms: z
+        .number()
+        .min(0)
+        .optional()
+        .describe('Delay before the first retry (default: 5000)'),
+      backoff_multiplier: z
+        .number()
+        .min(1)
+        .optional()
+        .describe('Factor applied to the delay after each retry (default: 2)'),
+      retry_on: z
+        .array(z.enum(['error', 'timeout']))
+        .optional()
+        .describe('Execution results that trigger a retry (default: error and timeout)'),
+      continue_session: z
+        .boolean()
+        .optional()
+        .describe(
+          'OpenCode server mode: continue the failed session with its error as context instead of starting a new one (default: false)'
+        ),
+    })
+    .optional()
+    .describe('Retry the task in place when an attempt fails or times out'),
 });
 
 export type ExecuteTaskParams = z.infer<typeof ExecuteTaskSchema>;
@@ -30,17 +131,40 @@ export interface ExecuteTaskDependencies {
   workspace: WorkspaceManager;
   execution: ExecutionManager;
   registry: TaskRegistry;
+  queue: TaskQueue;
+  eventLog?: TaskEventLog;
+  budget?: BudgetManager;
+  webhooks?: WebhookNotifier;
   matrix?: MatrixRoomManager | null;
+  permissions?: PermissionGate;
+}
+
+export interface ExecuteTaskOptions {
+  /**
+   * Batch the task belongs to. Batched tasks skip their own completion alert;
+   * the batch sends one combined alert instead.
+   */
+  batchId?: string;
+  /** Schedule submitting this run, recorded on the registry entry. */
+  scheduleId?: string;
+  /**
+   * Task whose OpenCode session the new task is forked from. The task's
+   * description is sent as the next instruction in the copied conversation.
+   */
+  parentTaskId?: string;
+  /** The run is a continue_task follow-up turn of an existing, finished task. */
+  followUp?: boolean;
 }
 
 export async function executeTask(
   params: ExecuteTaskParams,
-  deps: ExecuteTaskDependencies
+  deps: ExecuteTaskDependencies,
+  options: ExecuteTaskOptions = {}
 ): Promise<Record<string, unknown>> {
   const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`;
   console.error(`[execute-task] Starting task ${taskId} for agent ${params.agent_id}`);
 
-  if (!deps.registry.canAcceptTask()) {
+  if (deps.queue.isFull()) {
     return {
       error: 'Task queue full',
       code: 'QUEUE_FULL',
@@ -48,7 +172,63 @@ export async function executeTask(
     };
   }
 
-  const existingTask = deps.registry.register(taskId, params.agent_id, params.idempotency_key);
+  let model: ModelSelection;
+  try {
+    model = deps.execution.resolveModel(
+      params.model && { providerId: params.model.provider_id, modelId: params.model.model_id }
+    );
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      code: 'MODEL_NOT_ALLOWED',
+      status: 400,
+    };
+  }
+
+  let workingDir: string | undefined;
+  try {
+    workingDir = deps.execution.resolveWorkingDir(params.workspace_path);
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      code: 'INVALID_WORKSPACE_PATH',
+      status: 400,
+    };
+  }
+
+  const unsignedCallback = unsignedCallbackError(params.callback_url, deps.webhooks);
+  if (unsignedCallback) {
+    return unsignedCallback;
+  }
+
+  const dependsOn = Array.from(new Set(params.depends_on ?? []));
+  const unknownDependencies = findUnknownDependencies(deps.registry, dependsOn);
+  if (unknownDependencies.length > 0) {
+    return {
+      error: `Unknown dependency task(s): ${unknownDependencies.join(', ')}`,
+      code: 'UNKNOWN_DEPENDENCY',
+      status: 400,
+    };
+  }
+
+  const budgetViolation = deps.budget?.checkSubmission(params.agent_id);
+  if (budgetViolation) {
+    return { ...budgetExceededError(budgetViolation), status: 429 };
+  }
+
+  const existingTask = deps.registry.register(taskId, params.agent_id, params.idempotency_key, {
+    priority: params.priority ?? 'normal',
+    model,
+    workingDir,
+    callbackUrl: params.callback_url,
+    ...(dependsOn.length > 0 && {
+      dependsOn,
+      onDependencyFailure: params.on_dependency_failure ?? 'fail',
+    }),
+    batchId: options.batchId,
+    scheduleId: options.scheduleId,
+    parentTaskId: options.parentTaskId,
+  });
 
   if (existingTask.taskId !== taskId) {
     return {
@@ -68,6 +248,10 @@ export async function executeTask(
       metadata: {
         task_description: params.task_description,
         idempotency_key: params.idempotency_key,
+        model: { provider_id: model.providerId, model_id: model.modelId },
+        workspace_path: workingDir,
+        ...(dependsOn.length > 0 && { depends_on: dependsOn }),
+        ...(options.parentTaskId && { parent_task_id: options.parentTaskId }),
       },
     });
     blockId = result.blockId;
@@ -81,19 +265,44 @@ export async function executeTask(
     };
   }
 
-  deps.registry.updateStatus(taskId, 'queued', { workspaceBlockId: blockId });
+  const target: ExecutionTarget = options.parentTaskId
+    ? await prepareFork(taskId, options.parentTaskId, params, { model, workingDir }, deps)
+    : { model, workingDir };
+  const blocked = hasPendingDependencies(deps.registry, dependsOn);
 
-  if (!params.sync) {
-    console.error(`[execute-task] Calling executeTaskAsync for task ${taskId}`);
-    executeTaskAsync(taskId, params, blockId, deps).catch((error) => {
-      console.error(`Task ${taskId} failed:`, error);
-    });
+  if (blocked) {
+    deps.registry.updateStatus(taskId, 'blocked', { workspaceBlockId: blockId });
+    console.error(`[execute-task] Task ${taskId} blocked on ${dependsOn.join(', ')}`);
+    await deps.workspace
+      .updateWorkspace(params.agent_id, blockId, {
+        status: 'blocked',
+        events: [
+          {
+            timestamp: Date.now(),
+            type: 'task_progress',
+            message: `Waiting for dependencies: ${dependsOn.join(', ')}`,
+            data: { depends_on: dependsOn },
+          },
+        ],
+      })
+      .catch((error) => {
+        console.error(`Failed to update workspace for blocked task ${taskId}:`, error);
+      });
+  }
+
+  // Settled dependencies still go through runAfterDependencies for their results
+  const completion =
+    dependsOn.length > 0
+      ? runAfterDependencies(taskId, params, blockId, target, dependsOn, deps, options)
+      : enqueueTask(taskId, params, blockId, target, deps, options);
 
+  if (!params.sync) {
     return {
       task_id: taskId,
-      status: 'queued',
+      status: blocked ? 'blocked' : 'queued',
       workspace_block_id: blockId,
-      message: 'Task queued for execution',
+      queue_position: deps.queue.getPosition(taskId),
+      message: blocked ? 'Task waiting for its dependencies' : 'Task queued for execution',
     };
   }
 
@@ -112,10 +321,7 @@ export async function executeTask(
       }, MCP_RESPONSE_TIMEOUT);
     });
 
-    const result = await Promise.race([
-      executeTaskAsync(taskId, params, blockId, deps),
-      timeoutPromise,
-    ]);
+    const result = await Promise.race([completion, timeoutPromise]);
     return result;
   } catch (error) {
     return {
@@ -127,20 +333,389 @@ export async function executeTask(
   }
 }
 
-async function executeTaskAsync(
+/**
+ * Where and how a queued task runs; `prompt` replaces the task description when
+ * set, and `continuePrompt` is sent instead if the task holds a session.
+ */
+export type ExecutionTarget = Pick<ExecutionRequest, 'model' | 'workingDir'> &
+  Partial<Pick<ExecutionRequest, 'prompt' | 'continuePrompt' | 'baseBranch'>>;
+
+export function enqueueTask(
+  taskId: string,
+  params: ExecuteTaskParams,
+  workspaceBlockId: string,
+  target: ExecutionTarget,
+  deps: ExecuteTaskDependencies,
+  options: ExecuteTaskOptions
+): Promise<Record<string, unknown>> {
+  const priority = params.priority ?? 'normal';
+  deps.registry.updateStatus(taskId, 'queued', { workspaceBlockId });
+  notifyWebhooks(taskId, 'queued', deps);
+
+  console.error(`[execute-task] Enqueuing task ${taskId} (priority: ${priority})`);
+  return deps.queue
+    .enqueue(
+      taskId,
+      () => executeTaskAsync(taskId, params, workspaceBlockId, target, deps, options),
+      priority
+    )
+    .catch((error) => handleDequeueFailure(taskId, params, workspaceBlockId, deps, error));
+}
+
+/**
+ * Wait for the task's dependencies to settle, then queue it with their results
+ * appended to its prompt, or settle it according to `on_dependency_failure`.
+ */
+async function runAfterDependencies(
+  taskId: string,
+  params: ExecuteTaskParams,
+  workspaceBlockId: string,
+  target: ExecutionTarget,
+  dependsOn: string[],
+  deps: ExecuteTaskDependencies,
+  options: ExecuteTaskOptions
+): Promise<Record<string, unknown>> {
+  const upstream = await waitForDependencies(deps.registry, taskId, dependsOn);
+  if (!upstream) {
+    return handleDequeueFailure(taskId, params, workspaceBlockId, deps, undefined);
+  }
+
+  const unsuccessful = upstream.filter((task) => task.status !== 'completed');
+  const policy = params.on_dependency_failure ?? 'fail';
+  if (unsuccessful.length > 0 && policy !== 'run_anyway') {
+    const summary = unsuccessful.map((task) => `${task.taskId} (${task.status})`).join(', ');
+    const status = policy === 'skip' ? 'cancelled' : 'failed';
+    const message =
+      policy === 'skip'
+        ? `Skipped because dependencies did not complete: ${summary}`
+        : `Dependencies did not complete: ${summary}`;
+    return settleWithoutRunning(taskId, params, workspaceBlockId, deps, status, message);
+  }
+
+  const context = await buildDependencyContext(upstream, deps.workspace);
+  return enqueueTask(
+    taskId,
+    params,
+    workspaceBlockId,
+    { ...target, prompt: `${params.task_description}\n\n${context}` },
+    deps,
+    options
+  );
+}
+
+function settleWithoutRunning(
+  taskId: string,
+  params: ExecuteTaskParams,
+  workspaceBlockId: string,
+  deps: ExecuteTaskDependencies,
+  status: 'failed' | 'cancelled',
+  message: string
+): Record<string, unknown> {
+  console.error(`[execute-task] Task ${taskId} ${status}: ${message}`);
+  deps.registry.updateStatus(taskId, status, { error: message });
+  notifyWebhooks(taskId, status, deps);
+
+  deps.workspace
+    .updateWorkspace(params.agent_id, workspaceBlockId, {
+      status,
+      events: [
+        {
+          timestamp: Date.now(),
+          type: status === 'cancelled' ? 'task_cancelled' : 'task_failed',
+          message,
+        },
+      ],
+    })
+    .catch((error) => {
+      console.error(`Failed to update workspace for task ${taskId}:`, error);
+    });
+
+  scheduleWorkspaceDetach(taskId, params.agent_id, workspaceBlockId, deps);
+
+  return {
+    task_id: taskId,
+    status,
+    workspace_block_id: workspaceBlockId,
+    error: message,
+  };
+}
+
+/**
+ * Fork the parent's session for the task and start its branch from the
+ * parent's. Should the copied session be lost before the task runs, it starts
+ * a new session with the parent's description and the new instruction.
+ */
+async function prepareFork(
+  taskId: string,
+  parentTaskId: string,
+  params: ExecuteTaskParams,
+  target: ExecutionTarget,
+  deps: ExecuteTaskDependencies
+): Promise<ExecutionTarget> {
+  await deps.execution.forkTaskSession(parentTaskId, taskId, params.agent_id);
+
+  const parent = deps.registry.getTask(parentTaskId);
+  const parentDescription =
+    parent?.workspaceBlockId &&
+    (await deps.workspace
+      .getWorkspace(parent.agentId, parent.workspaceBlockId)
+      .then((workspace) => workspace.metadata?.task_description)
+      .catch(() => undefined));
+
+  return {
+    ...target,
+    baseBranch: `opencode/${parentTaskId}`,
+    prompt:
+      typeof parentDescription === 'string'
+        ? `${parentDescription}\n\n## Follow-up\n${params.task_description}`
+        : params.task_description,
+    continuePrompt: params.task_description,
+  };
+}
+
+const WORKSPACE_DETACH_DELAY_MS = 60_000;
+
+/**
+ * Detach the workspace block from the agent a minute after the task settles,
+ * unless the task is active again by then, e.g. a continue_task follow-up or a
+ * retry that is queued, running or paused.
+ */
+function scheduleWorkspaceDetach(
+  taskId: string,
+  agentId: string,
+  workspaceBlockId: string,
+  deps: ExecuteTaskDependencies
+): void {
+  setTimeout(() => {
+    const task = deps.registry.getTask(taskId);
+    if (task && !isSettled(task)) {
+      return;
+    }
+    deps.workspace.detachWorkspaceBlock(agentId, workspaceBlockId).catch((err) => {
+      console.error(`[execute-task] Deferred cleanup failed for task ${taskId}:`, err);
+    });
+  }, WORKSPACE_DETACH_DELAY_MS);
+}
+
+function notifyWebhooks(taskId: string, event: WebhookEvent, deps: ExecuteTaskDependencies): void {
+  if (!deps.webhooks) {
+    return;
+  }
+  const task = deps.registry.getTask(taskId);
+  if (task) {
+    void deps.webhooks.notify(task, event);
+  }
+}
+
+/** Error for a `callback_url` that would receive unsigned deliveries, as no WEBHOOK_SECRET is set. */
+export function unsignedCallbackError(
+  callbackUrl: string | undefined,
+  webhooks: WebhookNotifier | undefined
+): Record<string, unknown> | undefined {
+  if (!callbackUrl || webhooks?.signsPayloads()) {
+    return undefined;
+  }
+  return {
+    error: 'callback_url requires WEBHOOK_SECRET to be configured so deliveries can be signed',
+    code: 'WEBHOOK_SECRET_REQUIRED',
+    status: 400,
+  };
+}
+
+export function budgetExceededError(violation: BudgetViolation): Record<string, unknown> {
+  return {
+    error: violation.message,
+    code: 'BUDGET_EXCEEDED',
+    limit: violation.limit,
+    current: violation.current,
+    max: violation.max,
+  };
+}
+
+/**
+ * Settles a task whose queued execution never ran to completion, either because it
+ * was cancelled while waiting for a slot or because executeTaskAsync itself threw.
+ */
+function handleDequeueFailure(
+  taskId: string,
+  params: ExecuteTaskParams,
+  workspaceBlockId: string,
+  deps: ExecuteTaskDependencies,
+  error: unknown
+): Record<string, unknown> {
+  const status = deps.registry.getTask(taskId)?.status;
+
+  if (status === 'cancelled') {
+    console.error(`[execute-task] Task ${taskId} cancelled before it started`);
+    // A forked or continued task holds a session for its first run
+    void deps.execution.releaseRetainedSession(taskId);
+    scheduleWorkspaceDetach(taskId, params.agent_id, workspaceBlockId, deps);
+
+    return {
+      task_id: taskId,
+      status: 'cancelled',
+      workspace_block_id: workspaceBlockId,
+    };
+  }
+
+  console.error(`Task ${taskId} failed:`, error);
+  notifyWebhooks(taskId, 'failed', deps);
+  return {
+    task_id: taskId,
+    status: 'failed',
+    workspace_block_id: workspaceBlockId,
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+const MAX_DIFF_ARTIFACT_LENGTH = 50000;
+
+/**
+ * Diff, commit list and per-file stats of the task's branch, so the calling
+ * agent can review the work before merging `git.branch`.
+ */
+function buildResultArtifacts(result: ExecutionResult): WorkspaceArtifact[] {
+  return [
+    {
+      timestamp: Date.now(),
+      type: result.status === 'success' ? 'output' : 'error',
+      name: result.status === 'success' ? 'execution_output' : 'execution_error',
+      content: result.output,
+    },
+    ...(result.git
+      ? buildGitArtifacts(result.git)
+      : result.sessionDiff?.length
+        ? [buildSessionDiffArtifact(result.sessionDiff)]
+        : []),
+  ];
+}
+
+/**
+ * Record what a cancelled task's aborted run produced without touching the
+ * status, webhooks or alerts the cancel control signal already sent.
+ */
+async function settleCancelledRun(
   taskId: string,
   params: ExecuteTaskParams,
   workspaceBlockId: string,
+  result: ExecutionResult,
+  roomId: string | undefined,
   deps: ExecuteTaskDependencies
+): Promise<Record<string, unknown>> {
+  console.error(`[execute-task] Task ${taskId} was cancelled while running`);
+
+  if (deps.matrix && roomId) {
+    try {
+      await deps.matrix.closeTaskRoom(
+        roomId,
+        taskId,
+        `🛑 OpenCode Task Cancelled\n\nTask ID: ${taskId}`
+      );
+      deps.registry.clearMatrixRoom(taskId);
+    } catch (matrixError) {
+      console.error(`Failed to close Matrix room for task ${taskId}:`, matrixError);
+    }
+  }
+
+  await deps.workspace
+    .updateWorkspace(params.agent_id, workspaceBlockId, {
+      artifacts: buildResultArtifacts(result),
+    })
+    .catch((error) => {
+      console.error(`Failed to record results of cancelled task ${taskId}:`, error);
+    });
+
+  deps.registry.updateStatus(taskId, 'cancelled', {
+    output: result.output?.slice(0, 5000),
+    durationMs: result.durationMs,
+    usage: result.usage,
+  });
+  scheduleWorkspaceDetach(taskId, params.agent_id, workspaceBlockId, deps);
+
+  return {
+    task_id: taskId,
+    status: 'cancelled',
+    workspace_block_id: workspaceBlockId,
+    duration_ms: result.durationMs,
+    output: result.output.slice(0, 5000),
+  };
+}
+
+function buildGitArtifacts(git: TaskGitChanges): WorkspaceArtifact[] {
+  const timestamp = Date.now();
+  const metadata = { branch: git.branch, base_commit: git.baseCommit };
+  const truncated = git.diff.length > MAX_DIFF_ARTIFACT_LENGTH;
+
+  return [
+    {
+      timestamp,
+      type: 'diff',
+      name: 'git_diff',
+      content: truncated ? git.diff.slice(0, MAX_DIFF_ARTIFACT_LENGTH) : git.diff,
+      metadata: { ...metadata, truncated },
+    },
+    {
+      timestamp,
+      type: 'diff',
+      name: 'git_commits',
+      content: git.commits.map((commit) => `${commit.sha} ${commit.subject}`).join('\n'),
+      metadata: { ...metadata, commit_count: git.commits.length },
+    },
+    {
+      timestamp,
+      type: 'diff',
+      name: 'git_file_stats',
+      content: JSON.stringify(git.files),
+      metadata: {
+        ...metadata,
+        files_changed: git.files.length,
+        additions: git.files.reduce((sum, file) => sum + file.additions, 0),
+        deletions: git.files.reduce((sum, file) => sum + file.deletions, 0),
+      },
+    },
+  ];
+}
+
+/** Unified diff of the files OpenCode changed, for tasks not run on a git branch. */
+function buildSessionDiffArtifact(diffs: SessionFileDiff[]): WorkspaceArtifact {
+  const diff = formatSessionDiff(diffs)
+    .map((file) => file.diff)
+    .join('');
+  const truncated = diff.length > MAX_DIFF_ARTIFACT_LENGTH;
+
+  return {
+    timestamp: Date.now(),
+    type: 'diff',
+    name: 'session_diff',
+    content: truncated ? diff.slice(0, MAX_DIFF_ARTIFACT_LENGTH) : diff,
+    metadata: {
+      files_changed: diffs.length,
+      additions: diffs.reduce((sum, file) => sum + file.additions, 0),
+      deletions: diffs.reduce((sum, file) => sum + file.deletions, 0),
+      truncated,
+    },
+  };
+}
+
+async function executeTaskAsync(
+  taskId: string,
+  params: ExecuteTaskParams,
+  workspaceBlockId: string,
+  target: ExecutionTarget,
+  deps: ExecuteTaskDependencies,
+  options: ExecuteTaskOptions
 ): Promise<Record<string, unknown>> {
   console.error(`[execute-task] executeTaskAsync started for task ${taskId}`);
+  const followUp = options.followUp === true;
   try {
     deps.registry.updateStatus(taskId, 'running');
     console.error(`[execute-task] Task ${taskId} status updated to running`);
+    notifyWebhooks(taskId, 'started', deps);
 
     // Create Matrix room if Matrix is enabled
+    // Follow-up turns report to the workspace block only; the task's room is closed
     let roomInfo: any = null;
-    if (deps.matrix) {
+    if (deps.matrix && !followUp) {
       const defaultObservers = (process.env.MATRIX_DEFAULT_HUMAN_OBSERVERS || '')
         .split(',')
         .map((observer) => observer.trim())
@@ -174,7 +749,7 @@ async function executeTaskAsync(
         {
           timestamp: Date.now(),
           type: 'task_started',
-          message: 'Task execution started',
+          message: followUp ? 'Follow-up turn started' : 'Task execution started',
           data: roomInfo ? { matrix_room_id: roomInfo.roomId } : undefined,
         },
       ],
@@ -186,18 +761,48 @@ async function executeTaskAsync(
       prompt: params.task_description,
       workspaceBlockId,
       timeout: params.timeout_ms,
+      ...target,
     };
 
-    const significantEventTypes = new Set([
-      'complete',
-      'abort',
-      'error',
-      'session.error',
-      'session.idle',
-      'output',
-    ]);
+    const significantEventTypes = new Set(['error', 'session.error', 'session.idle', 'output']);
+
+    // Usage arrives with message updates; stop the task once its agent's spend cap is hit
+    let budgetViolation: BudgetViolation | undefined;
+    const onEvent = (event: OpenCodeEvent) => {
+      deps.eventLog?.record(taskId, event);
+
+      if (event.type === 'message.updated' && deps.budget && !budgetViolation) {
+        budgetViolation = deps.budget.checkSpend(params.agent_id);
+        if (budgetViolation) {
+          console.error(`[execute-task] Aborting task ${taskId}: ${budgetViolation.message}`);
+          deps.execution.killTask(taskId).catch((error) => {
+            console.error(`Failed to abort task ${taskId} over budget:`, error);
+          });
+        }
+      }
+
+      if (event.type === 'permission.updated' && deps.permissions) {
+        requestPermission(
+          taskId,
+          params.agent_id,
+          workspaceBlockId,
+          event,
+          roomInfo?.roomId,
+          deps.permissions,
+          deps
+        );
+        return;
+      }
+
+      if (event.type === 'permission.replied') {
+        // Answered outside the plugin, e.g. in the OpenCode UI
+        const permissionId = (event.data as Record<string, unknown>)?.permissionID;
+        if (typeof permissionId === 'string') {
+          deps.permissions?.dismiss(permissionId);
+        }
+        return;
+      }
 
-    const result = await deps.execution.execute(executionRequest, (event) => {
       if (!significantEventTypes.has(event.type)) {
         return;
       }
@@ -229,7 +834,98 @@ async function executeTaskAsync(
             console.error(`Failed to send Matrix update for task ${taskId}:`, error);
           });
       }
-    });
+    };
+
+    const retry = resolveRetryPolicy(params.retry);
+    const firstStartedAt = Date.now();
+    // A follow-up turn adds to the usage of the turns before it
+    const priorUsage = followUp ? deps.registry.getTask(taskId)?.usage : undefined;
+    const previousUsages: TaskUsage[] = priorUsage ? [priorUsage] : [];
+    let attempt = 1;
+    let result = await deps.execution.execute(
+      { ...executionRequest, retainSession: retry.continueSession && retry.maxAttempts > 1 },
+      onEvent
+    );
+
+    while (
+      !budgetViolation &&
+      attempt < retry.maxAttempts &&
+      retry.retryOn.includes(result.status) &&
+      deps.registry.getTask(taskId)?.status !== 'cancelled'
+    ) {
+      const delayMs = retry.backoffMs * retry.backoffMultiplier ** (attempt - 1);
+      console.error(
+        `[execute-task] Task ${taskId} attempt ${attempt} ended with ${result.status}; retrying in ${delayMs}ms`
+      );
+      await deps.workspace
+        .updateWorkspace(params.agent_id, workspaceBlockId, {
+          events: [
+            {
+              timestamp: Date.now(),
+              type: 'task_retry',
+              message: `Attempt ${attempt} of ${retry.maxAttempts} ended with ${result.status}${
+                result.error ? `: ${result.error}` : ''
+              }; retrying in ${delayMs}ms`,
+              data: {
+                attempt,
+                next_attempt: attempt + 1,
+                max_attempts: retry.maxAttempts,
+                previous_status: result.status,
+                previous_error: result.error,
+                delay_ms: delayMs,
+                continue_session: retry.continueSession,
+              },
+            },
+          ],
+        })
+        .catch((error) => {
+          console.error(`Failed to record retry for task ${taskId}:`, error);
+        });
+
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if (deps.registry.getTask(taskId)?.status === 'cancelled') {
+        break;
+      }
+
+      if (result.usage) {
+        previousUsages.push(result.usage);
+      }
+      attempt++;
+      deps.registry.updateStatus(taskId, 'running', {
+        attempts: attempt,
+        usage: previousUsages.length > 0 ? sumUsage(previousUsages) : undefined,
+      });
+      result = await deps.execution.execute(
+        {
+          ...executionRequest,
+          retainSession: retry.continueSession && attempt < retry.maxAttempts,
+          continuePrompt: retry.continueSession ? buildRetryPrompt(result) : undefined,
+        },
+        onEvent
+      );
+    }
+
+    deps.permissions?.clearTask(taskId);
+    if (retry.continueSession) {
+      await deps.execution.releaseRetainedSession(taskId);
+    }
+    if (previousUsages.length > 0) {
+      result.usage = sumUsage(result.usage ? [...previousUsages, result.usage] : previousUsages);
+    }
+    if (attempt > 1) {
+      result.startedAt = firstStartedAt;
+      result.durationMs = Date.now() - firstStartedAt;
+    }
+
+    if (budgetViolation) {
+      result.status = 'error';
+      result.error = budgetViolation.message;
+    }
+
+    // The cancel signal has already settled the task; its aborted run only adds results
+    if (deps.registry.getTask(taskId)?.status === 'cancelled') {
+      return settleCancelledRun(taskId, params, workspaceBlockId, result, roomInfo?.roomId, deps);
+    }
 
     const finalStatus =
       result.status === 'success'
@@ -246,12 +942,7 @@ async function executeTaskAsync(
     );
 
     console.error(`[execute-task] Task ${taskId} completed with status: ${finalStatus}`);
-    deps.registry.updateStatus(taskId, finalStatus, {
-      output: result.output?.slice(0, 5000),
-      error: result.error,
-      durationMs: result.durationMs,
-      exitCode: result.exitCode,
-    });
+    taskDuration.observe({ status: finalStatus }, result.durationMs / 1000);
 
     // Send completion message to Matrix room if Matrix is enabled and room was created
     console.error(
@@ -286,50 +977,41 @@ async function executeTaskAsync(
             exit_code: result.exitCode,
             duration_ms: result.durationMs,
             matrix_room_id: roomInfo?.roomId,
+            git_branch: result.git?.branch,
+            attempts: attempt > 1 ? attempt : undefined,
           },
         },
       ],
-      artifacts: [
-        {
-          timestamp: Date.now(),
-          type: result.status === 'success' ? 'output' : 'error',
-          name: result.status === 'success' ? 'execution_output' : 'execution_error',
-          content: result.output,
-        },
-      ],
+      artifacts: buildResultArtifacts(result),
     });
 
-    // Send completion notification to the calling agent as a system_alert
-    try {
-      const systemAlert = JSON.stringify({
-        type: 'system_alert',
-        message: notificationMessage,
-        time: new Date().toLocaleString('en-US', {
-          timeZone: 'America/Los_Angeles',
-          timeZoneName: 'short',
-        }),
-      });
+    // Settle the registry only once the artifacts are written, so dependent
+    // tasks released by this transition can read this task's diff
+    deps.registry.updateStatus(taskId, finalStatus, {
+      output: result.output?.slice(0, 5000),
+      error: result.error,
+      durationMs: result.durationMs,
+      exitCode: result.exitCode,
+      usage: result.usage,
+    });
+    notifyWebhooks(taskId, finalStatus, deps);
 
-      await deps.letta.sendMessage(params.agent_id, {
-        role: 'system',
-        content: systemAlert,
-      });
-      console.error(
-        `[execute-task] Sent completion notification to agent ${params.agent_id} for task ${taskId}`
-      );
-    } catch (notificationError) {
-      console.error(
-        `[execute-task] Failed to send completion notification for task ${taskId}:`,
-        notificationError
-      );
+    // Send completion notification to the calling agent as a system_alert
+    if (!options.batchId) {
+      try {
+        await sendSystemAlert(deps.letta, params.agent_id, notificationMessage);
+        console.error(
+          `[execute-task] Sent completion notification to agent ${params.agent_id} for task ${taskId}`
+        );
+      } catch (notificationError) {
+        console.error(
+          `[execute-task] Failed to send completion notification for task ${taskId}:`,
+          notificationError
+        );
+      }
     }
 
-    const CLEANUP_DELAY_MS = 60_000;
-    setTimeout(() => {
-      deps.workspace.detachWorkspaceBlock(params.agent_id, workspaceBlockId).catch((err) => {
-        console.error(`[execute-task] Deferred cleanup failed for task ${taskId}:`, err);
-      });
-    }, CLEANUP_DELAY_MS);
+    scheduleWorkspaceDetach(taskId, params.agent_id, workspaceBlockId, deps);
 
     return {
       task_id: taskId,
@@ -338,9 +1020,19 @@ async function executeTaskAsync(
       exit_code: result.exitCode,
       duration_ms: result.durationMs,
       output: result.output.slice(0, 5000),
+      ...(attempt > 1 && { attempts: attempt }),
+      ...(budgetViolation && budgetExceededError(budgetViolation)),
     };
   } catch (error) {
+    deps.permissions?.clearTask(taskId);
+    if (deps.registry.getTask(taskId)?.status === 'cancelled') {
+      console.error(`[execute-task] Cancelled task ${taskId} stopped with an error:`, error);
+      scheduleWorkspaceDetach(taskId, params.agent_id, workspaceBlockId, deps);
+      return { task_id: taskId, status: 'cancelled', workspace_block_id: workspaceBlockId };
+    }
+
     deps.registry.updateStatus(taskId, 'failed');
+    notifyWebhooks(taskId, 'failed', deps);
 
     try {
       await deps.workspace.updateWorkspace(params.agent_id, workspaceBlockId, {
@@ -357,17 +1049,13 @@ async function executeTaskAsync(
       console.error(`Failed to update workspace on error for task ${taskId}:`, workspaceError);
     }
 
-    const CLEANUP_DELAY_MS = 60_000;
-    setTimeout(() => {
-      deps.workspace.detachWorkspaceBlock(params.agent_id, workspaceBlockId).catch((err) => {
-        console.error(`[execute-task] Deferred cleanup failed for task ${taskId}:`, err);
-      });
-    }, CLEANUP_DELAY_MS);
+    scheduleWorkspaceDetach(taskId, params.agent_id, workspaceBlockId, deps);
 
     // Send failure notification to the calling agent as a system_alert
-    try {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      const notificationMessage = `🚨 OpenCode Task Failed
+    if (!options.batchId) {
+      try {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const notificationMessage = `🚨 OpenCode Task Failed
 
 Task ID: ${taskId}
 Description: ${params.task_description}
@@ -375,27 +1063,16 @@ Error: ${errorMessage}
 
 The task execution encountered an error and could not be completed.`;
 
-      const systemAlert = JSON.stringify({
-        type: 'system_alert',
-        message: notificationMessage,
-        time: new Date().toLocaleString('en-US', {
-          timeZone: 'America/Los_Angeles',
-          timeZoneName: 'short',
-        }),
-      });
-
-      await deps.letta.sendMessage(params.agent_id, {
-        role: 'system',
-        content: systemAlert,
-      });
-      console.error(
-        `[execute-task] Sent failure notification to agent ${params.agent_id} for task ${taskId}`
-      );
-    } catch (notificationError) {
-      console.error(
-        `[execute-task] Failed to send failure notification for task ${taskId}:`,
-        notificationError
-      );
+        await sendSystemAlert(deps.letta, params.agent_id, notificationMessage);
+        console.error(
+          `[execute-task] Sent failure notification to agent ${params.agent_id} for task ${taskId}`
+        );
+      } catch (notificationError) {
+        console.error(
+          `[execute-task] Failed to send failure notification for task ${taskId}:`,
+          notificationError
+        );
+      }
     }
 
     return {
@@ -407,6 +1084,196 @@ The task execution encountered an error and could not be completed.`;
   }
 }
 
+const DEFAULT_RETRY_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BACKOFF_MS = 5000;
+const DEFAULT_RETRY_BACKOFF_MULTIPLIER = 2;
+
+interface RetryPolicy {
+  maxAttempts: number;
+  backoffMs: number;
+  backoffMultiplier: number;
+  retryOn: ExecutionResult['status'][];
+  continueSession: boolean;
+}
+
+/** Without a `retry` parameter the task runs exactly once. */
+function resolveRetryPolicy(retry: ExecuteTaskParams['retry']): RetryPolicy {
+  if (!retry) {
+    return {
+      maxAttempts: 1,
+      backoffMs: 0,
+      backoffMultiplier: 1,
+      retryOn: [],
+      continueSession: false,
+    };
+  }
+
+  return {
+    maxAttempts: retry.max_attempts ?? DEFAULT_RETRY_MAX_ATTEMPTS,
+    backoffMs: retry.backoff_ms ?? DEFAULT_RETRY_BACKOFF_MS,
+    backoffMultiplier: retry.backoff_multiplier ?? DEFAULT_RETRY_BACKOFF_MULTIPLIER,
+    retryOn: retry.retry_on ?? ['error', 'timeout'],
+    continueSession: retry.continue_session ?? false,
+  };
+}
+
+function buildRetryPrompt(previous: ExecutionResult): string {
+  const outcome = previous.status === 'timeout' ? 'timed out' : 'failed';
+  return `The previous attempt at this task ${outcome}${
+    previous.error ? ` with this error:\n\n${previous.error}\n\n` : '. '
+  }Continue the task from where it stopped, addressing the cause of the failure.`;
+}
+
+/**
+ * Hold an OpenCode permission request for a decision: record it on the
+ * workspace, post an approval prompt to the task room and alert the calling
+ * agent. The decision is recorded and posted to the room once it is relayed.
+ */
+function requestPermission(
+  taskId: string,
+  agentId: string,
+  workspaceBlockId: string,
+  event: OpenCodeEvent,
+  roomId: string | undefined,
+  permissions: PermissionGate,
+  deps: ExecuteTaskDependencies
+): void {
+  const data = (event.data ?? {}) as Record<string, unknown>;
+  if (typeof data.id !== 'string') {
+    return;
+  }
+
+  const recordPermissionEvent = (message: string, eventData: Record<string, unknown>) => {
+    deps.workspace
+      .updateWorkspace(agentId, workspaceBlockId, {
+        events: [{ timestamp: Date.now(), type: 'task_permission', message, data: eventData }],
+      })
+      .catch((error) => {
+        console.error(`Failed to record permission event for task ${taskId}:`, error);
+      });
+  };
+  const sendRoomMessage = (message: string, eventType: 'status_change' | 'permission_request') => {
+    if (!deps.matrix || !roomId) return;
+    deps.matrix.sendTaskUpdate(roomId, taskId, message, eventType).catch((error) => {
+      console.error(`Failed to send Matrix permission message for task ${taskId}:`, error);
+    });
+  };
+
+  const type = typeof data.type === 'string' ? data.type : 'unknown';
+  const pending = permissions.request(
+    {
+      permissionId: data.id,
+      taskId,
+      agentId,
+      sessionId: event.sessionId,
+      type,
+      title: typeof data.title === 'string' ? data.title : `Run ${type}`,
+      pattern: data.pattern as PendingPermission['pattern'],
+    },
+    (resolution: PermissionResolution) => {
+      const message = formatPermissionResolution(resolution);
+      recordPermissionEvent(message, {
+        permission_id: resolution.permission.permissionId,
+        decision: resolution.decision,
+        source: resolution.source,
+        decided_by: resolution.decidedBy,
+      });
+      sendRoomMessage(message, 'status_change');
+    }
+  );
+  if (!pending) {
+    return;
+  }
+
+  console.error(
+    `[execute-task] Task ${taskId} is waiting for permission ${pending.permissionId}: ${pending.title}`
+  );
+  recordPermissionEvent(`Permission requested: ${pending.title}`, {
+    permission_id: pending.permissionId,
+    permission_type: pending.type,
+    pattern: pending.pattern,
+    expires_at: pending.expiresAt,
+  });
+
+  const defaultOutcome = `${describeDecision(permissions.getDefaultDecision())} at ${new Date(
+    pending.expiresAt
+  ).toISOString()}`;
+  sendRoomMessage(
+    `${formatPermissionRequest(pending)}
+
+Reply "approve ${pending.permissionId}" to allow it once, "always ${pending.permissionId}" to allow it for the rest of the session, or "deny ${pending.permissionId}" to reject it. Without an answer it is ${defaultOutcome}.`,
+    'permission_request'
+  );
+  sendSystemAlert(
+    deps.letta,
+    agentId,
+    `${formatPermissionRequest(pending)}
+
+Call approve_task_permission with task_id "${taskId}", permission_id "${pending.permissionId}" and decision "once", "always" or "reject". Without an answer it is ${defaultOutcome}.`
+  ).catch((error) => {
+    console.error(`[execute-task] Failed to send permission alert for task ${taskId}:`, error);
+  });
+}
+
+function formatPermissionRequest(permission: PendingPermission): string {
+  let message = `🔐 OpenCode Task Needs Permission
+
+Task ID: ${permission.taskId}
+Permission ID: ${permission.permissionId}
+Request: ${permission.title}
+Type: ${permission.type}`;
+
+  if (permission.pattern) {
+    const pattern = Array.isArray(permission.pattern)
+      ? permission.pattern.join(', ')
+      : permission.pattern;
+    message += `\nPattern: ${pattern}`;
+  }
+
+  return message;
+}
+
+function describeDecision(decision: PermissionDecision): string {
+  return decision === 'once'
+    ? 'approved once'
+    : decision === 'always'
+      ? 'approved for the rest of the session'
+      : 'rejected';
+}
+
+function formatPermissionResolution(resolution: PermissionResolution): string {
+  const by =
+    resolution.source === 'timeout'
+      ? 'by default after no answer'
+      : resolution.decidedBy
+        ? `by ${resolution.decidedBy}`
+        : `via ${resolution.source === 'tool' ? 'approve_task_permission' : 'Matrix'}`;
+  return `Permission ${resolution.permission.permissionId} (${resolution.permission.title}) ${describeDecision(
+    resolution.decision
+  )} ${by}`;
+}
+
+/** Deliver `message` to the agent as a system_alert, the way task completions are reported. */
+export async function sendSystemAlert(
+  letta: LettaClient,
+  agentId: string,
+  message: string
+): Promise<void> {
+  const systemAlert = JSON.stringify({
+    type: 'system_alert',
+    message,
+    time: new Date().toLocaleString('en-US', {
+      timeZone: 'America/Los_Angeles',
+      timeZoneName: 'short',
+    }),
+  });
+
+  await letta.sendMessage(agentId, {
+    role: 'system',
+    content: systemAlert,
+  });
+}
+
 function formatCompletionNotification(
   taskId: string,
   status: string,
@@ -432,6 +1299,10 @@ Status: ${status}`;
     message += `\nExit Code: ${result.exitCode}`;
   }
 
+  if (result.usage) {
+    message += `\nUsage: ${formatUsage(result.usage)}`;
+  }
+
   if (result.output) {
     const outputPreview = result.output.slice(0, 1000);
     message += `\n\nOutput:\n${outputPreview}`;
@@ -446,3 +1317,12 @@ Status: ${status}`;
 
   return message;
 }
+
+export const executeTaskTool = defineTool({
+  name: 'opencode_execute_task',
+  description:
+    'Execute a development task using OpenCode. Returns task ID and status. ' +
+    'Use sync=true to wait for completion, or sync=false (default) to return immediately.',
+  schema: ExecuteTaskSchema,
+  handler: executeTask,
+});
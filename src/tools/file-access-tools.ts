@@ -1,6 +1,10 @@
 import { z } from 'zod';
 import type { ExecutionManager } from '../execution-manager.js';
 import type { TaskRegistry } from '../task-registry.js';
+import type { WorkspaceManager } from '../workspace-manager.js';
+import type { UnifiedFileDiff } from '../types/execution.js';
+import { defineTool } from '../tool-registry.js';
+import { formatSessionDiff, splitUnifiedDiff } from '../task-diff.js';
 
 export const GetTaskFilesSchema = z.object({
   task_id: z.string().describe('Task ID to list files for'),
@@ -12,14 +16,89 @@ export const ReadTaskFileSchema = z.object({
   file_path: z.string().describe('Path to the file to read'),
 });
 
+export const GetTaskDiffSchema = z.object({
+  task_id: z.string().describe('Task ID to get the diff for'),
+  path: z
+    .string()
+    .optional()
+    .describe('Optional path prefix; only files under it are returned (default: all files)'),
+});
+
 export type GetTaskFilesParams = z.infer<typeof GetTaskFilesSchema>;
 export type ReadTaskFileParams = z.infer<typeof ReadTaskFileSchema>;
+export type GetTaskDiffParams = z.infer<typeof GetTaskDiffSchema>;
 
 export interface FileAccessContext {
   execution: ExecutionManager;
   registry: TaskRegistry;
 }
 
+export interface TaskDiffContext extends FileAccessContext {
+  workspace: WorkspaceManager;
+}
+
+// Completed tasks keep their changes as workspace artifacts: the branch diff
+// when the task ran on a git worktree, the OpenCode session diff otherwise.
+const DIFF_ARTIFACT_NAMES = ['git_diff', 'session_diff'];
+
+export async function getTaskDiff(
+  params: GetTaskDiffParams,
+  context: TaskDiffContext
+): Promise<{
+  task_id: string;
+  source: 'session' | 'artifact' | 'none';
+  files: UnifiedFileDiff[];
+  additions: number;
+  deletions: number;
+  truncated: boolean;
+}> {
+  const { task_id, path } = params;
+  const { execution, registry, workspace } = context;
+
+  const task = registry.getTask(task_id);
+  if (!task) {
+    throw new Error(`Task not found: ${task_id}`);
+  }
+
+  let source: 'session' | 'artifact' | 'none' = 'none';
+  let files: UnifiedFileDiff[] = [];
+  let truncated = false;
+
+  if (execution.isTaskActive(task_id)) {
+    source = 'session';
+    files = formatSessionDiff(execution.getTaskDiff(task_id));
+  } else if (task.workspaceBlockId) {
+    try {
+      const block = await workspace.getWorkspace(task.agentId, task.workspaceBlockId);
+      const artifact = DIFF_ARTIFACT_NAMES.map((name) =>
+        block.artifacts.find((a) => a.type === 'diff' && a.name === name)
+      ).find((a) => a !== undefined);
+
+      if (artifact) {
+        source = 'artifact';
+        files = splitUnifiedDiff(artifact.content);
+        truncated = artifact.metadata?.truncated === true;
+      }
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Failed to read task diff: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  const filteredFiles = path ? files.filter((f) => f.path.startsWith(path)) : files;
+
+  return {
+    task_id,
+    source,
+    files: filteredFiles,
+    additions: filteredFiles.reduce((sum, f) => sum + f.additions, 0),
+    deletions: filteredFiles.reduce((sum, f) => sum + f.deletions, 0),
+    truncated,
+  };
+}
+
 export async function getTaskFiles(
   params: GetTaskFilesParams,
   context: FileAccessContext
@@ -97,3 +176,30 @@ export async function readTaskFile(
     throw error;
   }
 }
+
+export const getTaskFilesTool = defineTool({
+  name: 'get_task_files',
+  description:
+    "List files that have been created or modified in a running task's workspace. " +
+    'Only available when using OpenCode server mode.',
+  schema: GetTaskFilesSchema,
+  handler: getTaskFiles,
+});
+
+export const readTaskFileTool = defineTool({
+  name: 'read_task_file',
+  description:
+    "Read the content of a file from a running task's workspace. " +
+    'Only available when using OpenCode server mode.',
+  schema: ReadTaskFileSchema,
+  handler: readTaskFile,
+});
+
+export const getTaskDiffTool = defineTool({
+  name: 'get_task_diff',
+  description:
+    'Get a unified diff of the changes a task has made, one entry per file with added and ' +
+    'removed line counts. Works for running tasks and, from stored artifacts, completed ones.',
+  schema: GetTaskDiffSchema,
+  handler: getTaskDiff,
+});
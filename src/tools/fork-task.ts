@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { defineTool } from '../tool-registry.js';
+import type { TaskRegistryEntry } from '../types/task.js';
+import { ExecuteTaskSchema, executeTask, type ExecuteTaskDependencies } from './execute-task.js';
+
+export const ForkTaskSchema = ExecuteTaskSchema.pick({
+  timeout_ms: true,
+  sync: true,
+  priority: true,
+  callback_url: true,
+}).extend({
+  task_id: z.string().describe('ID of the task to fork; it must have finished recently'),
+  prompt: z
+    .string()
+    .describe('Instruction for the fork, e.g. "try a different approach using a worker pool"'),
+});
+
+export type ForkTaskParams = z.infer<typeof ForkTaskSchema>;
+
+// A running task's edits are not on its branch yet, so only finished tasks can be forked
+const FORKABLE_STATUSES = new Set<TaskRegistryEntry['status']>([
+  'completed',
+  'failed',
+  'timeout',
+  'cancelled',
+]);
+
+export async function forkTask(
+  params: ForkTaskParams,
+  deps: ExecuteTaskDependencies
+): Promise<Record<string, unknown>> {
+  const parent = deps.registry.getTask(params.task_id);
+  if (!parent) {
+    throw new Error(`Task ${params.task_id} not found`);
+  }
+
+  if (!FORKABLE_STATUSES.has(parent.status)) {
+    return {
+      error: `Task ${parent.taskId} is ${parent.status}; only finished tasks can be forked`,
+      code: 'TASK_NOT_FORKABLE',
+      status: 409,
+    };
+  }
+
+  if (!deps.execution.hasForkableSession(parent.taskId)) {
+    return {
+      error: `Task ${parent.taskId} has no OpenCode session left to fork`,
+      code: 'SESSION_EXPIRED',
+      status: 410,
+    };
+  }
+
+  const result = await executeTask(
+    {
+      agent_id: parent.agentId,
+      task_description: params.prompt,
+      timeout_ms: params.timeout_ms,
+      sync: params.sync,
+      priority: params.priority ?? parent.priority,
+      callback_url: params.callback_url,
+      model: parent.model && {
+        provider_id: parent.model.providerId,
+        model_id: parent.model.modelId,
+      },
+      workspace_path: parent.workingDir,
+    },
+    deps,
+    { parentTaskId: parent.taskId }
+  );
+
+  return typeof result.task_id === 'string' ? { ...result, parent_task_id: parent.taskId } : result;
+}
+
+export const forkTaskTool = defineTool({
+  name: 'fork_task',
+  description:
+    'Start a new task from a copy of a finished task session to try an alternative approach. ' +
+    'The fork continues the copied conversation with the given prompt, on its own branch started ' +
+    "from the original task's branch, and records the original as its parent.",
+  schema: ForkTaskSchema,
+  handler: forkTask,
+});
@@ -0,0 +1,60 @@
+import type { ToolDefinition } from '../types/tool.js';
+import { healthTool, pingTool } from './server-tools.js';
+import { executeTaskTool } from './execute-task.js';
+import { continueTaskTool } from './continue-task.js';
+import { forkTaskTool } from './fork-task.js';
+import { approveTaskPermissionTool } from './permission-tools.js';
+import { executeBatchTool, getBatchStatusTool } from './batch-tools.js';
+import {
+  deleteScheduledTaskTool,
+  listScheduledTasksTool,
+  scheduleTaskTool,
+} from './schedule-tools.js';
+import { getTaskStatusTool } from './task-status-tools.js';
+import { getUsageReportTool } from './usage-tools.js';
+import { sendTaskMessageTool } from './task-message-tools.js';
+import {
+  getTaskChannelTool,
+  listTaskChannelsTool,
+  sendTaskControlTool,
+  sendTaskUpdateTool,
+} from './task-coordination-tools.js';
+import { archiveTaskConversationTool, getTaskHistoryTool } from './task-archive-tools.js';
+import { getTaskDiffTool, getTaskFilesTool, readTaskFileTool } from './file-access-tools.js';
+import { sendRuntimeUpdateTool, sendTaskFeedbackTool } from './task-feedback-tools.js';
+import {
+  addTaskObserverTool,
+  listTaskObserversTool,
+  removeTaskObserverTool,
+} from './task-observer-tools.js';
+
+export const allTools: ToolDefinition[] = [
+  pingTool,
+  healthTool,
+  executeTaskTool,
+  continueTaskTool,
+  forkTaskTool,
+  executeBatchTool,
+  getTaskStatusTool,
+  getBatchStatusTool,
+  scheduleTaskTool,
+  listScheduledTasksTool,
+  deleteScheduledTaskTool,
+  getUsageReportTool,
+  sendTaskMessageTool,
+  sendTaskControlTool,
+  approveTaskPermissionTool,
+  getTaskHistoryTool,
+  getTaskFilesTool,
+  readTaskFileTool,
+  getTaskDiffTool,
+  sendTaskFeedbackTool,
+  sendRuntimeUpdateTool,
+  archiveTaskConversationTool,
+  listTaskChannelsTool,
+  getTaskChannelTool,
+  sendTaskUpdateTool,
+  addTaskObserverTool,
+  removeTaskObserverTool,
+  listTaskObserversTool,
+];
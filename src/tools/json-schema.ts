@@ -0,0 +1,14 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+/**
+ * Build an MCP tool inputSchema from the zod schema the tool parses its
+ * arguments with, so the advertised schema cannot drift from validation.
+ */
+export function toInputSchema(schema: ZodTypeAny): Tool['inputSchema'] {
+  const jsonSchema = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  delete jsonSchema.$schema;
+
+  return { ...jsonSchema, type: 'object' };
+}
@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import type { TaskRegistry } from '../task-registry.js';
+import type { PermissionGate } from '../permission-gate.js';
+import { defineTool } from '../tool-registry.js';
+
+export const ApproveTaskPermissionSchema = z.object({
+  task_id: z.string().describe('ID of the task waiting for permission'),
+  permission_id: z.string().describe('Permission ID from the permission request alert'),
+  decision: z
+    .enum(['once', 'always', 'reject'])
+    .describe(
+      'once: allow this call; always: allow matching calls for the rest of the session; reject: deny it'
+    ),
+});
+
+export type ApproveTaskPermissionParams = z.infer<typeof ApproveTaskPermissionSchema>;
+
+export interface PermissionToolDependencies {
+  registry: TaskRegistry;
+  permissions: PermissionGate;
+}
+
+export async function approveTaskPermission(
+  params: ApproveTaskPermissionParams,
+  deps: PermissionToolDependencies
+): Promise<Record<string, unknown>> {
+  if (!deps.registry.getTask(params.task_id)) {
+    throw new Error(`Task ${params.task_id} not found`);
+  }
+
+  const notPending = {
+    error: `Permission ${params.permission_id} is not waiting for a decision on task ${params.task_id}`,
+    code: 'PERMISSION_NOT_PENDING',
+    status: 404,
+  };
+  if (deps.permissions.get(params.permission_id)?.taskId !== params.task_id) {
+    return notPending;
+  }
+
+  const resolution = await deps.permissions.resolve(params.permission_id, params.decision, 'tool');
+  if (!resolution) {
+    return notPending;
+  }
+
+  return {
+    task_id: params.task_id,
+    permission_id: params.permission_id,
+    decision: resolution.decision,
+    message: 'Decision relayed to OpenCode',
+  };
+}
+
+export const approveTaskPermissionTool = defineTool({
+  name: 'approve_task_permission',
+  description:
+    'Answer a permission request from a running task, e.g. a bash command or file write OpenCode ' +
+    'is holding for approval. Requests are announced by system_alert and in the task Matrix room; ' +
+    'unanswered ones get PERMISSION_DEFAULT_DECISION after PERMISSION_TIMEOUT_MS.',
+  schema: ApproveTaskPermissionSchema,
+  handler: approveTaskPermission,
+});
@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import type { ExecutionManager } from '../execution-manager.js';
+import type { TaskScheduler } from '../task-scheduler.js';
+import type { WebhookNotifier } from '../webhook-notifier.js';
+import type { ScheduledTask } from '../types/schedule.js';
+import { defineTool } from '../tool-registry.js';
+import { ExecuteTaskSchema, unsignedCallbackError } from './execute-task.js';
+
+export const ScheduleTaskSchema = ExecuteTaskSchema.pick({
+  agent_id: true,
+  task_description: true,
+  timeout_ms: true,
+  priority: true,
+  model: true,
+  workspace_path: true,
+  callback_url: true,
+}).extend({
+  cron: z
+    .string()
+    .optional()
+    .describe(
+      'Five-field cron expression in UTC for a recurring task, e.g. "0 9 * * 1-5" (weekdays at 09:00)'
+    ),
+  run_at: z.number().optional().describe('Unix timestamp in milliseconds of a single future run'),
+});
+
+export type ScheduleTaskParams = z.infer<typeof ScheduleTaskSchema>;
+
+export const ListScheduledTasksSchema = z.object({
+  agent_id: z.string().optional().describe('Only list schedules of this agent (default: all)'),
+});
+
+export type ListScheduledTasksParams = z.infer<typeof ListScheduledTasksSchema>;
+
+export const DeleteScheduledTaskSchema = z.object({
+  schedule_id: z.string().describe('Schedule ID returned by opencode_schedule_task'),
+});
+
+export type DeleteScheduledTaskParams = z.infer<typeof DeleteScheduledTaskSchema>;
+
+export interface ScheduleToolDependencies {
+  scheduler: TaskScheduler;
+  execution: ExecutionManager;
+  webhooks?: WebhookNotifier;
+}
+
+function toScheduleSummary(schedule: ScheduledTask): Record<string, unknown> {
+  return {
+    schedule_id: schedule.scheduleId,
+    agent_id: schedule.request.agent_id,
+    task_description: schedule.request.task_description,
+    cron: schedule.cron,
+    run_at: schedule.runAt,
+    next_run_at: schedule.nextRunAt,
+    last_run_at: schedule.lastRunAt,
+    last_task_id: schedule.lastTaskId,
+    last_error: schedule.lastError,
+    run_count: schedule.runCount,
+    created_at: schedule.createdAt,
+  };
+}
+
+export async function scheduleTask(
+  params: ScheduleTaskParams,
+  deps: ScheduleToolDependencies
+): Promise<Record<string, unknown>> {
+  const { cron, run_at, ...request } = params;
+
+  // Reject what would fail on every run now rather than at the first run
+  try {
+    deps.execution.resolveModel(
+      request.model && { providerId: request.model.provider_id, modelId: request.model.model_id }
+    );
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      code: 'MODEL_NOT_ALLOWED',
+      status: 400,
+    };
+  }
+  try {
+    deps.execution.resolveWorkingDir(request.workspace_path);
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      code: 'INVALID_WORKSPACE_PATH',
+      status: 400,
+    };
+  }
+
+  const unsignedCallback = unsignedCallbackError(request.callback_url, deps.webhooks);
+  if (unsignedCallback) {
+    return unsignedCallback;
+  }
+
+  try {
+    const schedule = deps.scheduler.create(request, { cron, runAt: run_at });
+    return toScheduleSummary(schedule);
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : String(error),
+      code: 'INVALID_SCHEDULE',
+      status: 400,
+    };
+  }
+}
+
+export async function listScheduledTasks(
+  params: ListScheduledTasksParams,
+  deps: Pick<ScheduleToolDependencies, 'scheduler'>
+): Promise<{ schedules: Array<Record<string, unknown>> }> {
+  return {
+    schedules: deps.scheduler
+      .list(params.agent_id)
+      .sort((a, b) => (a.nextRunAt ?? Infinity) - (b.nextRunAt ?? Infinity))
+      .map(toScheduleSummary),
+  };
+}
+
+export async function deleteScheduledTask(
+  params: DeleteScheduledTaskParams,
+  deps: Pick<ScheduleToolDependencies, 'scheduler'>
+): Promise<{ schedule_id: string; deleted: boolean }> {
+  if (!deps.scheduler.delete(params.schedule_id)) {
+    throw new Error(`Schedule ${params.schedule_id} not found`);
+  }
+  return { schedule_id: params.schedule_id, deleted: true };
+}
+
+export const scheduleTaskTool = defineTool({
+  name: 'opencode_schedule_task',
+  description:
+    'Schedule a development task to run later, once at run_at or repeatedly on a cron expression. ' +
+    'Each run is submitted like opencode_execute_task and linked to the schedule ID.',
+  schema: ScheduleTaskSchema,
+  handler: scheduleTask,
+});
+
+export const listScheduledTasksTool = defineTool({
+  name: 'list_scheduled_tasks',
+  description:
+    'List scheduled tasks with their next run time and the task ID and error of their last run.',
+  schema: ListScheduledTasksSchema,
+  handler: listScheduledTasks,
+});
+
+export const deleteScheduledTaskTool = defineTool({
+  name: 'delete_scheduled_task',
+  description: 'Delete a scheduled task. Runs already submitted are not affected.',
+  schema: DeleteScheduledTaskSchema,
+  handler: deleteScheduledTask,
+});
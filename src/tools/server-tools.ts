@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { defineTool } from '../tool-registry.js';
+
+export const SERVER_VERSION = '0.1.0';
+
+export const pingTool = defineTool({
+  name: 'ping',
+  description: 'Simple ping tool to verify the MCP server is responsive',
+  schema: z.object({}),
+  handler: async () => ({ status: 'ok', timestamp: Date.now() }),
+});
+
+export const healthTool = defineTool({
+  name: 'health',
+  description: 'Health check tool that returns server status and environment info',
+  schema: z.object({}),
+  handler: async (_params, deps) => ({
+    status: 'healthy',
+    timestamp: Date.now(),
+    version: SERVER_VERSION,
+    environment: {
+      letta_api_url: process.env.LETTA_API_URL || 'not_configured',
+      runner_image: process.env.RUNNER_IMAGE || 'not_configured',
+      mcp_port: process.env.MCP_PORT || 'not_configured',
+    },
+    metrics: {
+      active_tasks: deps.registry.getRunningTasksCount(),
+      can_accept_task: !deps.queue.isFull(),
+      queue_depth: deps.queue.getDepth(),
+    },
+  }),
+});
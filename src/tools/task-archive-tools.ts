@@ -2,23 +2,35 @@ import { z } from 'zod';
 import type { TaskRegistry } from '../task-registry.js';
 import type { WorkspaceManager } from '../workspace-manager.js';
 import type { MatrixRoomManager } from '../matrix-room-manager.js';
+import type { TaskEventLog } from '../task-event-log.js';
+import { defineTool } from '../tool-registry.js';
 
 export const GetTaskHistorySchema = z.object({
-  task_id: z.string(),
-  include_artifacts: z.boolean().default(false),
+  task_id: z.string().describe('Task ID to retrieve history for'),
+  include_artifacts: z
+    .boolean()
+    .default(false)
+    .describe('Whether to include artifacts (files, outputs) in the response'),
   events_limit: z
     .number()
     .optional()
     .default(100)
     .describe('Maximum number of events to return (default: 100, -1 for all)'),
   events_offset: z.number().optional().default(0).describe('Number of events to skip (default: 0)'),
+  event_types: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Only return events of these types, e.g. tool_call, file_edit, message, usage, diff, ' +
+        'error or a workspace event type such as task_completed (default: all)'
+    ),
 });
 
 export type GetTaskHistoryParams = z.infer<typeof GetTaskHistorySchema>;
 
 export const ArchiveTaskConversationSchema = z.object({
-  task_id: z.string(),
-  summary: z.string().optional(),
+  task_id: z.string().describe('Task ID whose conversation should be archived'),
+  summary: z.string().optional().describe('Optional summary recorded with the archive'),
 });
 
 export type ArchiveTaskConversationParams = z.infer<typeof ArchiveTaskConversationSchema>;
@@ -27,8 +39,16 @@ export interface TaskArchiveDependencies {
   registry: TaskRegistry;
   workspace: WorkspaceManager;
   matrix?: MatrixRoomManager | null;
+  eventLog?: TaskEventLog;
 }
 
+type HistoryEvent = {
+  timestamp: number;
+  type: string;
+  message: string;
+  data?: Record<string, unknown>;
+};
+
 export async function getTaskHistory(
   params: GetTaskHistoryParams,
   deps: TaskArchiveDependencies
@@ -37,7 +57,7 @@ export async function getTaskHistory(
   status: string;
   created_at: number;
   completed_at?: number;
-  events: Array<{ timestamp: number; type: string; message: string }>;
+  events: HistoryEvent[];
   events_total: number;
   events_returned: number;
   events_offset: number;
@@ -56,11 +76,19 @@ export async function getTaskHistory(
 
   const workspaceBlock = await deps.workspace.getWorkspace(task.agentId, task.workspaceBlockId);
 
-  const allEvents = workspaceBlock.events.map((e) => ({
-    timestamp: e.timestamp,
-    type: e.type,
-    message: e.message,
-  }));
+  // Interleave the workspace lifecycle events with the task's OpenCode activity log
+  const loggedEvents: HistoryEvent[] = deps.eventLog?.getEntries(params.task_id) ?? [];
+  const typeFilter = params.event_types?.length ? new Set(params.event_types) : undefined;
+  const allEvents = [
+    ...workspaceBlock.events.map((e) => ({
+      timestamp: e.timestamp,
+      type: e.type as string,
+      message: e.message,
+    })),
+    ...loggedEvents,
+  ]
+    .filter((e) => !typeFilter || typeFilter.has(e.type))
+    .sort((a, b) => a.timestamp - b.timestamp);
 
   // Apply pagination
   const eventsLimit = params.events_limit === -1 ? allEvents.length : params.events_limit;
@@ -72,7 +100,7 @@ export async function getTaskHistory(
     status: string;
     created_at: number;
     completed_at?: number;
-    events: Array<{ timestamp: number; type: string; message: string }>;
+    events: HistoryEvent[];
     events_total: number;
     events_returned: number;
     events_offset: number;
@@ -158,3 +186,23 @@ export async function archiveTaskConversation(
     message_count: history.events.length,
   };
 }
+
+export const getTaskHistoryTool = defineTool({
+  name: 'get_task_history',
+  description:
+    'Retrieve the complete history of events and optionally artifacts for a task, including ' +
+    'recorded tool calls, file edits, assistant messages and token usage. ' +
+    'Supports filtering by event type and pagination for large event histories.',
+  schema: GetTaskHistorySchema,
+  handler: getTaskHistory,
+});
+
+export const archiveTaskConversationTool = defineTool({
+  name: 'archive_task_conversation',
+  description:
+    "Archive a finished task's Matrix conversation and record the archive in its workspace. " +
+    'Requires Matrix to be enabled.',
+  schema: ArchiveTaskConversationSchema,
+  requiredDeps: ['matrix'],
+  handler: archiveTaskConversation,
+});
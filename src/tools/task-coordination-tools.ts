@@ -2,10 +2,16 @@ import { z } from 'zod';
 import type { MatrixRoomManager } from '../matrix-room-manager.js';
 import { TaskRegistry } from '../task-registry.js';
 import type { TaskRegistryEntry } from '../types/task.js';
+import type { ControlSignalHandler } from '../control-signal-handler.js';
+import { defineTool } from '../tool-registry.js';
 
 export const ListTaskChannelsSchema = z.object({
-  agent_id: z.string().optional(),
-  include_completed: z.boolean().optional().default(false),
+  agent_id: z.string().optional().describe('Only list channels for tasks of this agent'),
+  include_completed: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Include channels of finished tasks (default: false)'),
 });
 
 export type ListTaskChannelsParams = z.infer<typeof ListTaskChannelsSchema>;
@@ -26,8 +32,8 @@ export interface TaskChannelSummary {
 
 export const GetTaskChannelSchema = z
   .object({
-    task_id: z.string().optional(),
-    channel_id: z.string().optional(),
+    task_id: z.string().optional().describe('Task ID to look up'),
+    channel_id: z.string().optional().describe('Matrix room ID to look up'),
   })
   .refine((value) => Boolean(value.task_id || value.channel_id), {
     message: 'task_id or channel_id is required',
@@ -36,17 +42,20 @@ export const GetTaskChannelSchema = z
 export type GetTaskChannelParams = z.infer<typeof GetTaskChannelSchema>;
 
 export const SendTaskUpdateSchema = z.object({
-  task_id: z.string(),
-  message: z.string(),
-  event_type: z.enum(['progress', 'error', 'status_change']).default('progress'),
+  task_id: z.string().describe('Task ID whose channel receives the update'),
+  message: z.string().describe('Update content'),
+  event_type: z
+    .enum(['progress', 'error', 'status_change'])
+    .default('progress')
+    .describe('Kind of update'),
 });
 
 export type SendTaskUpdateParams = z.infer<typeof SendTaskUpdateSchema>;
 
 export const SendTaskControlSchema = z.object({
-  task_id: z.string(),
-  control: z.enum(['cancel', 'pause', 'resume']),
-  reason: z.string().optional(),
+  task_id: z.string().describe('Task ID to control'),
+  control: z.enum(['cancel', 'pause', 'resume']).describe('Control action'),
+  reason: z.string().optional().describe('Optional explanation for the control signal'),
 });
 
 export type SendTaskControlParams = z.infer<typeof SendTaskControlSchema>;
@@ -54,6 +63,7 @@ export type SendTaskControlParams = z.infer<typeof SendTaskControlSchema>;
 export interface TaskCoordinationDependencies {
   registry: TaskRegistry;
   matrix?: MatrixRoomManager | null;
+  controlHandler?: ControlSignalHandler | null;
 }
 
 function ensureCoordination(deps: TaskCoordinationDependencies): MatrixRoomManager {
@@ -169,10 +179,30 @@ export async function sendTaskUpdate(
 export async function sendTaskControl(
   params: SendTaskControlParams,
   deps: TaskCoordinationDependencies
-): Promise<{ channel_id: string; task_id: string; control: string }> {
+): Promise<{ channel_id?: string; task_id: string; control: string }> {
+  const task = deps.registry.getTask(params.task_id);
+
+  // Signals are applied directly, so pause and resume also work without Matrix;
+  // the handler announces the change in the task room when there is one.
+  if (task && deps.controlHandler) {
+    const result = await deps.controlHandler.handleControlSignal({
+      taskId: task.taskId,
+      signal: params.control,
+      reason: params.reason,
+      requestedBy: task.agentId,
+    });
+    if (!result.success) {
+      throw new Error(result.error || `Failed to ${params.control} task`);
+    }
+    return {
+      channel_id: task.matrixRoom?.roomId,
+      task_id: task.taskId,
+      control: params.control,
+    };
+  }
+
   const coordinator = ensureCoordination(deps);
 
-  const task = deps.registry.getTask(params.task_id);
   if (!task || !task.matrixRoom) {
     throw new Error('Task does not have an associated communication channel');
   }
@@ -190,3 +220,40 @@ export async function sendTaskControl(
     control: params.control,
   };
 }
+
+export const sendTaskControlTool = defineTool({
+  name: 'send_task_control',
+  description: 'Send a control signal to cancel, pause, or resume task execution.',
+  schema: SendTaskControlSchema,
+  handler: sendTaskControl,
+});
+
+export const listTaskChannelsTool = defineTool({
+  name: 'list_task_channels',
+  description:
+    'List the Matrix coordination channels of tasks, optionally filtered by agent. ' +
+    'Requires Matrix to be enabled.',
+  schema: ListTaskChannelsSchema,
+  requiredDeps: ['matrix'],
+  handler: listTaskChannels,
+});
+
+export const getTaskChannelTool = defineTool({
+  name: 'get_task_channel',
+  description:
+    'Get the Matrix coordination channel of a task by task ID or channel ID. ' +
+    'Requires Matrix to be enabled.',
+  schema: GetTaskChannelSchema,
+  requiredDeps: ['matrix'],
+  handler: getTaskChannel,
+});
+
+export const sendTaskUpdateTool = defineTool({
+  name: 'send_task_update',
+  description:
+    "Post a progress, error or status update to a task's Matrix channel. " +
+    'Requires Matrix to be enabled.',
+  schema: SendTaskUpdateSchema,
+  requiredDeps: ['matrix'],
+  handler: sendTaskUpdate,
+});
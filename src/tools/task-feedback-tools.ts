@@ -2,25 +2,30 @@ import { z } from 'zod';
 import type { TaskRegistry } from '../task-registry.js';
 import type { WorkspaceManager } from '../workspace-manager.js';
 import type { MatrixRoomManager } from '../matrix-room-manager.js';
+import type { ExecutionManager } from '../execution-manager.js';
+import { defineTool } from '../tool-registry.js';
+import { deliverSessionMessage, type MessageDeliveryStatus } from './task-message-tools.js';
 
 export const SendTaskFeedbackSchema = z.object({
-  task_id: z.string(),
-  feedback: z.string(),
+  task_id: z.string().describe('Task ID to send feedback to'),
+  feedback: z.string().describe('Feedback content'),
   feedback_type: z
     .enum(['clarification', 'correction', 'guidance', 'approval'])
-    .default('guidance'),
-  metadata: z.record(z.unknown()).optional(),
+    .default('guidance')
+    .describe('Type of feedback'),
+  metadata: z.record(z.unknown()).optional().describe('Optional additional metadata'),
 });
 
 export type SendTaskFeedbackParams = z.infer<typeof SendTaskFeedbackSchema>;
 
 export const SendRuntimeUpdateSchema = z.object({
-  task_id: z.string(),
-  update: z.string(),
+  task_id: z.string().describe('Task ID to send the update to'),
+  update: z.string().describe('Description of what changed'),
   update_type: z
     .enum(['context_change', 'requirement_change', 'priority_change'])
-    .default('context_change'),
-  metadata: z.record(z.unknown()).optional(),
+    .default('context_change')
+    .describe('Type of runtime update'),
+  metadata: z.record(z.unknown()).optional().describe('Optional additional metadata'),
 });
 
 export type SendRuntimeUpdateParams = z.infer<typeof SendRuntimeUpdateSchema>;
@@ -28,13 +33,20 @@ export type SendRuntimeUpdateParams = z.infer<typeof SendRuntimeUpdateSchema>;
 export interface TaskFeedbackDependencies {
   registry: TaskRegistry;
   workspace: WorkspaceManager;
+  execution: ExecutionManager;
   matrix?: MatrixRoomManager | null;
 }
 
 export async function sendTaskFeedback(
   params: SendTaskFeedbackParams,
   deps: TaskFeedbackDependencies
-): Promise<{ task_id: string; feedback_id: string; timestamp: number }> {
+): Promise<{
+  task_id: string;
+  feedback_id: string;
+  timestamp: number;
+  delivery_status: MessageDeliveryStatus;
+  delivery_error?: string;
+}> {
   const task = deps.registry.getTask(params.task_id);
 
   if (!task) {
@@ -52,6 +64,13 @@ export async function sendTaskFeedback(
   const timestamp = Date.now();
   const feedbackId = `feedback-${timestamp}`;
 
+  const { deliveryStatus, deliveryError } = await deliverSessionMessage(
+    deps.execution,
+    task.taskId,
+    params.feedback_type,
+    params.feedback
+  );
+
   await deps.workspace.appendEvent(task.agentId, task.workspaceBlockId, {
     timestamp,
     type: 'task_feedback',
@@ -60,6 +79,8 @@ export async function sendTaskFeedback(
       feedback_id: feedbackId,
       feedback_type: params.feedback_type,
       ...params.metadata,
+      delivery_status: deliveryStatus,
+      delivery_error: deliveryError,
     },
   });
 
@@ -76,13 +97,21 @@ export async function sendTaskFeedback(
     task_id: params.task_id,
     feedback_id: feedbackId,
     timestamp,
+    delivery_status: deliveryStatus,
+    delivery_error: deliveryError,
   };
 }
 
 export async function sendRuntimeUpdate(
   params: SendRuntimeUpdateParams,
   deps: TaskFeedbackDependencies
-): Promise<{ task_id: string; update_id: string; timestamp: number }> {
+): Promise<{
+  task_id: string;
+  update_id: string;
+  timestamp: number;
+  delivery_status: MessageDeliveryStatus;
+  delivery_error?: string;
+}> {
   const task = deps.registry.getTask(params.task_id);
 
   if (!task) {
@@ -100,6 +129,13 @@ export async function sendRuntimeUpdate(
   const timestamp = Date.now();
   const updateId = `update-${timestamp}`;
 
+  const { deliveryStatus, deliveryError } = await deliverSessionMessage(
+    deps.execution,
+    task.taskId,
+    params.update_type,
+    params.update
+  );
+
   await deps.workspace.appendEvent(task.agentId, task.workspaceBlockId, {
     timestamp,
     type: 'task_runtime_update',
@@ -108,6 +144,8 @@ export async function sendRuntimeUpdate(
       update_id: updateId,
       update_type: params.update_type,
       ...params.metadata,
+      delivery_status: deliveryStatus,
+      delivery_error: deliveryError,
     },
   });
 
@@ -124,5 +162,25 @@ export async function sendRuntimeUpdate(
     task_id: params.task_id,
     update_id: updateId,
     timestamp,
+    delivery_status: deliveryStatus,
+    delivery_error: deliveryError,
   };
 }
+
+export const sendTaskFeedbackTool = defineTool({
+  name: 'send_task_feedback',
+  description:
+    'Send feedback (clarification, correction, guidance or approval) to a running task. ' +
+    'The feedback is forwarded into its OpenCode session and the delivery status is returned.',
+  schema: SendTaskFeedbackSchema,
+  handler: sendTaskFeedback,
+});
+
+export const sendRuntimeUpdateTool = defineTool({
+  name: 'send_runtime_update',
+  description:
+    'Notify a running task that its context, requirements or priorities have changed. ' +
+    'The update is forwarded into its OpenCode session and the delivery status is returned.',
+  schema: SendRuntimeUpdateSchema,
+  handler: sendRuntimeUpdate,
+});
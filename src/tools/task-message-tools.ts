@@ -2,10 +2,13 @@ import { z } from 'zod';
 import type { TaskRegistry } from '../task-registry.js';
 import type { WorkspaceManager } from '../workspace-manager.js';
 import type { MatrixRoomManager } from '../matrix-room-manager.js';
+import type { ExecutionManager } from '../execution-manager.js';
+import type { SessionMessageDelivery } from '../types/execution.js';
+import { defineTool } from '../tool-registry.js';
 
 export const SendTaskMessageSchema = z.object({
-  task_id: z.string(),
-  message: z.string(),
+  task_id: z.string().describe('Task ID to send message to'),
+  message: z.string().describe('Message content'),
   message_type: z
     .enum([
       'update',
@@ -18,8 +21,9 @@ export const SendTaskMessageSchema = z.object({
       'guidance',
       'approval',
     ])
-    .default('update'),
-  metadata: z.record(z.unknown()).optional(),
+    .default('update')
+    .describe('Type of message'),
+  metadata: z.record(z.unknown()).optional().describe('Optional additional metadata'),
 });
 
 export type SendTaskMessageParams = z.infer<typeof SendTaskMessageSchema>;
@@ -27,9 +31,12 @@ export type SendTaskMessageParams = z.infer<typeof SendTaskMessageSchema>;
 export interface TaskMessageDependencies {
   registry: TaskRegistry;
   workspace: WorkspaceManager;
+  execution: ExecutionManager;
   matrix?: MatrixRoomManager | null;
 }
 
+export type MessageDeliveryStatus = SessionMessageDelivery | 'failed';
+
 const MESSAGE_TYPE_TO_WORKSPACE_EVENT: Record<string, string> = {
   update: 'task_progress',
   feedback: 'task_feedback',
@@ -54,10 +61,61 @@ const MESSAGE_TYPE_TO_MATRIX_EVENT: Record<string, 'progress' | 'error' | 'statu
   approval: 'progress',
 };
 
+const MESSAGE_TYPE_TO_SESSION_HEADER: Record<string, string> = {
+  update: 'Update from the calling agent',
+  feedback: 'Feedback on your work so far',
+  context_change: 'The context of this task has changed',
+  requirement_change: 'The requirements of this task have changed; adjust your work accordingly',
+  priority_change: 'The priorities of this task have changed',
+  clarification: 'Clarification of the task',
+  correction: 'Correction: address this before continuing',
+  guidance: 'Guidance from the calling agent',
+  approval: 'Approval from the calling agent',
+};
+
+function frameSessionMessage(taskId: string, messageType: string, message: string): string {
+  const header = MESSAGE_TYPE_TO_SESSION_HEADER[messageType] || 'Message from the calling agent';
+  return `[${messageType.toUpperCase()}] ${header} (Task ID: ${taskId})
+
+${message}`;
+}
+
+/**
+ * Forward a message into the task's OpenCode session. Delivery failures are
+ * reported in the result rather than thrown, so callers can still record the
+ * message in the workspace and Matrix.
+ */
+export async function deliverSessionMessage(
+  execution: ExecutionManager,
+  taskId: string,
+  messageType: string,
+  message: string
+): Promise<{ deliveryStatus: MessageDeliveryStatus; deliveryError?: string }> {
+  try {
+    const deliveryStatus = await execution.sendTaskMessage(
+      taskId,
+      frameSessionMessage(taskId, messageType, message)
+    );
+    return { deliveryStatus };
+  } catch (error) {
+    console.error(`[task-message] Failed to deliver message to task ${taskId}:`, error);
+    return {
+      deliveryStatus: 'failed',
+      deliveryError: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 export async function sendTaskMessage(
   params: SendTaskMessageParams,
   deps: TaskMessageDependencies
-): Promise<{ task_id: string; message_id: string; timestamp: number }> {
+): Promise<{
+  task_id: string;
+  message_id: string;
+  timestamp: number;
+  delivery_status: MessageDeliveryStatus;
+  delivery_error?: string;
+}> {
   const task = deps.registry.getTask(params.task_id);
 
   if (!task) {
@@ -75,6 +133,13 @@ export async function sendTaskMessage(
   const timestamp = Date.now();
   const messageId = `msg-${timestamp}`;
 
+  const { deliveryStatus, deliveryError } = await deliverSessionMessage(
+    deps.execution,
+    task.taskId,
+    params.message_type,
+    params.message
+  );
+
   const workspaceEventType = MESSAGE_TYPE_TO_WORKSPACE_EVENT[params.message_type] || 'task_message';
 
   await deps.workspace.appendEvent(task.agentId, task.workspaceBlockId, {
@@ -85,6 +150,8 @@ export async function sendTaskMessage(
       message_id: messageId,
       message_type: params.message_type,
       ...params.metadata,
+      delivery_status: deliveryStatus,
+      delivery_error: deliveryError,
     },
   });
 
@@ -103,5 +170,16 @@ export async function sendTaskMessage(
     task_id: params.task_id,
     message_id: messageId,
     timestamp,
+    delivery_status: deliveryStatus,
+    delivery_error: deliveryError,
   };
 }
+
+export const sendTaskMessageTool = defineTool({
+  name: 'send_task_message',
+  description:
+    'Send a message to a running task. Use this for updates, feedback, clarifications, ' +
+    'corrections, guidance, approvals, or context changes.',
+  schema: SendTaskMessageSchema,
+  handler: sendTaskMessage,
+});
@@ -1,25 +1,32 @@
 import { z } from 'zod';
 import type { TaskRegistry } from '../task-registry.js';
 import type { MatrixRoomManager } from '../matrix-room-manager.js';
+import { defineTool } from '../tool-registry.js';
 
 export const AddTaskObserverSchema = z.object({
-  task_id: z.string(),
-  observer_id: z.string(),
-  observer_type: z.enum(['human', 'agent']).default('human'),
-  read_only: z.boolean().default(true),
+  task_id: z.string().describe('Task ID to add the observer to'),
+  observer_id: z.string().describe('Matrix user ID of the observer (e.g., @user:domain.com)'),
+  observer_type: z
+    .enum(['human', 'agent'])
+    .default('human')
+    .describe('Whether the observer is a human or an agent'),
+  read_only: z
+    .boolean()
+    .default(true)
+    .describe('If true, the observer can read but not post to the task channel'),
 });
 
 export type AddTaskObserverParams = z.infer<typeof AddTaskObserverSchema>;
 
 export const RemoveTaskObserverSchema = z.object({
-  task_id: z.string(),
-  observer_id: z.string(),
+  task_id: z.string().describe('Task ID to remove the observer from'),
+  observer_id: z.string().describe('Matrix user ID of the observer to remove'),
 });
 
 export type RemoveTaskObserverParams = z.infer<typeof RemoveTaskObserverSchema>;
 
 export const ListTaskObserversSchema = z.object({
-  task_id: z.string(),
+  task_id: z.string().describe('Task ID to list observers for'),
 });
 
 export type ListTaskObserversParams = z.infer<typeof ListTaskObserversSchema>;
@@ -120,3 +127,28 @@ export async function listTaskObservers(
     observers,
   };
 }
+
+export const addTaskObserverTool = defineTool({
+  name: 'add_task_observer',
+  description:
+    "Invite a human or agent to observe a task's Matrix channel. Requires Matrix to be enabled.",
+  schema: AddTaskObserverSchema,
+  requiredDeps: ['matrix'],
+  handler: addTaskObserver,
+});
+
+export const removeTaskObserverTool = defineTool({
+  name: 'remove_task_observer',
+  description: "Remove an observer from a task's Matrix channel. Requires Matrix to be enabled.",
+  schema: RemoveTaskObserverSchema,
+  requiredDeps: ['matrix'],
+  handler: removeTaskObserver,
+});
+
+export const listTaskObserversTool = defineTool({
+  name: 'list_task_observers',
+  description: "List the participants of a task's Matrix channel. Requires Matrix to be enabled.",
+  schema: ListTaskObserversSchema,
+  requiredDeps: ['matrix'],
+  handler: listTaskObservers,
+});
@@ -1,9 +1,15 @@
 import { z } from 'zod';
 import type { TaskRegistry } from '../task-registry.js';
 import type { WorkspaceManager } from '../workspace-manager.js';
+import type { TaskQueue } from '../task-queue.js';
+import type { ExecutionManager } from '../execution-manager.js';
+import type { PermissionGate } from '../permission-gate.js';
+import { defineTool } from '../tool-registry.js';
+import { formatModel } from '../models.js';
+import { currentTaskUsage, toUsageSummary, type UsageSummary } from '../usage.js';
 
 export const GetTaskStatusSchema = z.object({
-  task_id: z.string(),
+  task_id: z.string().describe('Task ID to check status for'),
 });
 
 export type GetTaskStatusParams = z.infer<typeof GetTaskStatusSchema>;
@@ -11,6 +17,9 @@ export type GetTaskStatusParams = z.infer<typeof GetTaskStatusSchema>;
 export interface TaskStatusDependencies {
   registry: TaskRegistry;
   workspace: WorkspaceManager;
+  queue?: TaskQueue;
+  execution?: ExecutionManager;
+  permissions?: PermissionGate;
 }
 
 export async function getTaskStatus(
@@ -19,6 +28,8 @@ export async function getTaskStatus(
 ): Promise<{
   task_id: string;
   status: string;
+  queue_position?: number;
+  model?: string;
   created_at: number;
   started_at?: number;
   completed_at?: number;
@@ -29,6 +40,21 @@ export async function getTaskStatus(
   error?: string;
   duration_ms?: number;
   exit_code?: number;
+  usage?: UsageSummary;
+  depends_on?: string[];
+  batch_id?: string;
+  schedule_id?: string;
+  attempts?: number;
+  follow_ups?: number;
+  parent_task_id?: string;
+  lineage?: string[];
+  forks?: string[];
+  pending_permissions?: Array<{
+    permission_id: string;
+    type: string;
+    title: string;
+    expires_at: number;
+  }>;
 }> {
   const task = deps.registry.getTask(params.task_id);
 
@@ -51,9 +77,16 @@ export async function getTaskStatus(
     }
   }
 
+  const forks = deps.registry.findForks(task.taskId).map((fork) => fork.taskId);
+  const pendingPermissions = deps.permissions?.list(task.taskId) ?? [];
+
+  const usage = currentTaskUsage(task, deps.execution?.getTaskUsage(task.taskId));
+
   return {
     task_id: task.taskId,
     status: task.status,
+    queue_position: deps.queue?.getPosition(task.taskId),
+    model: task.model && formatModel(task.model),
     created_at: task.createdAt,
     started_at: task.startedAt,
     completed_at: task.completedAt,
@@ -64,5 +97,32 @@ export async function getTaskStatus(
     error: task.error,
     duration_ms: task.durationMs,
     exit_code: task.exitCode,
+    usage: usage && toUsageSummary(usage),
+    depends_on: task.dependsOn,
+    batch_id: task.batchId,
+    schedule_id: task.scheduleId,
+    attempts: task.attempts,
+    follow_ups: task.followUps,
+    parent_task_id: task.parentTaskId,
+    lineage: task.parentTaskId ? deps.registry.getLineage(task.taskId) : undefined,
+    forks: forks.length > 0 ? forks : undefined,
+    pending_permissions:
+      pendingPermissions.length > 0
+        ? pendingPermissions.map((permission) => ({
+            permission_id: permission.permissionId,
+            type: permission.type,
+            title: permission.title,
+            expires_at: permission.expiresAt,
+          }))
+        : undefined,
   };
 }
+
+export const getTaskStatusTool = defineTool({
+  name: 'get_task_status',
+  description:
+    'Get the current status and recent activity of a task. ' +
+    'Returns task status, timestamps, and the 5 most recent events.',
+  schema: GetTaskStatusSchema,
+  handler: getTaskStatus,
+});
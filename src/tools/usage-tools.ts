@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import type { TaskRegistry } from '../task-registry.js';
+import type { ExecutionManager } from '../execution-manager.js';
+import type { TaskUsage } from '../types/execution.js';
+import { defineTool } from '../tool-registry.js';
+import { currentTaskUsage, sumUsage, toUsageSummary, type UsageSummary } from '../usage.js';
+
+export const GetUsageReportSchema = z.object({
+  agent_id: z
+    .string()
+    .optional()
+    .describe('Only report usage for this agent (default: all agents)'),
+  since: z
+    .number()
+    .optional()
+    .describe('Only include tasks created at or after this Unix timestamp in milliseconds'),
+});
+
+export type GetUsageReportParams = z.infer<typeof GetUsageReportSchema>;
+
+export interface UsageReportDependencies {
+  registry: TaskRegistry;
+  execution?: ExecutionManager;
+}
+
+interface AgentUsageReport {
+  agent_id: string;
+  task_count: number;
+  usage: UsageSummary;
+}
+
+export async function getUsageReport(
+  params: GetUsageReportParams,
+  deps: UsageReportDependencies
+): Promise<{
+  generated_at: number;
+  since?: number;
+  agents: AgentUsageReport[];
+  totals: { task_count: number; usage: UsageSummary };
+}> {
+  const tasks = (
+    params.agent_id ? deps.registry.findTasksByAgent(params.agent_id) : deps.registry.getAllTasks()
+  ).filter((task) => params.since === undefined || task.createdAt >= params.since);
+
+  const byAgent = new Map<string, { taskCount: number; usages: TaskUsage[] }>();
+  for (const task of tasks) {
+    const usage = currentTaskUsage(task, deps.execution?.getTaskUsage(task.taskId));
+    const entry = byAgent.get(task.agentId) ?? { taskCount: 0, usages: [] };
+    entry.taskCount++;
+    if (usage) {
+      entry.usages.push(usage);
+    }
+    byAgent.set(task.agentId, entry);
+  }
+
+  const agents = Array.from(byAgent.entries())
+    .map(([agentId, entry]) => ({
+      agent_id: agentId,
+      task_count: entry.taskCount,
+      usage: toUsageSummary(sumUsage(entry.usages)),
+    }))
+    .sort((a, b) => b.usage.cost - a.usage.cost);
+
+  return {
+    generated_at: Date.now(),
+    since: params.since,
+    agents,
+    totals: {
+      task_count: tasks.length,
+      usage: toUsageSummary(sumUsage(Array.from(byAgent.values()).flatMap((e) => e.usages))),
+    },
+  };
+}
+
+export const getUsageReportTool = defineTool({
+  name: 'get_usage_report',
+  description:
+    'Report token usage and cost of delegated tasks, aggregated per agent. ' +
+    'Covers tasks still held by the task registry, including running ones.',
+  schema: GetUsageReportSchema,
+  handler: getUsageReport,
+});
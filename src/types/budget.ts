@@ -0,0 +1,22 @@
+export interface AgentBudget {
+  maxConcurrentTasks?: number;
+  maxTasksPerHour?: number;
+  /** Spend cap in USD over the trailing 24 hours. */
+  maxDailySpend?: number;
+}
+
+export interface BudgetConfig {
+  defaults: AgentBudget;
+  /** Per-agent overrides, merged over `defaults`. */
+  agents?: Record<string, AgentBudget>;
+}
+
+export type BudgetLimit = 'max_concurrent_tasks' | 'max_tasks_per_hour' | 'max_daily_spend';
+
+export interface BudgetViolation {
+  agentId: string;
+  limit: BudgetLimit;
+  current: number;
+  max: number;
+  message: string;
+}
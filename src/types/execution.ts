@@ -7,6 +7,22 @@ export interface ExecutionConfig {
   openCodeServerUrl?: string;
   openCodeServerEnabled?: boolean;
   workspaceDir?: string;
+  defaultModel?: ModelSelection;
+  /** `provider/model` or `provider/*` entries; empty allows any model. */
+  allowedModels?: string[];
+  /** Run tasks in git repositories on their own worktree and branch (default: true). */
+  gitIsolation?: boolean;
+  /** Directory holding task worktrees (default: `<workspaceDir>/.opencode-worktrees`). */
+  gitWorktreeDir?: string;
+  /** Failed OpenCode event stream reconnects tolerated before running tasks fail (default: 5). */
+  eventStreamMaxReconnects?: number;
+  /** How long a finished task's OpenCode session is kept for continue_task (default: 0). */
+  sessionRetentionMs?: number;
+}
+
+export interface ModelSelection {
+  providerId: string;
+  modelId: string;
 }
 
 export interface ExecutionRequest {
@@ -15,6 +31,21 @@ export interface ExecutionRequest {
   prompt: string;
   workspaceBlockId: string;
   timeout?: number;
+  model?: ModelSelection;
+  /** Absolute directory the task runs in; defaults to a per-task directory. */
+  workingDir?: string;
+  /**
+   * OpenCode server only: keep the session open when the attempt does not
+   * succeed so a retry can continue it.
+   */
+  retainSession?: boolean;
+  /**
+   * Continue the session an earlier run of the task kept open with this prompt
+   * instead of `prompt`. Without a kept session `prompt` starts a new one.
+   */
+  continuePrompt?: string;
+  /** Branch a new task branch starts from instead of HEAD, when it exists. */
+  baseBranch?: string;
 }
 
 export interface ExecutionResult {
@@ -26,6 +57,54 @@ export interface ExecutionResult {
   startedAt: number;
   completedAt: number;
   durationMs: number;
+  git?: TaskGitChanges;
+  /** Latest per-file diff reported by the OpenCode session. */
+  sessionDiff?: SessionFileDiff[];
+  usage?: TaskUsage;
+}
+
+export interface TaskUsage {
+  inputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  /** Cost in USD as reported by OpenCode. */
+  cost: number;
+}
+
+export interface GitCommitSummary {
+  sha: string;
+  subject: string;
+}
+
+export interface GitFileStat {
+  path: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface TaskGitChanges {
+  branch: string;
+  baseCommit: string;
+  commits: GitCommitSummary[];
+  files: GitFileStat[];
+  diff: string;
+}
+
+export interface SessionFileDiff {
+  path: string;
+  before: string;
+  after: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface UnifiedFileDiff {
+  path: string;
+  diff: string;
+  additions: number;
+  deletions: number;
 }
 
 export interface ContainerInfo {
@@ -34,4 +113,7 @@ export interface ContainerInfo {
   startedAt: number;
   sessionId?: string;
   serverUrl?: string;
+  model?: ModelSelection;
 }
+
+export type SessionMessageDelivery = 'delivered' | 'queued' | 'not_delivered';
@@ -1,9 +1,12 @@
+import type { ModelSelection } from './execution.js';
+
 export interface OpenCodeServerConfig {
   enabled: boolean;
   serverUrl: string;
   healthCheckIntervalMs: number;
   maxRetries: number;
   retryDelayMs: number;
+  defaultModel?: ModelSelection;
 }
 
 export interface OpenCodeSession {
@@ -12,6 +15,7 @@ export interface OpenCodeSession {
   agentId: string;
   startedAt: number;
   status: 'active' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  directory?: string;
 }
 
 export interface OpenCodeEvent {
@@ -21,8 +25,6 @@ export interface OpenCodeEvent {
     | 'error'
     | 'tool_call'
     | 'file_change'
-    | 'complete'
-    | 'abort'
     | 'message.updated'
     | 'message.part.updated'
     | 'message.removed'
@@ -45,6 +47,14 @@ export interface OpenCodeEvent {
   data: unknown;
 }
 
+/** An interval during which the shared event stream was disconnected. */
+export interface EventStreamGap {
+  disconnectedAt: number;
+  reconnectedAt: number;
+  /** Failed reconnect attempts before the stream came back. */
+  reconnects: number;
+}
+
 export interface FileOperation {
   path: string;
   type: 'create' | 'modify' | 'delete' | 'read';
@@ -58,3 +68,19 @@ export interface SessionInfo {
   output: string;
   error?: string;
 }
+
+export type SessionPhase =
+  | 'pending'
+  | 'busy'
+  | 'retrying'
+  | 'paused'
+  | 'awaiting_busy'
+  | 'idle'
+  | 'errored'
+  | 'timed_out'
+  | 'disconnected';
+
+export interface SessionOutcome {
+  status: 'success' | 'error' | 'timeout';
+  error?: string;
+}
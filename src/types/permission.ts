@@ -0,0 +1,32 @@
+/** OpenCode's answers to a permission request. */
+export type PermissionDecision = 'once' | 'always' | 'reject';
+
+export type PermissionDecisionSource = 'tool' | 'matrix' | 'timeout';
+
+export interface PermissionGateConfig {
+  /** How long a request waits for an answer before `defaultDecision` is applied. */
+  timeoutMs: number;
+  defaultDecision: PermissionDecision;
+}
+
+/** A tool call OpenCode is holding until someone approves or rejects it. */
+export interface PendingPermission {
+  permissionId: string;
+  taskId: string;
+  agentId: string;
+  sessionId: string;
+  /** Kind of tool asking, e.g. bash or edit. */
+  type: string;
+  title: string;
+  pattern?: string | string[];
+  requestedAt: number;
+  expiresAt: number;
+}
+
+export interface PermissionResolution {
+  permission: PendingPermission;
+  decision: PermissionDecision;
+  source: PermissionDecisionSource;
+  /** Matrix user who answered, for replies from a task room. */
+  decidedBy?: string;
+}
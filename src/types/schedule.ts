@@ -0,0 +1,38 @@
+import type { TaskPriority } from './task.js';
+
+/** The opencode_execute_task arguments a schedule submits on every run. */
+export interface ScheduledTaskRequest {
+  agent_id: string;
+  task_description: string;
+  timeout_ms?: number;
+  priority?: TaskPriority;
+  model?: { provider_id: string; model_id: string };
+  workspace_path?: string;
+  callback_url?: string;
+}
+
+export interface ScheduledTask {
+  scheduleId: string;
+  /** Five-field UTC cron expression for recurring schedules. */
+  cron?: string;
+  /** Unix ms of the single run of a one-shot schedule. */
+  runAt?: number;
+  request: ScheduledTaskRequest;
+  createdAt: number;
+  /** Unset once a one-shot schedule has run. */
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastTaskId?: string;
+  /** Why the last run could not be submitted, e.g. a full queue or exhausted budget. */
+  lastError?: string;
+  runCount: number;
+}
+
+export interface ScheduleStore {
+  load(): ScheduledTask[];
+  save(schedules: ScheduledTask[]): void;
+}
+
+export interface TaskSchedulerConfig {
+  pollIntervalMs?: number;
+}
@@ -1,10 +1,38 @@
 import type { RoomInfo } from './matrix.js';
+import type { ModelSelection, TaskUsage } from './execution.js';
+
+export type TaskPriority = 'low' | 'normal' | 'high';
+
+/** What a task does when one of its dependencies does not complete successfully. */
+export type DependencyFailurePolicy = 'skip' | 'fail' | 'run_anyway';
 
 export interface TaskRegistryEntry {
   taskId: string;
   agentId: string;
   idempotencyKey?: string;
-  status: 'queued' | 'running' | 'completed' | 'failed' | 'timeout' | 'paused' | 'cancelled';
+  priority?: TaskPriority;
+  model?: ModelSelection;
+  workingDir?: string;
+  /** Per-task webhook endpoint notified of lifecycle transitions. */
+  callbackUrl?: string;
+  /** Tasks that must finish before this one is queued. */
+  dependsOn?: string[];
+  onDependencyFailure?: DependencyFailurePolicy;
+  /** Batch the task was submitted with through opencode_execute_batch. */
+  batchId?: string;
+  /** Schedule that submitted this run through opencode_schedule_task. */
+  scheduleId?: string;
+  /** Task whose session this task was forked from through fork_task. */
+  parentTaskId?: string;
+  status:
+    | 'blocked'
+    | 'queued'
+    | 'running'
+    | 'completed'
+    | 'failed'
+    | 'timeout'
+    | 'paused'
+    | 'cancelled';
   createdAt: number;
   startedAt?: number;
   completedAt?: number;
@@ -14,9 +42,50 @@ export interface TaskRegistryEntry {
   error?: string;
   durationMs?: number;
   exitCode?: number;
+  usage?: TaskUsage;
+  /** Attempt currently running or last run when the task has a retry policy. */
+  attempts?: number;
+  /** Follow-up turns started on the finished task through continue_task. */
+  followUps?: number;
 }
 
+export type TaskRegistryDetails = Partial<
+  Pick<
+    TaskRegistryEntry,
+    | 'priority'
+    | 'model'
+    | 'workingDir'
+    | 'callbackUrl'
+    | 'dependsOn'
+    | 'onDependencyFailure'
+    | 'batchId'
+    | 'scheduleId'
+    | 'parentTaskId'
+  >
+>;
+
 export interface TaskQueueConfig {
   maxConcurrentTasks: number;
   idempotencyWindowMs: number;
+  maxQueuedTasks?: number;
+}
+
+export interface TaskStore {
+  load(): TaskRegistryEntry[];
+  save(entry: TaskRegistryEntry): void;
+  delete(taskId: string): void;
+}
+
+export type TaskLogEntryType = 'tool_call' | 'file_edit' | 'message' | 'usage' | 'diff' | 'error';
+
+export interface TaskLogEntry {
+  timestamp: number;
+  type: TaskLogEntryType;
+  message: string;
+  data: Record<string, unknown>;
+}
+
+export interface TaskEventLogConfig {
+  maxEntriesPerTask?: number;
+  maxTasks?: number;
 }
@@ -0,0 +1,37 @@
+import type { z, ZodTypeAny } from 'zod';
+import type { LettaClient } from '../letta-client.js';
+import type { WorkspaceManager } from '../workspace-manager.js';
+import type { ExecutionManager } from '../execution-manager.js';
+import type { TaskRegistry } from '../task-registry.js';
+import type { TaskQueue } from '../task-queue.js';
+import type { ControlSignalHandler } from '../control-signal-handler.js';
+import type { MatrixRoomManager } from '../matrix-room-manager.js';
+import type { TaskEventLog } from '../task-event-log.js';
+import type { BudgetManager } from '../budget-manager.js';
+import type { WebhookNotifier } from '../webhook-notifier.js';
+import type { TaskScheduler } from '../task-scheduler.js';
+import type { PermissionGate } from '../permission-gate.js';
+
+export interface ToolDependencies {
+  letta: LettaClient;
+  workspace: WorkspaceManager;
+  execution: ExecutionManager;
+  registry: TaskRegistry;
+  queue: TaskQueue;
+  eventLog: TaskEventLog;
+  budget: BudgetManager;
+  webhooks: WebhookNotifier;
+  scheduler: TaskScheduler;
+  controlHandler: ControlSignalHandler;
+  permissions: PermissionGate;
+  matrix: MatrixRoomManager | null;
+}
+
+export interface ToolDefinition<S extends ZodTypeAny = ZodTypeAny> {
+  name: string;
+  description: string;
+  schema: S;
+  /** Dependencies that must be configured for the tool to be listed and callable. */
+  requiredDeps?: Array<keyof ToolDependencies>;
+  handler(params: z.infer<S>, deps: ToolDependencies): Promise<unknown>;
+}
@@ -0,0 +1,30 @@
+export type WebhookEvent = 'queued' | 'started' | 'completed' | 'failed' | 'timeout' | 'cancelled';
+
+export interface WebhookConfig {
+  /** Endpoints notified about every task, in addition to each task's own `callback_url`. */
+  urls: string[];
+  /** Shared secret used to sign payloads with HMAC-SHA256. */
+  secret?: string;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  timeoutMs?: number;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: `task.${WebhookEvent}`;
+  timestamp: number;
+  task: {
+    task_id: string;
+    agent_id: string;
+    status: string;
+    workspace_block_id?: string;
+    created_at: number;
+    started_at?: number;
+    completed_at?: number;
+    duration_ms?: number;
+    exit_code?: number;
+    output?: string;
+    error?: string;
+  };
+}
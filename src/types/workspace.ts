@@ -2,7 +2,15 @@ export interface WorkspaceBlock {
   version: string;
   task_id: string;
   agent_id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed' | 'timeout' | 'paused' | 'cancelled';
+  status:
+    | 'pending'
+    | 'blocked'
+    | 'running'
+    | 'completed'
+    | 'failed'
+    | 'timeout'
+    | 'paused'
+    | 'cancelled';
   created_at: number;
   updated_at: number;
   events: WorkspaceEvent[];
@@ -22,7 +30,11 @@ export type WorkspaceEventType =
   | 'task_control'
   | 'task_message'
   | 'task_feedback'
-  | 'task_runtime_update';
+  | 'task_runtime_update'
+  | 'task_retry'
+  | 'task_follow_up'
+  | 'task_permission'
+  | 'task_webhook';
 
 export interface WorkspaceEvent {
   timestamp: number;
@@ -33,7 +45,7 @@ export interface WorkspaceEvent {
 
 export interface WorkspaceArtifact {
   timestamp: number;
-  type: 'file' | 'output' | 'error' | 'log';
+  type: 'file' | 'output' | 'error' | 'log' | 'diff';
   name: string;
   content: string;
   metadata?: Record<string, unknown>;
@@ -0,0 +1,103 @@
+import type { TaskUsage } from './types/execution.js';
+import type { TaskRegistryEntry } from './types/task.js';
+
+export type UsageSummary = {
+  input_tokens: number;
+  output_tokens: number;
+  reasoning_tokens: number;
+  cache_read_tokens: number;
+  cache_write_tokens: number;
+  cost: number;
+};
+
+export function emptyUsage(): TaskUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: 0,
+  };
+}
+
+export function sumUsage(usages: Iterable<TaskUsage>): TaskUsage {
+  const total = emptyUsage();
+  for (const usage of usages) {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.reasoningTokens += usage.reasoningTokens;
+    total.cacheReadTokens += usage.cacheReadTokens;
+    total.cacheWriteTokens += usage.cacheWriteTokens;
+    total.cost += usage.cost;
+  }
+  return total;
+}
+
+/**
+ * Usage of `task` so far, given what its live run has used. While a retry
+ * attempt or follow-up turn runs, the registry entry holds the total of the
+ * earlier attempts and turns, and the live figures add to it.
+ */
+export function currentTaskUsage(
+  task: TaskRegistryEntry,
+  liveUsage: TaskUsage | undefined
+): TaskUsage | undefined {
+  if (liveUsage && task.usage && ((task.attempts ?? 1) > 1 || task.followUps)) {
+    return sumUsage([task.usage, liveUsage]);
+  }
+  return liveUsage ?? task.usage;
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Token and cost figures of an assistant message from a `message.updated`
+ * payload. OpenCode re-sends the message as it streams, each time with its
+ * running totals, so callers should keep the latest figures per message id.
+ */
+export function parseMessageUsage(
+  data: unknown
+): { messageId: string; usage: TaskUsage } | undefined {
+  const info = (data as Record<string, unknown> | undefined)?.info as
+    | Record<string, unknown>
+    | undefined;
+  if (info?.role !== 'assistant' || typeof info.id !== 'string') {
+    return undefined;
+  }
+
+  const tokens = (info.tokens ?? {}) as Record<string, unknown>;
+  const cache = (tokens.cache ?? {}) as Record<string, unknown>;
+  return {
+    messageId: info.id,
+    usage: {
+      inputTokens: asNumber(tokens.input),
+      outputTokens: asNumber(tokens.output),
+      reasoningTokens: asNumber(tokens.reasoning),
+      cacheReadTokens: asNumber(cache.read),
+      cacheWriteTokens: asNumber(cache.write),
+      cost: asNumber(info.cost),
+    },
+  };
+}
+
+export function toUsageSummary(usage: TaskUsage): UsageSummary {
+  return {
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    reasoning_tokens: usage.reasoningTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    cache_write_tokens: usage.cacheWriteTokens,
+    cost: usage.cost,
+  };
+}
+
+export function formatUsage(usage: TaskUsage): string {
+  return (
+    `${usage.inputTokens} input / ${usage.outputTokens} output tokens ` +
+    `(${usage.cacheReadTokens} cache read, ${usage.cacheWriteTokens} cache write), ` +
+    `$${usage.cost.toFixed(4)}`
+  );
+}
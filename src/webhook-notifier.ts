@@ -0,0 +1,181 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import type { WorkspaceManager } from './workspace-manager.js';
+import type { TaskRegistryEntry } from './types/task.js';
+import type { WebhookConfig, WebhookEvent, WebhookPayload } from './types/webhook.js';
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10000;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Posts task lifecycle transitions to the server-wide webhook endpoints and to
+ * the task's own `callback_url`. Deliveries run in the background, are retried
+ * with exponential backoff, and every attempt is recorded in the task's
+ * workspace block.
+ */
+export class WebhookNotifier {
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+  private timeoutMs: number;
+
+  constructor(
+    private config: WebhookConfig,
+    private workspace: WorkspaceManager
+  ) {
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBaseDelayMs = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /** Whether deliveries carry an HMAC signature, which a task's `callback_url` requires. */
+  signsPayloads(): boolean {
+    return Boolean(this.config.secret);
+  }
+
+  getUrls(task: TaskRegistryEntry): string[] {
+    const urls = task.callbackUrl ? [...this.config.urls, task.callbackUrl] : this.config.urls;
+    return Array.from(new Set(urls));
+  }
+
+  /** Deliver `event` for `task` to every configured endpoint. Never rejects. */
+  async notify(task: TaskRegistryEntry, event: WebhookEvent): Promise<void> {
+    const urls = this.getUrls(task);
+    if (urls.length === 0) {
+      return;
+    }
+
+    const payload = this.buildPayload(task, event);
+    await Promise.all(urls.map((url) => this.deliver(task, url, payload)));
+  }
+
+  private buildPayload(task: TaskRegistryEntry, event: WebhookEvent): WebhookPayload {
+    return {
+      id: randomUUID(),
+      event: `task.${event}`,
+      timestamp: Date.now(),
+      task: {
+        task_id: task.taskId,
+        agent_id: task.agentId,
+        status: task.status,
+        workspace_block_id: task.workspaceBlockId,
+        created_at: task.createdAt,
+        started_at: task.startedAt,
+        completed_at: task.completedAt,
+        duration_ms: task.durationMs,
+        exit_code: task.exitCode,
+        output: task.output,
+        error: task.error,
+      },
+    };
+  }
+
+  private async deliver(
+    task: TaskRegistryEntry,
+    url: string,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const body = JSON.stringify(payload);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': payload.event,
+      'X-Webhook-Delivery': payload.id,
+    };
+    if (this.config.secret) {
+      headers[SIGNATURE_HEADER] = signPayload(body, this.config.secret);
+    }
+
+    const attempts = this.maxRetries + 1;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      let error: string;
+      let retryable = true;
+      let statusCode: number | undefined;
+
+      try {
+        const response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        statusCode = response.status;
+        if (response.ok) {
+          await this.recordAttempt(task, payload, url, attempt, { delivered: true, statusCode });
+          return;
+        }
+        error = `HTTP ${response.status}`;
+        retryable = isRetryableStatus(response.status);
+      } catch (fetchError) {
+        error = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      }
+
+      const willRetry = retryable && attempt < attempts;
+      await this.recordAttempt(task, payload, url, attempt, {
+        delivered: false,
+        statusCode,
+        error,
+        willRetry,
+      });
+      if (!willRetry) {
+        console.error(
+          `[webhook] Giving up on ${payload.event} for task ${task.taskId} to ${url}: ${error}`
+        );
+        return;
+      }
+
+      await sleep(this.retryBaseDelayMs * 2 ** (attempt - 1));
+    }
+  }
+
+  private async recordAttempt(
+    task: TaskRegistryEntry,
+    payload: WebhookPayload,
+    url: string,
+    attempt: number,
+    outcome: { delivered: boolean; statusCode?: number; error?: string; willRetry?: boolean }
+  ): Promise<void> {
+    if (!task.workspaceBlockId) {
+      return;
+    }
+
+    const message = outcome.delivered
+      ? `Webhook ${payload.event} delivered to ${url}`
+      : `Webhook ${payload.event} to ${url} failed (attempt ${attempt}): ${outcome.error}`;
+
+    try {
+      await this.workspace.updateWorkspace(task.agentId, task.workspaceBlockId, {
+        events: [
+          {
+            timestamp: Date.now(),
+            type: 'task_webhook',
+            message,
+            data: {
+              delivery_id: payload.id,
+              event: payload.event,
+              url,
+              attempt,
+              delivered: outcome.delivered,
+              status_code: outcome.statusCode,
+              will_retry: outcome.willRetry,
+            },
+          },
+        ],
+      });
+    } catch (error) {
+      console.error(`Failed to record webhook delivery for task ${task.taskId}:`, error);
+    }
+  }
+}
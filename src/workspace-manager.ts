@@ -200,6 +200,15 @@ export class WorkspaceManager {
     return null;
   }
 
+  /** Attach a task's block again, e.g. for a follow-up turn after it was detached. */
+  async attachWorkspaceBlock(agentId: string, blockId: string): Promise<void> {
+    const blocks = await this.letta.listMemoryBlocks(agentId);
+    if (blocks.some((block) => block.id === blockId)) {
+      return;
+    }
+    await this.letta.attachMemoryBlock(agentId, { block_id: blockId });
+  }
+
   async detachWorkspaceBlock(agentId: string, blockId: string): Promise<void> {
     try {
       await this.letta.detachMemoryBlock(agentId, blockId);
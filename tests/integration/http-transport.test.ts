@@ -44,6 +44,15 @@ describe('HTTP Transport Simple Test', () => {
     expect(data.status).toBe('healthy');
   });
 
+  it('should expose Prometheus metrics', async () => {
+    const response = await fetch(`http://127.0.0.1:${serverPort}/metrics`);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    const body = await response.text();
+    expect(body).toContain('letta_opencode_mcp_sessions');
+    expect(body).toContain('letta_opencode_mcp_event_store_events');
+  });
+
   it('should initialize session', async () => {
     try {
       const response = await fetch(`http://127.0.0.1:${serverPort}/mcp`, {
@@ -0,0 +1,133 @@
+import { executeBatch, getBatchStatus } from '../../src/tools/batch-tools.js';
+import type { ExecuteTaskDependencies } from '../../src/tools/execute-task.js';
+import { TaskRegistry } from '../../src/task-registry.js';
+import { TaskQueue } from '../../src/task-queue.js';
+import type { LettaClient } from '../../src/letta-client.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+import type { ExecutionRequest, ExecutionResult } from '../../src/types/execution.js';
+
+const defaultModel = { providerId: 'anthropic', modelId: 'claude-sonnet-4-5-20250929' };
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('batch tools', () => {
+  let registry: TaskRegistry;
+  let mockLetta: jest.Mocked<LettaClient>;
+  let mockExecution: jest.Mocked<ExecutionManager>;
+  let deps: ExecuteTaskDependencies;
+  let finishTask: Map<string, (result: Partial<ExecutionResult>) => void>;
+
+  beforeEach(() => {
+    // Keep the registry's hourly cleanup interval off the real clock
+    jest.useFakeTimers();
+    registry = new TaskRegistry({ maxConcurrentTasks: 10, idempotencyWindowMs: 60000 });
+    jest.useRealTimers();
+
+    finishTask = new Map();
+    mockLetta = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<LettaClient>;
+    mockExecution = {
+      execute: jest.fn(
+        (request: ExecutionRequest) =>
+          new Promise<ExecutionResult>((resolve) => {
+            finishTask.set(request.prompt, (result) =>
+              resolve({
+                taskId: request.taskId,
+                status: 'success',
+                output: '',
+                startedAt: Date.now(),
+                completedAt: Date.now(),
+                durationMs: 1000,
+                ...result,
+              })
+            );
+          })
+      ),
+      resolveModel: jest.fn(() => defaultModel),
+      resolveWorkingDir: jest.fn(),
+    } as unknown as jest.Mocked<ExecutionManager>;
+
+    deps = {
+      letta: mockLetta,
+      workspace: {
+        createWorkspaceBlock: jest.fn().mockResolvedValue({ blockId: 'block-123', workspace: {} }),
+        updateWorkspace: jest.fn().mockResolvedValue({}),
+        detachWorkspaceBlock: jest.fn().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<WorkspaceManager>,
+      execution: mockExecution,
+      registry,
+      queue: new TaskQueue({ maxConcurrentTasks: 2, maxQueuedTasks: 1 }),
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  describe('executeBatch', () => {
+    it('should reject a batch that does not fit in the queue', async () => {
+      const result = await executeBatch({ agent_id: 'agent-1', tasks: ['a', 'b', 'c', 'd'] }, deps);
+
+      expect(result).toMatchObject({ code: 'QUEUE_FULL', status: 429 });
+      expect(registry.getAllTasks()).toHaveLength(0);
+    });
+
+    it('should send one combined alert once every task in the batch has finished', async () => {
+      const result = await executeBatch(
+        { agent_id: 'agent-1', tasks: ['Write docs', 'Fix lint'], priority: 'high' },
+        deps
+      );
+      await flush();
+
+      expect(result.status).toBe('running');
+      const batchTasks = registry.findTasksByBatch(result.batch_id as string);
+      expect(batchTasks).toHaveLength(2);
+      expect(batchTasks.every((task) => task.priority === 'high')).toBe(true);
+
+      finishTask.get('Write docs')!({ output: 'Docs written' });
+      await flush();
+      expect(mockLetta.sendMessage).not.toHaveBeenCalled();
+
+      finishTask.get('Fix lint')!({ status: 'error', error: 'Lint still failing' });
+      await flush();
+
+      expect(mockLetta.sendMessage).toHaveBeenCalledTimes(1);
+      const alert = JSON.parse(mockLetta.sendMessage.mock.calls[0][1].content as string);
+      expect(alert.type).toBe('system_alert');
+      expect(alert.message).toContain('OpenCode Batch Finished (partial)');
+      expect(alert.message).toContain('Tasks: 2 (completed: 1, failed: 1)');
+      expect(alert.message).toContain('Description: Write docs\nOutput:\nDocs written');
+      expect(alert.message).toContain('Error: Lint still failing');
+    });
+  });
+
+  describe('getBatchStatus', () => {
+    it('should aggregate status, duration and outputs of the batch tasks', async () => {
+      registry.register('task-1', 'agent-1', undefined, { batchId: 'batch-1' });
+      registry.register('task-2', 'agent-1', undefined, { batchId: 'batch-1' });
+      registry.register('task-3', 'agent-1');
+      registry.updateStatus('task-1', 'completed', { output: 'Done', durationMs: 500 });
+
+      const running = await getBatchStatus({ batch_id: 'batch-1' }, { registry });
+      expect(running.status).toBe('running');
+      expect(running.duration_ms).toBeUndefined();
+      expect(running.counts).toEqual({ completed: 1, queued: 1 });
+
+      registry.updateStatus('task-2', 'completed', { output: 'Also done' });
+      const finished = await getBatchStatus({ batch_id: 'batch-1' }, { registry });
+      expect(finished.status).toBe('completed');
+      expect(finished.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(finished.tasks).toEqual([
+        expect.objectContaining({ task_id: 'task-1', output: 'Done', duration_ms: 500 }),
+        expect.objectContaining({ task_id: 'task-2', output: 'Also done' }),
+      ]);
+    });
+
+    it('should throw for an unknown batch', async () => {
+      await expect(getBatchStatus({ batch_id: 'missing' }, { registry })).rejects.toThrow(
+        'Batch missing not found'
+      );
+    });
+  });
+});
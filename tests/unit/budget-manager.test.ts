@@ -0,0 +1,144 @@
+import { BudgetManager, parseAgentBudgets } from '../../src/budget-manager.js';
+import type { TaskRegistry } from '../../src/task-registry.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+import type { TaskRegistryEntry } from '../../src/types/task.js';
+
+const NOW = 10 * 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+function task(overrides: Partial<TaskRegistryEntry>): TaskRegistryEntry {
+  return {
+    taskId: `task-${Math.random()}`,
+    agentId: 'agent-a',
+    status: 'completed',
+    createdAt: NOW - 2 * HOUR,
+    ...overrides,
+  };
+}
+
+function cost(value: number): TaskRegistryEntry['usage'] {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost: value,
+  };
+}
+
+describe('BudgetManager', () => {
+  let tasks: TaskRegistryEntry[];
+  let mockRegistry: jest.Mocked<TaskRegistry>;
+
+  beforeEach(() => {
+    tasks = [];
+    mockRegistry = {
+      findTasksByAgent: jest.fn((agentId: string) => tasks.filter((t) => t.agentId === agentId)),
+    } as unknown as jest.Mocked<TaskRegistry>;
+  });
+
+  it('should allow everything when no limits are configured', () => {
+    tasks = [task({ status: 'running' }), task({ usage: cost(100) })];
+    const budget = new BudgetManager({ defaults: {} }, mockRegistry);
+
+    expect(budget.checkSubmission('agent-a', NOW)).toBeUndefined();
+  });
+
+  it('should limit concurrent tasks per agent', () => {
+    tasks = [
+      task({ status: 'running' }),
+      task({ status: 'queued' }),
+      task({ agentId: 'agent-b', status: 'running' }),
+    ];
+    const budget = new BudgetManager({ defaults: { maxConcurrentTasks: 2 } }, mockRegistry);
+
+    expect(budget.checkSubmission('agent-a', NOW)).toMatchObject({
+      agentId: 'agent-a',
+      limit: 'max_concurrent_tasks',
+      current: 2,
+      max: 2,
+    });
+    expect(budget.checkSubmission('agent-b', NOW)).toBeUndefined();
+  });
+
+  it('should limit tasks submitted in the last hour', () => {
+    tasks = [task({ createdAt: NOW - 10 * 60 * 1000 }), task({ createdAt: NOW - 2 * HOUR })];
+    const budget = new BudgetManager({ defaults: { maxTasksPerHour: 1 } }, mockRegistry);
+
+    expect(budget.checkSubmission('agent-a', NOW)?.limit).toBe('max_tasks_per_hour');
+  });
+
+  it('should count spend from the last 24 hours, including running tasks', () => {
+    const running = task({ taskId: 'task-running', status: 'running' });
+    tasks = [
+      task({ usage: cost(3) }),
+      task({ createdAt: NOW - 25 * HOUR, usage: cost(50) }),
+      running,
+    ];
+    const mockExecution = {
+      getTaskUsage: jest.fn((taskId: string) => (taskId === 'task-running' ? cost(2) : undefined)),
+    } as unknown as ExecutionManager;
+    const budget = new BudgetManager(
+      { defaults: { maxDailySpend: 5 } },
+      mockRegistry,
+      mockExecution
+    );
+
+    expect(budget.getDailySpend('agent-a', NOW)).toBe(5);
+    expect(budget.checkSpend('agent-a', NOW)).toMatchObject({
+      limit: 'max_daily_spend',
+      message: 'Agent agent-a reached its max_daily_spend budget ($5.00 of $5.00)',
+    });
+  });
+
+  it('should count earlier attempts and turns of a task that is running again', () => {
+    tasks = [
+      task({ taskId: 'task-retry', status: 'running', attempts: 2, usage: cost(3) }),
+      task({ taskId: 'task-follow-up', status: 'running', followUps: 1, usage: cost(4) }),
+    ];
+    const mockExecution = {
+      getTaskUsage: jest.fn().mockReturnValue(cost(1)),
+    } as unknown as ExecutionManager;
+    const budget = new BudgetManager({ defaults: {} }, mockRegistry, mockExecution);
+
+    expect(budget.getDailySpend('agent-a', NOW)).toBe(9);
+  });
+
+  it('should apply per-agent overrides over the defaults', () => {
+    tasks = [task({ status: 'running' })];
+    const budget = new BudgetManager(
+      { defaults: { maxConcurrentTasks: 1 }, agents: { 'agent-a': { maxConcurrentTasks: 3 } } },
+      mockRegistry
+    );
+
+    expect(budget.getBudget('agent-a')).toEqual({ maxConcurrentTasks: 3 });
+    expect(budget.checkSubmission('agent-a', NOW)).toBeUndefined();
+  });
+});
+
+describe('parseAgentBudgets', () => {
+  it('should parse per-agent overrides and treat an unset value as none', () => {
+    expect(
+      parseAgentBudgets('{"agent-a": {"maxDailySpend": 20, "maxConcurrentTasks": 5}}')
+    ).toEqual({ 'agent-a': { maxDailySpend: 20, maxConcurrentTasks: 5 } });
+    expect(parseAgentBudgets(undefined)).toEqual({});
+    expect(parseAgentBudgets('')).toEqual({});
+  });
+
+  it('should report malformed JSON as a configuration error', () => {
+    expect(() => parseAgentBudgets('{agent-a: 1}')).toThrow(
+      'Invalid AGENT_BUDGETS: not valid JSON'
+    );
+  });
+
+  it('should reject overrides of the wrong shape', () => {
+    expect(() => parseAgentBudgets('{"agent-a": {"maxDailySpend": "20"}}')).toThrow(
+      'Invalid AGENT_BUDGETS: agent-a.maxDailySpend: Expected number, received string'
+    );
+    expect(() => parseAgentBudgets('{"agent-a": {"dailySpend": 20}}')).toThrow(
+      "Invalid AGENT_BUDGETS: agent-a: Unrecognized key(s) in object: 'dailySpend'"
+    );
+    expect(() => parseAgentBudgets('[]')).toThrow('Invalid AGENT_BUDGETS: (root)');
+  });
+});
@@ -0,0 +1,172 @@
+import { continueTask } from '../../src/tools/continue-task.js';
+import type { ExecuteTaskDependencies } from '../../src/tools/execute-task.js';
+import { TaskRegistry } from '../../src/task-registry.js';
+import { TaskQueue } from '../../src/task-queue.js';
+import type { LettaClient } from '../../src/letta-client.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+import type { WebhookNotifier } from '../../src/webhook-notifier.js';
+
+const defaultModel = { providerId: 'anthropic', modelId: 'claude-sonnet-4-5-20250929' };
+const usage = {
+  inputTokens: 100,
+  outputTokens: 10,
+  reasoningTokens: 0,
+  cacheReadTokens: 0,
+  cacheWriteTokens: 0,
+  cost: 0.01,
+};
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('continueTask', () => {
+  let registry: TaskRegistry;
+  let mockLetta: jest.Mocked<LettaClient>;
+  let mockWorkspace: jest.Mocked<WorkspaceManager>;
+  let mockExecution: jest.Mocked<ExecutionManager>;
+  let deps: ExecuteTaskDependencies;
+
+  beforeEach(() => {
+    // Keep the registry's hourly cleanup interval off the real clock
+    jest.useFakeTimers();
+    registry = new TaskRegistry({ maxConcurrentTasks: 10, idempotencyWindowMs: 60000 });
+    jest.useRealTimers();
+
+    registry.register('task-1', 'agent-1', undefined, { model: defaultModel, workingDir: '/repo' });
+    registry.updateStatus('task-1', 'running', { workspaceBlockId: 'block-1' });
+    registry.updateStatus('task-1', 'completed', { output: 'Parser added', usage });
+
+    mockLetta = {
+      sendMessage: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<LettaClient>;
+    mockWorkspace = {
+      attachWorkspaceBlock: jest.fn().mockResolvedValue(undefined),
+      getWorkspace: jest.fn().mockResolvedValue({
+        metadata: { task_description: 'Add a parser' },
+      }),
+      updateWorkspace: jest.fn().mockResolvedValue({}),
+      detachWorkspaceBlock: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<WorkspaceManager>;
+    mockExecution = {
+      execute: jest.fn().mockResolvedValue({
+        taskId: 'task-1',
+        status: 'success',
+        output: 'Tests added',
+        startedAt: Date.now(),
+        completedAt: Date.now(),
+        durationMs: 1000,
+        usage,
+      }),
+      hasRetainedSession: jest.fn().mockReturnValue(true),
+    } as unknown as jest.Mocked<ExecutionManager>;
+
+    deps = {
+      letta: mockLetta,
+      workspace: mockWorkspace,
+      execution: mockExecution,
+      registry,
+      queue: new TaskQueue({ maxConcurrentTasks: 2, maxQueuedTasks: 2 }),
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should run the follow-up in the retained session on the same task and block', async () => {
+    const result = await continueTask({ task_id: 'task-1', prompt: 'Now add tests' }, deps);
+
+    expect(result).toMatchObject({
+      task_id: 'task-1',
+      status: 'queued',
+      workspace_block_id: 'block-1',
+      follow_ups: 1,
+    });
+    expect(mockWorkspace.attachWorkspaceBlock).toHaveBeenCalledWith('agent-1', 'block-1');
+    expect(mockWorkspace.updateWorkspace).toHaveBeenCalledWith('agent-1', 'block-1', {
+      events: [expect.objectContaining({ type: 'task_follow_up', message: 'Now add tests' })],
+    });
+
+    await flush();
+
+    expect(mockExecution.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskId: 'task-1',
+        workingDir: '/repo',
+        model: defaultModel,
+        prompt: 'Add a parser\n\n## Follow-up\nNow add tests',
+        continuePrompt: 'Now add tests',
+      }),
+      expect.any(Function)
+    );
+    expect(registry.getTask('task-1')).toMatchObject({
+      status: 'completed',
+      output: 'Tests added',
+      followUps: 1,
+      usage: expect.objectContaining({ inputTokens: 200, cost: 0.02 }),
+    });
+    expect(mockLetta.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run only one of two overlapping follow-ups', async () => {
+    const results = await Promise.all([
+      continueTask({ task_id: 'task-1', prompt: 'Now add tests' }, deps),
+      continueTask({ task_id: 'task-1', prompt: 'Now add docs' }, deps),
+    ]);
+
+    expect(results[0]).toMatchObject({ status: 'queued', follow_ups: 1 });
+    expect(results[1]).toMatchObject({ code: 'TASK_NOT_CONTINUABLE', status: 409 });
+
+    await flush();
+
+    expect(mockExecution.execute).toHaveBeenCalledTimes(1);
+    expect(registry.getTask('task-1')?.followUps).toBe(1);
+  });
+
+  it('should notify webhooks when the follow-up turn finishes', async () => {
+    const notify = jest.fn().mockResolvedValue(undefined);
+    deps.webhooks = { notify } as unknown as WebhookNotifier;
+
+    await continueTask({ task_id: 'task-1', prompt: 'Now add tests' }, deps);
+    await flush();
+
+    expect(notify.mock.calls.map(([, event]) => event)).toEqual(['queued', 'started', 'completed']);
+  });
+
+  it('should keep the workspace block attached while a later turn is paused', async () => {
+    jest.useFakeTimers();
+    await continueTask({ task_id: 'task-1', prompt: 'Now add tests' }, deps);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(registry.getTask('task-1')?.status).toBe('completed');
+
+    registry.updateStatus('task-1', 'paused');
+    await jest.advanceTimersByTimeAsync(60_000);
+    jest.useRealTimers();
+
+    expect(mockWorkspace.detachWorkspaceBlock).not.toHaveBeenCalled();
+  });
+
+  it('should reject tasks that have not finished', async () => {
+    registry.register('task-2', 'agent-1');
+    registry.updateStatus('task-2', 'running', { workspaceBlockId: 'block-2' });
+
+    const result = await continueTask({ task_id: 'task-2', prompt: 'Now add tests' }, deps);
+
+    expect(result).toMatchObject({ code: 'TASK_NOT_CONTINUABLE', status: 409 });
+    expect(mockExecution.execute).not.toHaveBeenCalled();
+  });
+
+  it('should reject tasks whose session is no longer retained', async () => {
+    mockExecution.hasRetainedSession.mockReturnValue(false);
+
+    const result = await continueTask({ task_id: 'task-1', prompt: 'Now add tests' }, deps);
+
+    expect(result).toMatchObject({ code: 'SESSION_EXPIRED', status: 410 });
+    expect(registry.getTask('task-1')?.followUps).toBeUndefined();
+  });
+
+  it('should throw for an unknown task', async () => {
+    await expect(
+      continueTask({ task_id: 'missing', prompt: 'Now add tests' }, deps)
+    ).rejects.toThrow('Task missing not found');
+  });
+});
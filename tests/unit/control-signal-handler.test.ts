@@ -7,6 +7,8 @@ import type { ExecutionManager } from '../../src/execution-manager.js';
 import type { TaskRegistry } from '../../src/task-registry.js';
 import type { WorkspaceManager } from '../../src/workspace-manager.js';
 import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+import type { TaskQueue } from '../../src/task-queue.js';
+import type { WebhookNotifier } from '../../src/webhook-notifier.js';
 
 describe('ControlSignalHandler', () => {
   let handler: ControlSignalHandler;
@@ -174,6 +176,30 @@ describe('ControlSignalHandler', () => {
       expect(mockRegistry.updateStatus).toHaveBeenCalledWith('task-123', 'cancelled');
     });
 
+    it('should notify webhooks when a task is cancelled', async () => {
+      const mockTask = {
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: Date.now(),
+      };
+      const mockWebhooks = {
+        notify: jest.fn().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<WebhookNotifier>;
+      handler = new ControlSignalHandler({ ...mockDeps, webhooks: mockWebhooks });
+
+      mockRegistry.getTask.mockReturnValue(mockTask as any);
+      mockExecution.cancelTask.mockResolvedValue(true);
+
+      await handler.handleControlSignal({
+        taskId: 'task-123',
+        signal: 'cancel',
+        requestedBy: 'user-123',
+      });
+
+      expect(mockWebhooks.notify).toHaveBeenCalledWith(mockTask, 'cancelled');
+    });
+
     it('should not cancel completed task', async () => {
       const mockTask = {
         taskId: 'task-123',
@@ -301,6 +327,35 @@ describe('ControlSignalHandler', () => {
       expect(mockRegistry.updateStatus).toHaveBeenCalledWith('task-123', 'cancelled');
     });
 
+    it('should remove queued task from the dispatch queue without touching execution', async () => {
+      const mockTask = {
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'queued',
+        createdAt: Date.now(),
+        workspaceBlockId: 'block-789',
+      };
+      const mockQueue = {
+        isQueued: jest.fn().mockReturnValue(true),
+        cancel: jest.fn().mockReturnValue(true),
+      } as unknown as jest.Mocked<TaskQueue>;
+
+      mockRegistry.getTask.mockReturnValue(mockTask as any);
+      handler = new ControlSignalHandler({ ...mockDeps, queue: mockQueue });
+
+      const result = await handler.handleControlSignal({
+        taskId: 'task-123',
+        signal: 'cancel',
+        requestedBy: 'agent-456',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.newStatus).toBe('cancelled');
+      expect(mockQueue.cancel).toHaveBeenCalledWith('task-123');
+      expect(mockExecution.cancelTask).not.toHaveBeenCalled();
+      expect(mockRegistry.updateStatus).toHaveBeenCalledWith('task-123', 'cancelled');
+    });
+
     it('should update workspace with cancel event', async () => {
       const mockTask = {
         taskId: 'task-123',
@@ -0,0 +1,60 @@
+import { nextCronRun, parseCronExpression } from '../../src/cron.js';
+
+const at = (iso: string): number => Date.parse(iso);
+
+describe('cron', () => {
+  describe('parseCronExpression', () => {
+    it('should expand ranges, lists and steps', () => {
+      const cron = parseCronExpression('*/20 9-11 1,15 * 1-5');
+
+      expect(Array.from(cron.minutes)).toEqual([0, 20, 40]);
+      expect(Array.from(cron.hours)).toEqual([9, 10, 11]);
+      expect(Array.from(cron.daysOfMonth)).toEqual([1, 15]);
+      expect(cron.months.size).toBe(12);
+      expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should treat day-of-week 7 as Sunday', () => {
+      expect(Array.from(parseCronExpression('0 0 * * 7').daysOfWeek)).toEqual([0]);
+    });
+
+    it.each(['* * * *', '60 * * * *', '* * 0 * *', '5-1 * * * *', 'a * * * *', '*/0 * * * *'])(
+      'should reject %s',
+      (expression) => {
+        expect(() => parseCronExpression(expression)).toThrow(/cron/i);
+      }
+    );
+  });
+
+  describe('nextCronRun', () => {
+    it('should return the next matching minute strictly after the given time', () => {
+      const cron = parseCronExpression('30 9 * * *');
+
+      expect(nextCronRun(cron, at('2026-03-10T09:29:59Z'))).toBe(at('2026-03-10T09:30:00Z'));
+      expect(nextCronRun(cron, at('2026-03-10T09:30:00Z'))).toBe(at('2026-03-11T09:30:00Z'));
+    });
+
+    it('should roll over months and years', () => {
+      expect(nextCronRun(parseCronExpression('0 0 1 1 *'), at('2026-06-15T12:00:00Z'))).toBe(
+        at('2027-01-01T00:00:00Z')
+      );
+    });
+
+    it('should match either day field when both are restricted', () => {
+      // 13th of the month or any Monday; 2026-03-13 is a Friday
+      const cron = parseCronExpression('0 12 13 * 1');
+
+      expect(nextCronRun(cron, at('2026-03-10T00:00:00Z'))).toBe(at('2026-03-13T12:00:00Z'));
+      expect(nextCronRun(cron, at('2026-03-14T00:00:00Z'))).toBe(at('2026-03-16T12:00:00Z'));
+    });
+
+    it('should find leap days and give up on dates that never exist', () => {
+      expect(nextCronRun(parseCronExpression('0 0 29 2 *'), at('2026-03-01T00:00:00Z'))).toBe(
+        at('2028-02-29T00:00:00Z')
+      );
+      expect(nextCronRun(parseCronExpression('0 0 31 2 *'), at('2026-03-01T00:00:00Z'))).toBe(
+        undefined
+      );
+    });
+  });
+});
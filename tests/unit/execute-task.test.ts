@@ -1,13 +1,27 @@
 import {
   executeTask,
+  ExecuteTaskSchema,
   type ExecuteTaskParams,
   type ExecuteTaskDependencies,
 } from '../../src/tools/execute-task.js';
 import type { LettaClient } from '../../src/letta-client.js';
 import type { WorkspaceManager } from '../../src/workspace-manager.js';
 import type { ExecutionManager } from '../../src/execution-manager.js';
-import type { TaskRegistry } from '../../src/task-registry.js';
+import { TaskRegistry } from '../../src/task-registry.js';
 import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+import { TaskQueue } from '../../src/task-queue.js';
+import type { ModelSelection } from '../../src/types/execution.js';
+import type { TaskEventLog } from '../../src/task-event-log.js';
+import type { BudgetManager } from '../../src/budget-manager.js';
+import type { BudgetViolation } from '../../src/types/budget.js';
+import type { WebhookNotifier } from '../../src/webhook-notifier.js';
+import type { TaskRegistryEntry } from '../../src/types/task.js';
+import type { PermissionGate } from '../../src/permission-gate.js';
+
+const defaultModel: ModelSelection = {
+  providerId: 'anthropic',
+  modelId: 'claude-sonnet-4-5-20250929',
+};
 
 describe('executeTask', () => {
   let mockDeps: jest.Mocked<ExecuteTaskDependencies>;
@@ -16,6 +30,7 @@ describe('executeTask', () => {
   let mockExecution: jest.Mocked<ExecutionManager>;
   let mockRegistry: jest.Mocked<TaskRegistry>;
   let mockMatrix: jest.Mocked<MatrixRoomManager> | null;
+  let queue: TaskQueue;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -30,30 +45,549 @@ describe('executeTask', () => {
 
     mockExecution = {
       execute: jest.fn(),
+      resolveModel: jest.fn((requested?: ModelSelection) => requested ?? defaultModel),
+      resolveWorkingDir: jest.fn(),
     } as unknown as jest.Mocked<ExecutionManager>;
 
     mockRegistry = {
       canAcceptTask: jest.fn(),
       register: jest.fn(),
       updateStatus: jest.fn(),
+      getTask: jest.fn(),
       updateMatrixRoom: jest.fn(),
       clearMatrixRoom: jest.fn(),
     } as unknown as jest.Mocked<TaskRegistry>;
 
     mockMatrix = null;
+    queue = new TaskQueue({ maxConcurrentTasks: 10, maxQueuedTasks: 10 });
 
     mockDeps = {
       letta: mockLetta,
       workspace: mockWorkspace,
       execution: mockExecution,
       registry: mockRegistry,
+      queue,
       matrix: mockMatrix,
     };
   });
 
+  describe('Agent budgets', () => {
+    let mockBudget: jest.Mocked<BudgetManager>;
+    const violation: BudgetViolation = {
+      agentId: 'agent-123',
+      limit: 'max_daily_spend',
+      current: 5,
+      max: 5,
+      message: 'Agent agent-123 reached its max_daily_spend budget ($5.00 of $5.00)',
+    };
+
+    beforeEach(() => {
+      mockBudget = {
+        checkSubmission: jest.fn(),
+        checkSpend: jest.fn(),
+      } as unknown as jest.Mocked<BudgetManager>;
+      mockDeps.budget = mockBudget;
+      mockExecution.killTask = jest.fn().mockResolvedValue(true);
+      mockRegistry.register.mockImplementation((taskId) => ({
+        taskId,
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+      }));
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+    });
+
+    it('should reject a task before registering it when the agent is over budget', async () => {
+      mockBudget.checkSubmission.mockReturnValue(violation);
+
+      const result = await executeTask(
+        { agent_id: 'agent-123', task_description: 'Test task', sync: false },
+        mockDeps
+      );
+
+      expect(result).toEqual({
+        error: violation.message,
+        code: 'BUDGET_EXCEEDED',
+        status: 429,
+        limit: 'max_daily_spend',
+        current: 5,
+        max: 5,
+      });
+      expect(mockBudget.checkSubmission).toHaveBeenCalledWith('agent-123');
+      expect(mockRegistry.register).not.toHaveBeenCalled();
+    });
+
+    it('should abort a running task once the spend cap is crossed', async () => {
+      mockBudget.checkSpend.mockReturnValueOnce(undefined).mockReturnValue(violation);
+      mockExecution.execute.mockImplementation(async (req, onEvent) => {
+        const update = {
+          type: 'message.updated',
+          timestamp: Date.now(),
+          data: {},
+          sessionId: 'session-123',
+        };
+        onEvent?.(update);
+        onEvent?.(update);
+        onEvent?.(update);
+        return {
+          taskId: req.taskId,
+          status: 'error',
+          output: 'Partial work',
+          error: 'Task aborted',
+          startedAt: Date.now(),
+          completedAt: Date.now() + 1000,
+          durationMs: 1000,
+        };
+      });
+
+      const result = await executeTask(
+        { agent_id: 'agent-123', task_description: 'Test task', sync: true },
+        mockDeps
+      );
+
+      expect(mockExecution.killTask).toHaveBeenCalledTimes(1);
+      expect(mockExecution.killTask).toHaveBeenCalledWith(result.task_id);
+      expect(result).toMatchObject({
+        status: 'failed',
+        code: 'BUDGET_EXCEEDED',
+        error: violation.message,
+        limit: 'max_daily_spend',
+      });
+      expect(mockRegistry.updateStatus).toHaveBeenCalledWith(
+        result.task_id,
+        'failed',
+        expect.objectContaining({ error: violation.message })
+      );
+    });
+  });
+
+  describe('Webhooks', () => {
+    it('should register the callback URL and notify each lifecycle transition', async () => {
+      const entry: TaskRegistryEntry = {
+        taskId: 'task-123',
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+        callbackUrl: 'https://agent.example.com/hook',
+      };
+      const mockWebhooks = {
+        notify: jest.fn().mockResolvedValue(undefined),
+        signsPayloads: jest.fn().mockReturnValue(true),
+      } as unknown as jest.Mocked<WebhookNotifier>;
+      mockDeps.webhooks = mockWebhooks;
+      mockRegistry.register.mockImplementation((taskId) => ({ ...entry, taskId }));
+      mockRegistry.getTask = jest.fn().mockReturnValue(entry);
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      mockExecution.execute.mockResolvedValue({
+        taskId: 'task-123',
+        status: 'success',
+        output: 'Done',
+        startedAt: Date.now(),
+        completedAt: Date.now() + 1000,
+        durationMs: 1000,
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Test task',
+          sync: true,
+          callback_url: 'https://agent.example.com/hook',
+        },
+        mockDeps
+      );
+
+      expect(result.status).toBe('completed');
+      expect(mockRegistry.register).toHaveBeenCalledWith(
+        expect.any(String),
+        'agent-123',
+        undefined,
+        expect.objectContaining({ callbackUrl: 'https://agent.example.com/hook' })
+      );
+      expect(mockWebhooks.notify.mock.calls.map(([, event]) => event)).toEqual([
+        'queued',
+        'started',
+        'completed',
+      ]);
+    });
+
+    it('should reject a callback URL when deliveries would not be signed', async () => {
+      mockDeps.webhooks = {
+        notify: jest.fn(),
+        signsPayloads: jest.fn().mockReturnValue(false),
+      } as unknown as jest.Mocked<WebhookNotifier>;
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Test task',
+          sync: false,
+          callback_url: 'https://agent.example.com/hook',
+        },
+        mockDeps
+      );
+
+      expect(result).toMatchObject({ code: 'WEBHOOK_SECRET_REQUIRED', status: 400 });
+      expect(mockRegistry.register).not.toHaveBeenCalled();
+    });
+
+    it('should only accept http and https callback URLs', () => {
+      const params = { agent_id: 'agent-123', task_description: 'Test task' };
+
+      expect(
+        ExecuteTaskSchema.safeParse({ ...params, callback_url: 'file:///etc/passwd' }).success
+      ).toBe(false);
+      expect(
+        ExecuteTaskSchema.safeParse({ ...params, callback_url: 'https://agent.example.com/hook' })
+          .success
+      ).toBe(true);
+    });
+
+    it('should leave a task cancelled while running to the cancel signal', async () => {
+      const entry: TaskRegistryEntry = {
+        taskId: 'task-123',
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+        callbackUrl: 'https://agent.example.com/hook',
+      };
+      const mockWebhooks = {
+        notify: jest.fn().mockResolvedValue(undefined),
+        signsPayloads: jest.fn().mockReturnValue(true),
+      } as unknown as jest.Mocked<WebhookNotifier>;
+      mockDeps.webhooks = mockWebhooks;
+      mockLetta.sendMessage = jest.fn().mockResolvedValue(undefined);
+      mockRegistry.register.mockImplementation((taskId) => ({ ...entry, taskId }));
+      mockRegistry.getTask = jest.fn().mockReturnValue(entry);
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      mockExecution.execute.mockImplementation(async () => {
+        // The control signal handler settles the task while its session is aborted
+        entry.status = 'cancelled';
+        return {
+          taskId: 'task-123',
+          status: 'error',
+          error: 'Session aborted',
+          output: 'Partial',
+          startedAt: Date.now(),
+          completedAt: Date.now() + 1000,
+          durationMs: 1000,
+        };
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await executeTask(
+        { agent_id: 'agent-123', task_description: 'Test task', sync: true },
+        mockDeps
+      );
+
+      expect(result).toMatchObject({ status: 'cancelled', output: 'Partial' });
+      expect(mockWebhooks.notify.mock.calls.map(([, event]) => event)).toEqual([
+        'queued',
+        'started',
+      ]);
+      expect(mockRegistry.updateStatus).toHaveBeenLastCalledWith(
+        result.task_id,
+        'cancelled',
+        expect.objectContaining({ output: 'Partial' })
+      );
+      expect(mockWorkspace.updateWorkspace).not.toHaveBeenCalledWith(
+        'agent-123',
+        'block-123',
+        expect.objectContaining({ status: 'failed' })
+      );
+      expect(mockLetta.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Dependencies', () => {
+    let registry: TaskRegistry;
+
+    beforeEach(() => {
+      // Keep the registry's hourly cleanup interval off the real clock
+      jest.useFakeTimers();
+      registry = new TaskRegistry({ maxConcurrentTasks: 10, idempotencyWindowMs: 60000 });
+      jest.useRealTimers();
+      registry.register('upstream-1', 'agent-123');
+      registry.updateStatus('upstream-1', 'running', { workspaceBlockId: 'upstream-block' });
+      mockDeps.registry = registry;
+      mockLetta.sendMessage = jest.fn().mockResolvedValue(undefined);
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      mockWorkspace.getWorkspace = jest.fn().mockResolvedValue({
+        metadata: { task_description: 'Write the parser' },
+        artifacts: [{ timestamp: 1, type: 'diff', name: 'git_diff', content: '+parser' }],
+      });
+      mockExecution.execute.mockResolvedValue({
+        taskId: 'task-123',
+        status: 'success',
+        output: 'Done',
+        startedAt: Date.now(),
+        completedAt: Date.now() + 1000,
+        durationMs: 1000,
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should reject unknown dependencies before registering the task', async () => {
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Test task',
+          sync: false,
+          depends_on: ['missing'],
+        },
+        mockDeps
+      );
+
+      expect(result).toEqual({
+        error: 'Unknown dependency task(s): missing',
+        code: 'UNKNOWN_DEPENDENCY',
+        status: 400,
+      });
+      expect(registry.getAllTasks()).toHaveLength(1);
+    });
+
+    it('should stay blocked until its dependency completes, then run with its results', async () => {
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Use the parser',
+          sync: false,
+          depends_on: ['upstream-1'],
+        },
+        mockDeps
+      );
+
+      expect(result.status).toBe('blocked');
+      expect(registry.getTask(result.task_id as string)?.dependsOn).toEqual(['upstream-1']);
+      expect(mockExecution.execute).not.toHaveBeenCalled();
+
+      registry.updateStatus('upstream-1', 'completed', { output: 'Parser added' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockExecution.execute).toHaveBeenCalledTimes(1);
+      const prompt = mockExecution.execute.mock.calls[0][0].prompt;
+      expect(prompt.startsWith('Use the parser\n\n## Results of prerequisite tasks')).toBe(true);
+      expect(prompt).toContain('### upstream-1 (completed)\nTask: Write the parser');
+      expect(prompt).toContain('Output:\nParser added');
+      expect(prompt).toContain('```diff\n+parser\n```');
+    });
+
+    it('should fail without running when a dependency fails by default', async () => {
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Use the parser',
+          sync: false,
+          depends_on: ['upstream-1'],
+        },
+        mockDeps
+      );
+
+      registry.updateStatus('upstream-1', 'failed', { error: 'Tests failed' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockExecution.execute).not.toHaveBeenCalled();
+      expect(registry.getTask(result.task_id as string)).toMatchObject({
+        status: 'failed',
+        error: 'Dependencies did not complete: upstream-1 (failed)',
+      });
+    });
+
+    it('should cancel the task when its dependency fails under the skip policy', async () => {
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Use the parser',
+          sync: false,
+          depends_on: ['upstream-1'],
+          on_dependency_failure: 'skip',
+        },
+        mockDeps
+      );
+
+      registry.updateStatus('upstream-1', 'timeout');
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockExecution.execute).not.toHaveBeenCalled();
+      expect(registry.getTask(result.task_id as string)?.status).toBe('cancelled');
+    });
+
+    it('should still run under the run_anyway policy', async () => {
+      await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Use the parser',
+          sync: false,
+          depends_on: ['upstream-1'],
+          on_dependency_failure: 'run_anyway',
+        },
+        mockDeps
+      );
+
+      registry.updateStatus('upstream-1', 'failed', { error: 'Tests failed' });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(mockExecution.execute).toHaveBeenCalledTimes(1);
+      expect(mockExecution.execute.mock.calls[0][0].prompt).toContain(
+        '### upstream-1 (failed)\nTask: Write the parser\nError: Tests failed'
+      );
+    });
+  });
+
+  describe('Retries', () => {
+    let registry: TaskRegistry;
+    const usage = {
+      inputTokens: 100,
+      outputTokens: 10,
+      reasoningTokens: 0,
+      cacheReadTokens: 0,
+      cacheWriteTokens: 0,
+      cost: 0.01,
+    };
+    const failure = {
+      taskId: 'task-123',
+      status: 'error' as const,
+      output: '',
+      error: 'Build failed',
+      startedAt: Date.now(),
+      completedAt: Date.now() + 1000,
+      durationMs: 1000,
+      usage,
+    };
+    const success = { ...failure, status: 'success' as const, output: 'Done', error: undefined };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      registry = new TaskRegistry({ maxConcurrentTasks: 10, idempotencyWindowMs: 60000 });
+      jest.useRealTimers();
+      mockDeps.registry = registry;
+      mockLetta.sendMessage = jest.fn().mockResolvedValue(undefined);
+      mockExecution.releaseRetainedSession = jest.fn().mockResolvedValue(undefined);
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should retry a failed attempt under the same task and sum its usage', async () => {
+      mockExecution.execute.mockResolvedValueOnce(failure).mockResolvedValueOnce(success);
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Fix the build',
+          sync: true,
+          retry: { max_attempts: 3, backoff_ms: 0 },
+        },
+        mockDeps
+      );
+
+      expect(result).toMatchObject({ status: 'completed', attempts: 2 });
+      expect(mockExecution.execute).toHaveBeenCalledTimes(2);
+      expect(mockExecution.execute.mock.calls[1][0]).toMatchObject({
+        taskId: result.task_id,
+        prompt: 'Fix the build',
+        continuePrompt: undefined,
+      });
+      expect(registry.getTask(result.task_id as string)).toMatchObject({
+        status: 'completed',
+        attempts: 2,
+        usage: expect.objectContaining({ inputTokens: 200, outputTokens: 20 }),
+      });
+      expect(mockWorkspace.updateWorkspace).toHaveBeenCalledWith('agent-123', 'block-123', {
+        events: [
+          expect.objectContaining({
+            type: 'task_retry',
+            data: expect.objectContaining({
+              attempt: 1,
+              next_attempt: 2,
+              max_attempts: 3,
+              previous_status: 'error',
+              previous_error: 'Build failed',
+            }),
+          }),
+        ],
+      });
+    });
+
+    it('should stop after max_attempts', async () => {
+      mockExecution.execute.mockResolvedValue(failure);
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Fix the build',
+          sync: true,
+          retry: { max_attempts: 2, backoff_ms: 0 },
+        },
+        mockDeps
+      );
+
+      expect(result).toMatchObject({ status: 'failed', attempts: 2 });
+      expect(mockExecution.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry statuses outside retry_on', async () => {
+      mockExecution.execute.mockResolvedValue(failure);
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Fix the build',
+          sync: true,
+          retry: { backoff_ms: 0, retry_on: ['timeout'] },
+        },
+        mockDeps
+      );
+
+      expect(result.status).toBe('failed');
+      expect(result.attempts).toBeUndefined();
+      expect(mockExecution.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should continue the retained session with the previous error', async () => {
+      mockExecution.execute.mockResolvedValueOnce(failure).mockResolvedValueOnce(success);
+
+      await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Fix the build',
+          sync: true,
+          retry: { max_attempts: 3, backoff_ms: 0, continue_session: true },
+        },
+        mockDeps
+      );
+
+      expect(mockExecution.execute.mock.calls[0][0].retainSession).toBe(true);
+      const retryRequest = mockExecution.execute.mock.calls[1][0];
+      expect(retryRequest.retainSession).toBe(true);
+      expect(retryRequest.continuePrompt).toContain('failed with this error:\n\nBuild failed');
+      expect(mockExecution.releaseRetainedSession).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Queue management', () => {
     it('should reject task when queue is full', async () => {
-      mockRegistry.canAcceptTask.mockReturnValue(false);
+      jest.spyOn(queue, 'isFull').mockReturnValue(true);
 
       const params: ExecuteTaskParams = {
         agent_id: 'agent-123',
@@ -68,7 +602,6 @@ describe('executeTask', () => {
         code: 'QUEUE_FULL',
         status: 429,
       });
-      expect(mockRegistry.canAcceptTask).toHaveBeenCalled();
       expect(mockRegistry.register).not.toHaveBeenCalled();
     });
 
@@ -104,11 +637,140 @@ describe('executeTask', () => {
 
       expect(result.status).toBe('queued');
       expect(result.task_id).toBeDefined();
-      expect(mockRegistry.canAcceptTask).toHaveBeenCalled();
       expect(mockRegistry.register).toHaveBeenCalled();
     });
   });
 
+  describe('Model selection', () => {
+    beforeEach(() => {
+      mockRegistry.register.mockImplementation((taskId) => ({
+        taskId,
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+      }));
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+    });
+
+    it('should record the requested model on the registry entry and workspace', async () => {
+      const params: ExecuteTaskParams = {
+        agent_id: 'agent-123',
+        task_description: 'Test task',
+        sync: false,
+        model: { provider_id: 'openai', model_id: 'gpt-5' },
+      };
+
+      await executeTask(params, mockDeps);
+
+      const model = { providerId: 'openai', modelId: 'gpt-5' };
+      expect(mockExecution.resolveModel).toHaveBeenCalledWith(model);
+      expect(mockRegistry.register).toHaveBeenCalledWith(
+        expect.any(String),
+        'agent-123',
+        undefined,
+        expect.objectContaining({ model })
+      );
+      expect(mockWorkspace.createWorkspaceBlock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({
+            model: { provider_id: 'openai', model_id: 'gpt-5' },
+          }),
+        })
+      );
+    });
+
+    it('should reject models outside the allowlist', async () => {
+      mockExecution.resolveModel.mockImplementation(() => {
+        throw new Error('Model openai/gpt-5 is not allowed (allowed: anthropic/*)');
+      });
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Test task',
+          sync: false,
+          model: { provider_id: 'openai', model_id: 'gpt-5' },
+        },
+        mockDeps
+      );
+
+      expect(result).toEqual({
+        error: 'Model openai/gpt-5 is not allowed (allowed: anthropic/*)',
+        code: 'MODEL_NOT_ALLOWED',
+        status: 400,
+      });
+      expect(mockRegistry.register).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Workspace path', () => {
+    beforeEach(() => {
+      mockRegistry.register.mockImplementation((taskId) => ({
+        taskId,
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+      }));
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+    });
+
+    it('should bind the resolved directory to the task', async () => {
+      mockExecution.resolveWorkingDir.mockReturnValue('/opt/stacks/my-repo');
+
+      await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Test task',
+          sync: false,
+          workspace_path: 'my-repo',
+        },
+        mockDeps
+      );
+
+      expect(mockExecution.resolveWorkingDir).toHaveBeenCalledWith('my-repo');
+      expect(mockRegistry.register).toHaveBeenCalledWith(
+        expect.any(String),
+        'agent-123',
+        undefined,
+        expect.objectContaining({ workingDir: '/opt/stacks/my-repo' })
+      );
+      expect(mockWorkspace.createWorkspaceBlock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: expect.objectContaining({ workspace_path: '/opt/stacks/my-repo' }),
+        })
+      );
+    });
+
+    it('should reject paths outside the workspace root', async () => {
+      mockExecution.resolveWorkingDir.mockImplementation(() => {
+        throw new Error('Workspace path ../etc is outside /opt/stacks');
+      });
+
+      const result = await executeTask(
+        {
+          agent_id: 'agent-123',
+          task_description: 'Test task',
+          sync: false,
+          workspace_path: '../etc',
+        },
+        mockDeps
+      );
+
+      expect(result).toEqual({
+        error: 'Workspace path ../etc is outside /opt/stacks',
+        code: 'INVALID_WORKSPACE_PATH',
+        status: 400,
+      });
+      expect(mockRegistry.register).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Idempotency', () => {
     it('should return existing task when idempotency key matches', async () => {
       const existingTaskId = 'existing-task-123';
@@ -218,6 +880,7 @@ describe('executeTask', () => {
           metadata: {
             task_description: 'Test task',
             idempotency_key: 'key-123',
+            model: { provider_id: 'anthropic', model_id: 'claude-sonnet-4-5-20250929' },
           },
         })
       );
@@ -680,6 +1343,181 @@ describe('executeTask', () => {
         })
       );
     });
+    it('should record git changes as diff artifacts', async () => {
+      mockRegistry.register.mockImplementation((taskId) => ({
+        taskId,
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+      }));
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      mockWorkspace.detachWorkspaceBlock.mockResolvedValue(undefined);
+      mockExecution.execute.mockResolvedValue({
+        taskId: 'task-123',
+        status: 'success',
+        exitCode: 0,
+        output: 'Task output',
+        startedAt: Date.now(),
+        completedAt: Date.now() + 1000,
+        durationMs: 1000,
+        git: {
+          branch: 'opencode/task-123',
+          baseCommit: 'abc123',
+          commits: [{ sha: 'def456', subject: 'Add feature' }],
+          files: [{ path: 'src/feature.ts', additions: 10, deletions: 2 }],
+          diff: 'diff --git a/src/feature.ts b/src/feature.ts',
+        },
+      });
+
+      await executeTask(
+        { agent_id: 'agent-123', task_description: 'Test task', sync: true },
+        mockDeps
+      );
+
+      const metadata = { branch: 'opencode/task-123', base_commit: 'abc123' };
+      expect(mockWorkspace.updateWorkspace).toHaveBeenCalledWith(
+        'agent-123',
+        'block-123',
+        expect.objectContaining({
+          artifacts: expect.arrayContaining([
+            expect.objectContaining({
+              type: 'diff',
+              name: 'git_diff',
+              content: 'diff --git a/src/feature.ts b/src/feature.ts',
+              metadata: { ...metadata, truncated: false },
+            }),
+            expect.objectContaining({
+              type: 'diff',
+              name: 'git_commits',
+              content: 'def456 Add feature',
+            }),
+            expect.objectContaining({
+              type: 'diff',
+              name: 'git_file_stats',
+              metadata: { ...metadata, files_changed: 1, additions: 10, deletions: 2 },
+            }),
+          ]),
+        })
+      );
+    });
+
+    it('should record every OpenCode event in the task event log', async () => {
+      const eventLog = { record: jest.fn() } as unknown as jest.Mocked<TaskEventLog>;
+      mockRegistry.register.mockImplementation((taskId) => ({
+        taskId,
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+      }));
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      mockWorkspace.detachWorkspaceBlock.mockResolvedValue(undefined);
+      const toolEvent = {
+        type: 'message.part.updated',
+        timestamp: Date.now(),
+        data: { part: { type: 'tool', tool: 'bash', state: { status: 'completed' } } },
+        sessionId: 'session-123',
+      };
+      mockExecution.execute.mockImplementation(async (req, onEvent) => {
+        onEvent?.(toolEvent);
+        return {
+          taskId: 'task-123',
+          status: 'success',
+          exitCode: 0,
+          output: 'Done',
+          startedAt: Date.now(),
+          completedAt: Date.now() + 1000,
+          durationMs: 1000,
+        };
+      });
+
+      const result = await executeTask(
+        { agent_id: 'agent-123', task_description: 'Test task', sync: true },
+        { ...mockDeps, eventLog }
+      );
+
+      expect(eventLog.record).toHaveBeenCalledWith(result.task_id, toolEvent);
+    });
+
+    it('should hold permission requests for a decision and alert the agent', async () => {
+      mockLetta.sendMessage = jest.fn().mockResolvedValue(undefined);
+      mockRegistry.register.mockImplementation((taskId) => ({
+        taskId,
+        agentId: 'agent-123',
+        status: 'queued',
+        createdAt: Date.now(),
+      }));
+      mockWorkspace.createWorkspaceBlock.mockResolvedValue({
+        blockId: 'block-123',
+        workspace: {} as any,
+      });
+      mockWorkspace.updateWorkspace.mockResolvedValue({} as any);
+      mockWorkspace.detachWorkspaceBlock.mockResolvedValue(undefined);
+      const permissions = {
+        request: jest.fn((permission) => ({
+          ...permission,
+          requestedAt: Date.now(),
+          expiresAt: Date.now() + 300000,
+        })),
+        getDefaultDecision: jest.fn().mockReturnValue('reject'),
+        clearTask: jest.fn(),
+      } as unknown as jest.Mocked<PermissionGate>;
+      mockExecution.execute.mockImplementation(async (req, onEvent) => {
+        onEvent?.({
+          type: 'permission.updated',
+          timestamp: Date.now(),
+          sessionId: 'session-123',
+          data: { id: 'perm-1', type: 'bash', title: 'npm publish', sessionID: 'session-123' },
+        });
+        return {
+          taskId: req.taskId,
+          status: 'success',
+          exitCode: 0,
+          output: 'Done',
+          startedAt: Date.now(),
+          completedAt: Date.now() + 1000,
+          durationMs: 1000,
+        };
+      });
+
+      const result = await executeTask(
+        { agent_id: 'agent-123', task_description: 'Test task', sync: true },
+        { ...mockDeps, permissions }
+      );
+
+      expect(permissions.request).toHaveBeenCalledWith(
+        {
+          permissionId: 'perm-1',
+          taskId: result.task_id,
+          agentId: 'agent-123',
+          sessionId: 'session-123',
+          type: 'bash',
+          title: 'npm publish',
+          pattern: undefined,
+        },
+        expect.any(Function)
+      );
+      expect(mockWorkspace.updateWorkspace).toHaveBeenCalledWith('agent-123', 'block-123', {
+        events: [
+          expect.objectContaining({
+            type: 'task_permission',
+            message: 'Permission requested: npm publish',
+          }),
+        ],
+      });
+      expect(mockLetta.sendMessage).toHaveBeenCalledWith('agent-123', {
+        role: 'system',
+        content: expect.stringContaining('permission_id \\"perm-1\\"'),
+      });
+      expect(permissions.clearTask).toHaveBeenCalledWith(result.task_id);
+    });
   });
 
   describe('Workspace block creation failure', () => {
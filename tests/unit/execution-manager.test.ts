@@ -1,6 +1,11 @@
 import { describe, it, expect, beforeEach, jest, afterEach } from '@jest/globals';
 import { ExecutionManager } from '../../src/execution-manager.js';
+import { BudgetManager } from '../../src/budget-manager.js';
+import { TaskRegistry } from '../../src/task-registry.js';
 import { EventEmitter } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
 // Mock child_process
 jest.mock('child_process', () => ({
@@ -11,10 +16,16 @@ jest.mock('child_process', () => ({
 jest.mock('../../src/opencode-client-manager.js', () => ({
   OpenCodeClientManager: jest.fn().mockImplementation(() => ({
     createSession: jest.fn(),
+    forkSession: jest.fn(),
+    setSessionDirectory: jest.fn(),
     subscribeToEvents: jest.fn(),
+    unsubscribeFromEvents: jest.fn(),
+    getSessionSnapshot: jest.fn(),
     sendPrompt: jest.fn(),
     abortSession: jest.fn(),
+    sendMessageAsync: jest.fn(),
     removeSession: jest.fn(),
+    deleteSession: jest.fn(() => Promise.resolve()),
     listFiles: jest.fn(),
     readFile: jest.fn(),
     cleanup: jest.fn(),
@@ -67,12 +78,26 @@ describe('ExecutionManager', () => {
         enabled: true,
         serverUrl: 'http://localhost:3100',
         healthCheckIntervalMs: 5000,
-        maxRetries: 3,
+        maxRetries: 5,
         retryDelayMs: 1000,
       });
       serverExecution.cleanup();
     });
 
+    it('should pass the event stream reconnect limit to the OpenCode client', () => {
+      const serverExecution = new ExecutionManager({
+        image: 'test-image',
+        timeoutMs: 30000,
+        openCodeServerEnabled: true,
+        openCodeServerUrl: 'http://localhost:3100',
+        eventStreamMaxReconnects: 10,
+      });
+      expect(OpenCodeClientManager).toHaveBeenLastCalledWith(
+        expect.objectContaining({ maxRetries: 10 })
+      );
+      serverExecution.cleanup();
+    });
+
     it('should not create OpenCodeClientManager when server disabled', () => {
       jest.clearAllMocks();
       const dockerExecution = new ExecutionManager({
@@ -309,7 +334,7 @@ describe('ExecutionManager', () => {
         (sessionId: string, onEvent: Function, onError: Function) => {
           setTimeout(() => {
             onEvent({ type: 'output', data: 'Processing...' });
-            onEvent({ type: 'complete', data: null });
+            onEvent({ type: 'session.idle', data: null });
           }, 10);
         }
       );
@@ -326,7 +351,8 @@ describe('ExecutionManager', () => {
       expect(mockOpenCodeClient.createSession).toHaveBeenCalledWith(
         'task-server',
         'agent-456',
-        'Test prompt'
+        'Test prompt',
+        undefined
       );
     });
 
@@ -340,7 +366,7 @@ describe('ExecutionManager', () => {
         (sessionId: string, onEvent: Function, onError: Function) => {
           setTimeout(() => {
             onEvent({ type: 'error', data: 'Something went wrong' });
-            onEvent({ type: 'complete', data: null });
+            onEvent({ type: 'session.idle', data: null });
           }, 10);
         }
       );
@@ -356,7 +382,7 @@ describe('ExecutionManager', () => {
       expect(result.error).toBe('Something went wrong');
     });
 
-    it('should handle abort events', async () => {
+    it('should handle session errors', async () => {
       mockOpenCodeClient.createSession.mockResolvedValue({
         sessionId: 'session-abort',
       });
@@ -365,7 +391,13 @@ describe('ExecutionManager', () => {
       mockOpenCodeClient.subscribeToEvents.mockImplementation(
         (sessionId: string, onEvent: Function, onError: Function) => {
           setTimeout(() => {
-            onEvent({ type: 'abort', data: null });
+            onEvent({
+              type: 'session.error',
+              data: {
+                sessionID: 'session-abort',
+                error: { name: 'MessageAbortedError', data: { message: 'Message aborted' } },
+              },
+            });
           }, 10);
         }
       );
@@ -381,6 +413,92 @@ describe('ExecutionManager', () => {
       expect(result.error).toContain('aborted');
     });
 
+    it('should not treat completion-like events as the end of the session', async () => {
+      mockOpenCodeClient.createSession.mockResolvedValue({
+        sessionId: 'session-false-positive',
+      });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+
+      let finish: () => void;
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function) => {
+          setTimeout(() => {
+            onEvent({ type: 'finish', data: {} });
+            onEvent({ type: 'session.updated', data: { status: 'completed' } });
+            onEvent({
+              type: 'message.part.updated',
+              data: { part: { type: 'text', text: 'Build completed successfully' } },
+            });
+            onEvent({ type: 'session.status', data: { status: { type: 'busy' } } });
+          }, 10);
+          finish = () => onEvent({ type: 'session.status', data: { status: { type: 'idle' } } });
+        }
+      );
+
+      let settled = false;
+      const executePromise = serverExecution
+        .execute({
+          taskId: 'task-false-positive',
+          agentId: 'agent-456',
+          prompt: 'Test prompt',
+          workspaceBlockId: 'block-false-positive',
+        })
+        .then((result) => {
+          settled = true;
+          return result;
+        });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(settled).toBe(false);
+
+      finish!();
+      const result = await executePromise;
+
+      expect(result.status).toBe('success');
+      expect(result.output).toBe('Build completed successfully');
+    });
+
+    it('should re-sync missed output and completion after the event stream reconnects', async () => {
+      mockOpenCodeClient.createSession.mockResolvedValue({
+        sessionId: 'session-resync',
+      });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.getSessionSnapshot.mockResolvedValue([
+        {
+          type: 'message.part.updated',
+          sessionId: 'session-resync',
+          timestamp: Date.now(),
+          data: { part: { type: 'text', text: 'Finished while disconnected' } },
+        },
+        {
+          type: 'session.status',
+          sessionId: 'session-resync',
+          timestamp: Date.now(),
+          data: { status: { type: 'idle' } },
+        },
+      ]);
+
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function, onError: Function, onGap: Function) => {
+          setTimeout(() => {
+            onEvent({ type: 'session.status', data: { status: { type: 'busy' } } });
+            onGap({ disconnectedAt: Date.now() - 1000, reconnectedAt: Date.now(), reconnects: 1 });
+          }, 10);
+        }
+      );
+
+      const result = await serverExecution.execute({
+        taskId: 'task-resync',
+        agentId: 'agent-456',
+        prompt: 'Test prompt',
+        workspaceBlockId: 'block-resync',
+      });
+
+      expect(mockOpenCodeClient.getSessionSnapshot).toHaveBeenCalledWith('session-resync');
+      expect(result.status).toBe('success');
+      expect(result.output).toBe('Finished while disconnected');
+    });
+
     it('should handle subscription errors', async () => {
       mockOpenCodeClient.createSession.mockResolvedValue({
         sessionId: 'session-sub-error',
@@ -417,7 +535,7 @@ describe('ExecutionManager', () => {
         (sessionId: string, onEvent: Function, onError: Function) => {
           setTimeout(() => {
             onEvent({ type: 'output', data: 'test' });
-            onEvent({ type: 'complete', data: null });
+            onEvent({ type: 'session.idle', data: null });
           }, 10);
         }
       );
@@ -435,6 +553,266 @@ describe('ExecutionManager', () => {
       expect(events.length).toBeGreaterThan(0);
       expect(events[0].type).toBe('output');
     });
+
+    it('should total token usage across assistant messages', async () => {
+      mockOpenCodeClient.createSession.mockResolvedValue({
+        sessionId: 'session-usage',
+      });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+
+      const message = (id: string, input: number, cost: number) => ({
+        type: 'message.updated',
+        data: {
+          info: {
+            id,
+            role: 'assistant',
+            cost,
+            tokens: { input, output: 10, reasoning: 0, cache: { read: 5, write: 1 } },
+            time: { created: 1 },
+          },
+        },
+      });
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function, onError: Function) => {
+          setTimeout(() => {
+            // Streaming updates of the same message replace its earlier figures
+            onEvent(message('msg-1', 50, 0.01));
+            onEvent(message('msg-1', 100, 0.02));
+            onEvent(message('msg-2', 200, 0.03));
+            onEvent({ type: 'message.updated', data: { info: { id: 'msg-0', role: 'user' } } });
+            onEvent({ type: 'session.idle', data: null });
+          }, 10);
+        }
+      );
+
+      const result = await serverExecution.execute({
+        taskId: 'task-usage',
+        agentId: 'agent-456',
+        prompt: 'Usage task',
+        workspaceBlockId: 'block-usage',
+      });
+
+      expect(result.usage).toEqual({
+        inputTokens: 300,
+        outputTokens: 20,
+        reasoningTokens: 0,
+        cacheReadTokens: 10,
+        cacheWriteTokens: 2,
+        cost: 0.05,
+      });
+      expect(serverExecution.getTaskUsage('task-usage')).toBeUndefined();
+    });
+
+    it('should count a message toward the spend cap before passing it on', async () => {
+      jest.useFakeTimers();
+      const registry = new TaskRegistry({ maxConcurrentTasks: 10, idempotencyWindowMs: 60000 });
+      jest.useRealTimers();
+      registry.register('task-spend', 'agent-456');
+      const budget = new BudgetManager(
+        { defaults: { maxDailySpend: 0.05 } },
+        registry,
+        serverExecution
+      );
+      mockOpenCodeClient.createSession.mockResolvedValue({ sessionId: 'session-spend' });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function, onError: Function) => {
+          setTimeout(() => {
+            onEvent({
+              type: 'message.updated',
+              data: {
+                info: {
+                  id: 'msg-1',
+                  role: 'assistant',
+                  cost: 0.08,
+                  tokens: { input: 100, output: 10, reasoning: 0, cache: { read: 0, write: 0 } },
+                  time: { created: 1 },
+                },
+              },
+            });
+            onEvent({ type: 'session.idle', data: null });
+          }, 10);
+        }
+      );
+
+      const violations: unknown[] = [];
+      await serverExecution.execute(
+        {
+          taskId: 'task-spend',
+          agentId: 'agent-456',
+          prompt: 'Expensive task',
+          workspaceBlockId: 'block-spend',
+        },
+        (event) => {
+          if (event.type === 'message.updated') {
+            violations.push(budget.checkSpend('agent-456'));
+          }
+        }
+      );
+
+      expect(violations).toEqual([expect.objectContaining({ limit: 'max_daily_spend' })]);
+    });
+
+    it('should keep a failed session for a retry to continue', async () => {
+      mockOpenCodeClient.createSession.mockResolvedValue({ sessionId: 'session-retry' });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.subscribeToEvents
+        .mockImplementationOnce((sessionId: string, onEvent: Function) => {
+          setTimeout(() => {
+            onEvent({ type: 'error', data: 'Build failed' });
+            onEvent({ type: 'session.idle', data: null });
+          }, 10);
+        })
+        .mockImplementationOnce((sessionId: string, onEvent: Function) => {
+          setTimeout(() => onEvent({ type: 'session.idle', data: null }), 10);
+        });
+      const request = {
+        taskId: 'task-retry',
+        agentId: 'agent-456',
+        prompt: 'Retry task',
+        workspaceBlockId: 'block-retry',
+        retainSession: true,
+      };
+
+      const first = await serverExecution.execute(request);
+      expect(first.status).toBe('error');
+      expect(mockOpenCodeClient.deleteSession).not.toHaveBeenCalled();
+      expect(mockOpenCodeClient.removeSession).not.toHaveBeenCalled();
+
+      const second = await serverExecution.execute({
+        ...request,
+        continuePrompt: 'The previous attempt failed',
+      });
+      expect(second.status).toBe('success');
+      expect(mockOpenCodeClient.createSession).toHaveBeenCalledTimes(1);
+      expect(mockOpenCodeClient.sendPrompt).toHaveBeenLastCalledWith(
+        'session-retry',
+        'task-retry',
+        'agent-456',
+        'The previous attempt failed',
+        expect.anything()
+      );
+      expect(mockOpenCodeClient.deleteSession).toHaveBeenCalledWith('session-retry');
+
+      await serverExecution.releaseRetainedSession('task-retry');
+      expect(mockOpenCodeClient.deleteSession).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep a finished session for the retention window', async () => {
+      const retainingExecution = new ExecutionManager({
+        image: 'test-image',
+        timeoutMs: 30000,
+        openCodeServerEnabled: true,
+        openCodeServerUrl: 'http://localhost:3100',
+        sessionRetentionMs: 50,
+      });
+      mockOpenCodeClient = (OpenCodeClientManager as jest.Mock).mock.results[
+        (OpenCodeClientManager as jest.Mock).mock.results.length - 1
+      ]?.value;
+      mockOpenCodeClient.createSession.mockResolvedValue({ sessionId: 'session-kept' });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function) => {
+          setTimeout(() => onEvent({ type: 'session.idle', data: null }), 10);
+        }
+      );
+      const request = {
+        taskId: 'task-kept',
+        agentId: 'agent-456',
+        prompt: 'First turn',
+        workspaceBlockId: 'block-kept',
+      };
+
+      await retainingExecution.execute(request);
+      expect(retainingExecution.hasRetainedSession('task-kept')).toBe(true);
+      expect(mockOpenCodeClient.deleteSession).not.toHaveBeenCalled();
+
+      await retainingExecution.execute({ ...request, continuePrompt: 'Now add tests' });
+      expect(mockOpenCodeClient.createSession).toHaveBeenCalledTimes(1);
+      expect(mockOpenCodeClient.sendPrompt).toHaveBeenLastCalledWith(
+        'session-kept',
+        'task-kept',
+        'agent-456',
+        'Now add tests',
+        expect.anything()
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(retainingExecution.hasRetainedSession('task-kept')).toBe(false);
+      expect(mockOpenCodeClient.deleteSession).toHaveBeenCalledWith('session-kept');
+      expect(mockOpenCodeClient.removeSession).toHaveBeenCalledWith('task-kept');
+      retainingExecution.cleanup();
+    });
+
+    it('should run a forked task in a copy of the source session', async () => {
+      mockOpenCodeClient.createSession.mockResolvedValue({ sessionId: 'session-source' });
+      mockOpenCodeClient.forkSession.mockResolvedValue({ sessionId: 'session-fork' });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function) => {
+          setTimeout(() => onEvent({ type: 'session.idle', data: null }), 10);
+        }
+      );
+      await serverExecution.execute({
+        taskId: 'task-source',
+        agentId: 'agent-456',
+        prompt: 'Source task',
+        workspaceBlockId: 'block-source',
+        retainSession: true,
+      });
+      expect(serverExecution.hasForkableSession('task-source')).toBe(false);
+
+      await expect(
+        serverExecution.forkTaskSession('task-source', 'task-fork', 'agent-456')
+      ).resolves.toBe(false);
+      expect(mockOpenCodeClient.forkSession).not.toHaveBeenCalled();
+
+      mockOpenCodeClient.subscribeToEvents.mockImplementationOnce(
+        (sessionId: string, onEvent: Function) => {
+          setTimeout(() => {
+            onEvent({ type: 'error', data: 'Build failed' });
+            onEvent({ type: 'session.idle', data: null });
+          }, 10);
+        }
+      );
+      await serverExecution.execute({
+        taskId: 'task-source',
+        agentId: 'agent-456',
+        prompt: 'Source task',
+        workspaceBlockId: 'block-source',
+        retainSession: true,
+      });
+      expect(serverExecution.hasForkableSession('task-source')).toBe(true);
+
+      await expect(
+        serverExecution.forkTaskSession('task-source', 'task-fork', 'agent-456')
+      ).resolves.toBe(true);
+      expect(mockOpenCodeClient.forkSession).toHaveBeenCalledWith(
+        'session-source',
+        'task-fork',
+        'agent-456'
+      );
+
+      await serverExecution.execute({
+        taskId: 'task-fork',
+        agentId: 'agent-456',
+        prompt: 'Source task and alternative',
+        workspaceBlockId: 'block-fork',
+        workingDir: '/worktrees/task-fork',
+        continuePrompt: 'Try an alternative',
+      });
+      expect(mockOpenCodeClient.setSessionDirectory).toHaveBeenCalledWith(
+        'task-fork',
+        '/worktrees/task-fork'
+      );
+      expect(mockOpenCodeClient.sendPrompt).toHaveBeenLastCalledWith(
+        'session-fork',
+        'task-fork',
+        'agent-456',
+        'Try an alternative',
+        expect.anything()
+      );
+    });
   });
 
   describe('killTask', () => {
@@ -524,7 +902,7 @@ describe('ExecutionManager', () => {
       let completeTask: Function;
       mockOpenCodeClient.subscribeToEvents.mockImplementation(
         (sessionId: string, onEvent: Function, onError: Function) => {
-          completeTask = () => onEvent({ type: 'complete', data: null });
+          completeTask = () => onEvent({ type: 'session.idle', data: null });
         }
       );
 
@@ -549,6 +927,79 @@ describe('ExecutionManager', () => {
     });
   });
 
+  describe('resolveModel', () => {
+    it('should fall back to the default model', () => {
+      expect(execution.resolveModel()).toEqual({
+        providerId: 'anthropic',
+        modelId: 'claude-sonnet-4-5-20250929',
+      });
+    });
+
+    it('should allow any model when no allowlist is configured', () => {
+      const model = { providerId: 'openai', modelId: 'gpt-5' };
+      expect(execution.resolveModel(model)).toEqual(model);
+    });
+
+    it('should enforce the allowlist, including provider wildcards', () => {
+      const restricted = new ExecutionManager({
+        image: 'test-image',
+        timeoutMs: 30000,
+        defaultModel: { providerId: 'anthropic', modelId: 'claude-sonnet-4-5-20250929' },
+        allowedModels: ['openai/gpt-5', 'google/*'],
+      });
+
+      expect(restricted.resolveModel({ providerId: 'openai', modelId: 'gpt-5' })).toBeDefined();
+      expect(
+        restricted.resolveModel({ providerId: 'google', modelId: 'gemini-2.5-pro' })
+      ).toBeDefined();
+      expect(
+        restricted.resolveModel({ providerId: 'anthropic', modelId: 'claude-sonnet-4-5-20250929' })
+      ).toBeDefined();
+      expect(() => restricted.resolveModel({ providerId: 'openai', modelId: 'gpt-4o' })).toThrow(
+        'Model openai/gpt-4o is not allowed'
+      );
+      restricted.cleanup();
+    });
+  });
+
+  describe('resolveWorkingDir', () => {
+    let root: string;
+    let scoped: ExecutionManager;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-root-'));
+      fs.mkdirSync(path.join(root, 'my-repo'));
+      scoped = new ExecutionManager({ image: 'test-image', timeoutMs: 30000, workspaceDir: root });
+    });
+
+    afterEach(() => {
+      scoped.cleanup();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should return undefined when no path is requested', () => {
+      expect(scoped.resolveWorkingDir()).toBeUndefined();
+    });
+
+    it('should resolve a directory under the workspace root', () => {
+      expect(scoped.resolveWorkingDir('my-repo')).toBe(path.join(fs.realpathSync(root), 'my-repo'));
+    });
+
+    it('should reject path traversal', () => {
+      expect(() => scoped.resolveWorkingDir('../')).toThrow('is outside');
+      expect(() => scoped.resolveWorkingDir('/etc')).toThrow('is outside');
+    });
+
+    it('should reject symlinks that escape the workspace root', () => {
+      fs.symlinkSync(os.tmpdir(), path.join(root, 'escape'));
+      expect(() => scoped.resolveWorkingDir('escape')).toThrow('is outside');
+    });
+
+    it('should reject missing directories', () => {
+      expect(() => scoped.resolveWorkingDir('missing')).toThrow('is not a directory');
+    });
+  });
+
   describe('pauseTask', () => {
     it('should return false for non-existent task', async () => {
       const result = await execution.pauseTask('non-existent');
@@ -584,7 +1035,7 @@ describe('ExecutionManager', () => {
       await executePromise;
     });
 
-    it('should return false for OpenCode server session', async () => {
+    it('should abort the current turn of an OpenCode server session', async () => {
       const serverExecution = new ExecutionManager({
         image: 'test-image',
         timeoutMs: 30000,
@@ -600,27 +1051,91 @@ describe('ExecutionManager', () => {
         sessionId: 'session-pause',
       });
       mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.abortSession.mockResolvedValue(undefined);
 
-      let completeTask: Function;
+      let emit: Function;
       mockOpenCodeClient.subscribeToEvents.mockImplementation(
         (sessionId: string, onEvent: Function) => {
-          completeTask = () => onEvent({ type: 'complete', data: null });
+          emit = onEvent;
+        }
+      );
+
+      let settled = false;
+      const executePromise = serverExecution
+        .execute({
+          taskId: 'server-task-pause',
+          agentId: 'agent-456',
+          prompt: 'Running',
+          workspaceBlockId: 'block-server-pause',
+        })
+        .finally(() => {
+          settled = true;
+        });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const pauseResult = await serverExecution.pauseTask('server-task-pause');
+      expect(pauseResult).toBe(true);
+      expect(mockOpenCodeClient.abortSession).toHaveBeenCalledWith('session-pause');
+
+      // The idle event caused by the abort must not finish the task
+      emit!({ type: 'session.idle', data: null });
+      await new Promise((resolve) => setTimeout(resolve, 150));
+      expect(settled).toBe(false);
+      expect(serverExecution.isTaskActive('server-task-pause')).toBe(true);
+
+      await serverExecution.resumeTask('server-task-pause');
+      // The trailing idle of the aborted turn must not finish the resumed one either
+      emit!({ type: 'session.idle', data: null });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(settled).toBe(false);
+      emit!({ type: 'session.status', data: { status: { type: 'busy' } } });
+      emit!({ type: 'session.idle', data: null });
+      const result = await executePromise;
+      expect(result.status).toBe('success');
+      serverExecution.cleanup();
+    });
+
+    it('should not pause an OpenCode server session twice', async () => {
+      const serverExecution = new ExecutionManager({
+        image: 'test-image',
+        timeoutMs: 30000,
+        openCodeServerEnabled: true,
+        openCodeServerUrl: 'http://localhost:3100',
+      });
+
+      mockOpenCodeClient = (OpenCodeClientManager as jest.Mock).mock.results[
+        (OpenCodeClientManager as jest.Mock).mock.results.length - 1
+      ]?.value;
+
+      mockOpenCodeClient.createSession.mockResolvedValue({
+        sessionId: 'session-pause-twice',
+      });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.abortSession.mockResolvedValue(undefined);
+
+      let emit: Function;
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function) => {
+          emit = onEvent;
         }
       );
 
       const executePromise = serverExecution.execute({
-        taskId: 'server-task-pause',
+        taskId: 'server-task-pause-twice',
         agentId: 'agent-456',
         prompt: 'Running',
-        workspaceBlockId: 'block-server-pause',
+        workspaceBlockId: 'block-server-pause-twice',
       });
 
       await new Promise((resolve) => setTimeout(resolve, 50));
 
-      const pauseResult = await serverExecution.pauseTask('server-task-pause');
-      expect(pauseResult).toBe(false);
+      expect(await serverExecution.pauseTask('server-task-pause-twice')).toBe(true);
+      expect(await serverExecution.pauseTask('server-task-pause-twice')).toBe(false);
 
-      completeTask!();
+      await serverExecution.resumeTask('server-task-pause-twice');
+      emit!({ type: 'session.status', data: { status: { type: 'busy' } } });
+      emit!({ type: 'session.idle', data: null });
       await executePromise;
       serverExecution.cleanup();
     });
@@ -661,7 +1176,7 @@ describe('ExecutionManager', () => {
       await executePromise;
     });
 
-    it('should return false for OpenCode server session', async () => {
+    it('should return false when the OpenCode server session is not paused', async () => {
       const serverExecution = new ExecutionManager({
         image: 'test-image',
         timeoutMs: 30000,
@@ -681,7 +1196,7 @@ describe('ExecutionManager', () => {
       let completeTask: Function;
       mockOpenCodeClient.subscribeToEvents.mockImplementation(
         (sessionId: string, onEvent: Function) => {
-          completeTask = () => onEvent({ type: 'complete', data: null });
+          completeTask = () => onEvent({ type: 'session.idle', data: null });
         }
       );
 
@@ -696,11 +1211,123 @@ describe('ExecutionManager', () => {
 
       const resumeResult = await serverExecution.resumeTask('server-task-resume');
       expect(resumeResult).toBe(false);
+      expect(mockOpenCodeClient.sendMessageAsync).not.toHaveBeenCalled();
 
       completeTask!();
       await executePromise;
       serverExecution.cleanup();
     });
+
+    it('should re-prompt the paused session with messages queued during the pause', async () => {
+      const serverExecution = new ExecutionManager({
+        image: 'test-image',
+        timeoutMs: 30000,
+        openCodeServerEnabled: true,
+        openCodeServerUrl: 'http://localhost:3100',
+      });
+
+      mockOpenCodeClient = (OpenCodeClientManager as jest.Mock).mock.results[
+        (OpenCodeClientManager as jest.Mock).mock.results.length - 1
+      ]?.value;
+
+      mockOpenCodeClient.createSession.mockResolvedValue({
+        sessionId: 'session-resume-queued',
+      });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.abortSession.mockResolvedValue(undefined);
+      mockOpenCodeClient.sendMessageAsync.mockResolvedValue(undefined);
+
+      let completeTask: Function;
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function) => {
+          completeTask = () => {
+            onEvent({ type: 'session.status', data: { status: { type: 'busy' } } });
+            onEvent({ type: 'session.idle', data: null });
+          };
+        }
+      );
+
+      const executePromise = serverExecution.execute({
+        taskId: 'server-task-resume-queued',
+        agentId: 'agent-456',
+        prompt: 'Running',
+        workspaceBlockId: 'block-server-resume-queued',
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      await serverExecution.pauseTask('server-task-resume-queued');
+      const delivery = await serverExecution.sendTaskMessage(
+        'server-task-resume-queued',
+        'Use tabs, not spaces'
+      );
+      expect(delivery).toBe('queued');
+      expect(mockOpenCodeClient.sendMessageAsync).not.toHaveBeenCalled();
+
+      const resumeResult = await serverExecution.resumeTask('server-task-resume-queued');
+      expect(resumeResult).toBe(true);
+      expect(mockOpenCodeClient.sendMessageAsync).toHaveBeenCalledWith(
+        'session-resume-queued',
+        expect.stringContaining('Continue where you left off'),
+        { providerId: 'anthropic', modelId: 'claude-sonnet-4-5-20250929' }
+      );
+      expect(mockOpenCodeClient.sendMessageAsync.mock.calls[0][1]).toContain(
+        'Use tabs, not spaces'
+      );
+
+      completeTask!();
+      await executePromise;
+      serverExecution.cleanup();
+    });
+
+    it('should suspend the timeout while paused', async () => {
+      const serverExecution = new ExecutionManager({
+        image: 'test-image',
+        timeoutMs: 200,
+        openCodeServerEnabled: true,
+        openCodeServerUrl: 'http://localhost:3100',
+      });
+
+      mockOpenCodeClient = (OpenCodeClientManager as jest.Mock).mock.results[
+        (OpenCodeClientManager as jest.Mock).mock.results.length - 1
+      ]?.value;
+
+      mockOpenCodeClient.createSession.mockResolvedValue({
+        sessionId: 'session-timeout-paused',
+      });
+      mockOpenCodeClient.sendPrompt.mockResolvedValue(undefined);
+      mockOpenCodeClient.abortSession.mockResolvedValue(undefined);
+      mockOpenCodeClient.sendMessageAsync.mockResolvedValue(undefined);
+
+      let completeTask: Function;
+      mockOpenCodeClient.subscribeToEvents.mockImplementation(
+        (sessionId: string, onEvent: Function) => {
+          completeTask = () => {
+            onEvent({ type: 'session.status', data: { status: { type: 'busy' } } });
+            onEvent({ type: 'session.idle', data: null });
+          };
+        }
+      );
+
+      const executePromise = serverExecution.execute({
+        taskId: 'server-task-timeout-paused',
+        agentId: 'agent-456',
+        prompt: 'Running',
+        workspaceBlockId: 'block-server-timeout-paused',
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      await serverExecution.pauseTask('server-task-timeout-paused');
+
+      // Longer than the whole timeout budget
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      await serverExecution.resumeTask('server-task-timeout-paused');
+
+      completeTask!();
+      const result = await executePromise;
+      expect(result.status).toBe('success');
+      serverExecution.cleanup();
+    });
   });
 
   describe('cancelTask', () => {
@@ -738,7 +1365,7 @@ describe('ExecutionManager', () => {
       let completeTask: Function;
       mockOpenCodeClient.subscribeToEvents.mockImplementation(
         (sessionId: string, onEvent: Function) => {
-          completeTask = () => onEvent({ type: 'complete', data: null });
+          completeTask = () => onEvent({ type: 'session.idle', data: null });
         }
       );
 
@@ -788,7 +1415,7 @@ describe('ExecutionManager', () => {
       let completeTask: Function;
       mockOpenCodeClient.subscribeToEvents.mockImplementation(
         (sessionId: string, onEvent: Function) => {
-          completeTask = () => onEvent({ type: 'complete', data: null });
+          completeTask = () => onEvent({ type: 'session.idle', data: null });
         }
       );
 
@@ -1,4 +1,5 @@
 import {
+  getTaskDiff,
   getTaskFiles,
   readTaskFile,
   type GetTaskFilesParams,
@@ -7,6 +8,7 @@ import {
 } from '../../src/tools/file-access-tools.js';
 import type { ExecutionManager } from '../../src/execution-manager.js';
 import type { TaskRegistry } from '../../src/task-registry.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
 
 describe('file-access-tools', () => {
   let mockContext: jest.Mocked<FileAccessContext>;
@@ -435,4 +437,112 @@ describe('file-access-tools', () => {
       });
     });
   });
+
+  describe('getTaskDiff', () => {
+    let mockWorkspace: jest.Mocked<WorkspaceManager>;
+
+    const gitDiff =
+      'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n' +
+      '@@ -1,2 +1,2 @@\n a\n-b\n+c\n' +
+      'diff --git a/docs/readme.md b/docs/readme.md\n--- a/docs/readme.md\n+++ b/docs/readme.md\n' +
+      '@@ -1 +1,2 @@\n x\n+y\n';
+
+    beforeEach(() => {
+      mockWorkspace = {
+        getWorkspace: jest.fn(),
+      } as unknown as jest.Mocked<WorkspaceManager>;
+      (mockExecution as any).getTaskDiff = jest.fn();
+      mockRegistry.getTask.mockReturnValue({
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: Date.now(),
+        workspaceBlockId: 'block-123',
+      } as any);
+    });
+
+    it('should throw error when task not found', async () => {
+      mockRegistry.getTask.mockReturnValue(undefined);
+
+      await expect(
+        getTaskDiff({ task_id: 'missing' }, { ...mockContext, workspace: mockWorkspace })
+      ).rejects.toThrow('Task not found: missing');
+    });
+
+    it('should build per-file diffs from the live session for active tasks', async () => {
+      mockExecution.isTaskActive.mockReturnValue(true);
+      (mockExecution.getTaskDiff as jest.Mock).mockReturnValue([
+        { path: 'src/a.ts', before: 'a\nb\n', after: 'a\nc\n', additions: 1, deletions: 1 },
+      ]);
+
+      const result = await getTaskDiff(
+        { task_id: 'task-123' },
+        { ...mockContext, workspace: mockWorkspace }
+      );
+
+      expect(result.source).toBe('session');
+      expect(result.files).toHaveLength(1);
+      expect(result.files[0].path).toBe('src/a.ts');
+      expect(result.files[0].diff).toContain('-b\n+c');
+      expect(result.additions).toBe(1);
+      expect(result.deletions).toBe(1);
+      expect(mockWorkspace.getWorkspace).not.toHaveBeenCalled();
+    });
+
+    it('should split the stored git diff artifact for completed tasks', async () => {
+      mockExecution.isTaskActive.mockReturnValue(false);
+      mockWorkspace.getWorkspace.mockResolvedValue({
+        artifacts: [
+          { timestamp: 1, type: 'output', name: 'execution_output', content: 'done' },
+          {
+            timestamp: 1,
+            type: 'diff',
+            name: 'git_diff',
+            content: gitDiff,
+            metadata: { truncated: false },
+          },
+        ],
+      } as any);
+
+      const result = await getTaskDiff(
+        { task_id: 'task-123' },
+        { ...mockContext, workspace: mockWorkspace }
+      );
+
+      expect(result.source).toBe('artifact');
+      expect(result.files.map((f) => f.path)).toEqual(['src/a.ts', 'docs/readme.md']);
+      expect(result.additions).toBe(2);
+      expect(result.deletions).toBe(1);
+      expect(result.truncated).toBe(false);
+    });
+
+    it('should filter files by path prefix', async () => {
+      mockExecution.isTaskActive.mockReturnValue(false);
+      mockWorkspace.getWorkspace.mockResolvedValue({
+        artifacts: [{ timestamp: 1, type: 'diff', name: 'git_diff', content: gitDiff }],
+      } as any);
+
+      const result = await getTaskDiff(
+        { task_id: 'task-123', path: 'docs/' },
+        { ...mockContext, workspace: mockWorkspace }
+      );
+
+      expect(result.files.map((f) => f.path)).toEqual(['docs/readme.md']);
+      expect(result.additions).toBe(1);
+      expect(result.deletions).toBe(0);
+    });
+
+    it('should return no files when a completed task has no diff artifact', async () => {
+      mockExecution.isTaskActive.mockReturnValue(false);
+      mockWorkspace.getWorkspace.mockResolvedValue({ artifacts: [] } as any);
+
+      const result = await getTaskDiff(
+        { task_id: 'task-123' },
+        { ...mockContext, workspace: mockWorkspace }
+      );
+
+      expect(result.source).toBe('none');
+      expect(result.files).toEqual([]);
+    });
+  });
 });
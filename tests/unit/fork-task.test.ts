@@ -0,0 +1,136 @@
+import { forkTask } from '../../src/tools/fork-task.js';
+import type { ExecuteTaskDependencies } from '../../src/tools/execute-task.js';
+import { TaskRegistry } from '../../src/task-registry.js';
+import { TaskQueue } from '../../src/task-queue.js';
+import type { LettaClient } from '../../src/letta-client.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+
+const parentModel = { providerId: 'openai', modelId: 'gpt-5' };
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('forkTask', () => {
+  let registry: TaskRegistry;
+  let mockWorkspace: jest.Mocked<WorkspaceManager>;
+  let mockExecution: jest.Mocked<ExecutionManager>;
+  let deps: ExecuteTaskDependencies;
+
+  beforeEach(() => {
+    // Keep the registry's hourly cleanup interval off the real clock
+    jest.useFakeTimers();
+    registry = new TaskRegistry({ maxConcurrentTasks: 10, idempotencyWindowMs: 60000 });
+    jest.useRealTimers();
+
+    registry.register('task-1', 'agent-1', undefined, {
+      model: parentModel,
+      workingDir: '/workspace/repo',
+      priority: 'high',
+    });
+    registry.updateStatus('task-1', 'completed', { workspaceBlockId: 'block-1' });
+
+    mockWorkspace = {
+      createWorkspaceBlock: jest.fn().mockResolvedValue({ blockId: 'block-2', workspace: {} }),
+      getWorkspace: jest.fn().mockResolvedValue({
+        metadata: { task_description: 'Speed up the importer' },
+      }),
+      updateWorkspace: jest.fn().mockResolvedValue({}),
+      detachWorkspaceBlock: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<WorkspaceManager>;
+    mockExecution = {
+      execute: jest.fn().mockResolvedValue({
+        taskId: 'fork',
+        status: 'success',
+        output: 'Done',
+        startedAt: Date.now(),
+        completedAt: Date.now(),
+        durationMs: 1000,
+      }),
+      resolveModel: jest.fn((requested) => requested),
+      resolveWorkingDir: jest.fn((workspacePath) => workspacePath),
+      hasForkableSession: jest.fn().mockReturnValue(true),
+      forkTaskSession: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<ExecutionManager>;
+
+    deps = {
+      letta: {
+        sendMessage: jest.fn().mockResolvedValue(undefined),
+      } as unknown as jest.Mocked<LettaClient>,
+      workspace: mockWorkspace,
+      execution: mockExecution,
+      registry,
+      queue: new TaskQueue({ maxConcurrentTasks: 2, maxQueuedTasks: 2 }),
+    };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should start a new task from a copy of the parent session', async () => {
+    const result = await forkTask(
+      { task_id: 'task-1', prompt: 'Try a worker pool instead', sync: false },
+      deps
+    );
+    const forkId = result.task_id as string;
+
+    expect(result).toMatchObject({ status: 'queued', parent_task_id: 'task-1' });
+    expect(forkId).not.toBe('task-1');
+    expect(registry.getTask(forkId)).toMatchObject({
+      parentTaskId: 'task-1',
+      agentId: 'agent-1',
+      model: parentModel,
+      workingDir: '/workspace/repo',
+      priority: 'high',
+    });
+    expect(mockExecution.forkTaskSession).toHaveBeenCalledWith('task-1', forkId, 'agent-1');
+    expect(mockWorkspace.createWorkspaceBlock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({ parent_task_id: 'task-1' }),
+      })
+    );
+
+    await flush();
+
+    expect(mockExecution.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        taskId: forkId,
+        baseBranch: 'opencode/task-1',
+        continuePrompt: 'Try a worker pool instead',
+        prompt: 'Speed up the importer\n\n## Follow-up\nTry a worker pool instead',
+      }),
+      expect.any(Function)
+    );
+    expect(registry.getLineage(forkId)).toEqual(['task-1']);
+  });
+
+  it('should reject a task that is still running', async () => {
+    registry.updateStatus('task-1', 'running');
+
+    const result = await forkTask(
+      { task_id: 'task-1', prompt: 'Try a worker pool instead', sync: false },
+      deps
+    );
+
+    expect(result).toMatchObject({ code: 'TASK_NOT_FORKABLE', status: 409 });
+    expect(mockExecution.forkTaskSession).not.toHaveBeenCalled();
+    expect(registry.getAllTasks()).toHaveLength(1);
+  });
+
+  it('should reject tasks without a session to copy', async () => {
+    mockExecution.hasForkableSession.mockReturnValue(false);
+
+    const result = await forkTask(
+      { task_id: 'task-1', prompt: 'Try a worker pool instead', sync: false },
+      deps
+    );
+
+    expect(result).toMatchObject({ code: 'SESSION_EXPIRED', status: 410 });
+    expect(registry.getAllTasks()).toHaveLength(1);
+  });
+
+  it('should throw for an unknown task', async () => {
+    await expect(
+      forkTask({ task_id: 'missing', prompt: 'Try a worker pool instead', sync: false }, deps)
+    ).rejects.toThrow('Task missing not found');
+  });
+});
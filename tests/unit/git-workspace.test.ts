@@ -0,0 +1,141 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  captureTaskChanges,
+  createTaskWorktree,
+  isGitRepository,
+  removeTaskWorktree,
+} from '../../src/git-workspace.js';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf8' });
+}
+
+describe('git-workspace', () => {
+  let root: string;
+  let repoDir: string;
+  let worktreeRoot: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'git-workspace-'));
+    repoDir = path.join(root, 'repo');
+    worktreeRoot = path.join(root, '.opencode-worktrees');
+
+    fs.mkdirSync(repoDir);
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'config', 'user.name', 'Test');
+    git(repoDir, 'config', 'user.email', 'test@example.com');
+    fs.writeFileSync(path.join(repoDir, 'README.md'), 'hello\n');
+    git(repoDir, 'add', '.');
+    git(repoDir, 'commit', '-q', '-m', 'Initial commit');
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('should detect git repositories', async () => {
+    await expect(isGitRepository(repoDir)).resolves.toBe(true);
+    await expect(isGitRepository(root)).resolves.toBe(false);
+  });
+
+  it('should create a worktree on a task branch', async () => {
+    const worktree = await createTaskWorktree(repoDir, worktreeRoot, 'task-1');
+
+    expect(worktree.branch).toBe('opencode/task-1');
+    expect(worktree.path).toBe(path.join(worktreeRoot, 'task-1'));
+    expect(worktree.baseCommit).toBe(git(repoDir, 'rev-parse', 'HEAD').trim());
+    expect(fs.readFileSync(path.join(worktree.path, 'README.md'), 'utf8')).toBe('hello\n');
+  });
+
+  it('should commit leftover changes and summarise the branch', async () => {
+    const worktree = await createTaskWorktree(repoDir, worktreeRoot, 'task-2');
+    fs.writeFileSync(path.join(worktree.path, 'README.md'), 'hello\nworld\n');
+    fs.writeFileSync(path.join(worktree.path, 'new.txt'), 'new\n');
+
+    const changes = await captureTaskChanges(worktree, 'task-2');
+
+    expect(changes.branch).toBe('opencode/task-2');
+    expect(changes.commits).toHaveLength(1);
+    expect(changes.commits[0].subject).toBe('OpenCode task task-2');
+    expect(changes.files).toEqual([
+      { path: 'README.md', additions: 1, deletions: 0 },
+      { path: 'new.txt', additions: 1, deletions: 0 },
+    ]);
+    expect(changes.diff).toContain('+world');
+    // The shared checkout is untouched
+    expect(fs.readFileSync(path.join(repoDir, 'README.md'), 'utf8')).toBe('hello\n');
+  });
+
+  it('should keep a worktree root inside the repository out of its status', async () => {
+    const innerRoot = path.join(repoDir, '.opencode-worktrees');
+
+    await createTaskWorktree(repoDir, innerRoot, 'task-10');
+    await createTaskWorktree(repoDir, innerRoot, 'task-11');
+
+    const exclude = fs.readFileSync(path.join(repoDir, '.git', 'info', 'exclude'), 'utf8');
+    expect(git(repoDir, 'status', '--porcelain')).toBe('');
+    expect(exclude.split('\n').filter((line) => line === '/.opencode-worktrees/')).toHaveLength(1);
+  });
+
+  it('should remove the worktree but keep the branch', async () => {
+    const worktree = await createTaskWorktree(repoDir, worktreeRoot, 'task-3');
+
+    await removeTaskWorktree(worktree);
+
+    expect(fs.existsSync(worktree.path)).toBe(false);
+    expect(git(repoDir, 'branch', '--list', 'opencode/task-3')).toContain('opencode/task-3');
+  });
+
+  it('should start a new task branch from a base branch when it exists', async () => {
+    const parent = await createTaskWorktree(repoDir, worktreeRoot, 'task-5');
+    fs.writeFileSync(path.join(parent.path, 'parent.txt'), 'parent\n');
+    await captureTaskChanges(parent, 'task-5');
+
+    const fork = await createTaskWorktree(repoDir, worktreeRoot, 'task-6', parent.branch);
+    const fresh = await createTaskWorktree(repoDir, worktreeRoot, 'task-7', 'opencode/missing');
+
+    expect(fork.baseCommit).toBe(git(repoDir, 'rev-parse', parent.branch).trim());
+    expect(fs.existsSync(path.join(fork.path, 'parent.txt'))).toBe(true);
+    expect(fresh.baseCommit).toBe(git(repoDir, 'rev-parse', 'HEAD').trim());
+  });
+
+  it('should check an existing task branch out again for a retry', async () => {
+    const first = await createTaskWorktree(repoDir, worktreeRoot, 'task-4');
+    fs.writeFileSync(path.join(first.path, 'partial.txt'), 'attempt 1\n');
+    await captureTaskChanges(first, 'task-4');
+    await removeTaskWorktree(first);
+
+    const retry = await createTaskWorktree(repoDir, worktreeRoot, 'task-4');
+    fs.writeFileSync(path.join(retry.path, 'done.txt'), 'attempt 2\n');
+    const changes = await captureTaskChanges(retry, 'task-4');
+
+    expect(retry.baseCommit).toBe(first.baseCommit);
+    expect(fs.readFileSync(path.join(retry.path, 'partial.txt'), 'utf8')).toBe('attempt 1\n');
+    expect(changes.commits).toHaveLength(2);
+    expect(changes.files.map((file) => file.path)).toEqual(['done.txt', 'partial.txt']);
+  });
+
+  it('should keep the original base commit when a forked branch is retried', async () => {
+    const parent = await createTaskWorktree(repoDir, worktreeRoot, 'task-8');
+    fs.writeFileSync(path.join(parent.path, 'parent.txt'), 'parent\n');
+    await captureTaskChanges(parent, 'task-8');
+
+    const first = await createTaskWorktree(repoDir, worktreeRoot, 'task-9', parent.branch);
+    fs.writeFileSync(path.join(first.path, 'fork.txt'), 'fork\n');
+    await captureTaskChanges(first, 'task-9');
+    await removeTaskWorktree(first);
+
+    fs.writeFileSync(path.join(repoDir, 'main.txt'), 'main\n');
+    git(repoDir, 'add', '.');
+    git(repoDir, 'commit', '-q', '-m', 'Move HEAD');
+
+    const retry = await createTaskWorktree(repoDir, worktreeRoot, 'task-9');
+    const changes = await captureTaskChanges(retry, 'task-9');
+
+    expect(retry.baseCommit).toBe(first.baseCommit);
+    expect(changes.files.map((file) => file.path)).toEqual(['fork.txt']);
+  });
+});
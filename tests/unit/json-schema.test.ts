@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { toInputSchema } from '../../src/tools/json-schema.js';
+import { GetTaskChannelSchema } from '../../src/tools/task-coordination-tools.js';
+
+describe('toInputSchema', () => {
+  it('should convert a zod object to an MCP input schema', () => {
+    const schema = z.object({
+      task_id: z.string().describe('Task ID'),
+      limit: z.number().optional().default(10),
+      mode: z.enum(['fast', 'slow']).optional(),
+    });
+
+    const inputSchema = toInputSchema(schema);
+
+    expect(inputSchema.type).toBe('object');
+    expect(inputSchema).not.toHaveProperty('$schema');
+    expect(inputSchema.properties).toEqual({
+      task_id: { type: 'string', description: 'Task ID' },
+      limit: { type: 'number', default: 10 },
+      mode: { type: 'string', enum: ['fast', 'slow'] },
+    });
+    expect(inputSchema.required).toEqual(['task_id']);
+  });
+
+  it('should unwrap refined schemas', () => {
+    const inputSchema = toInputSchema(GetTaskChannelSchema);
+
+    expect(inputSchema.type).toBe('object');
+    expect(Object.keys(inputSchema.properties ?? {})).toEqual(['task_id', 'channel_id']);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
 import { LettaClient } from '../../src/letta-client.js';
 
 // Mock the SDK client
@@ -25,7 +25,13 @@ jest.mock('@letta-ai/letta-client', () => {
   };
 });
 
+jest.mock('@letta-ai/letta-client/core/fetcher/index.js', () => ({
+  fetcher: jest.fn(),
+}));
+
 import { LettaClient as SDKLettaClient } from '@letta-ai/letta-client';
+import { fetcher as sdkFetcher } from '@letta-ai/letta-client/core/fetcher/index.js';
+import { lettaRetries } from '../../src/metrics.js';
 
 describe('LettaClient', () => {
   let client: LettaClient;
@@ -239,6 +245,7 @@ describe('LettaClient', () => {
       expect(SDKLettaClient).toHaveBeenCalledWith({
         baseUrl: 'https://api.example.com',
         token: 'test-key',
+        fetcher: expect.any(Function),
       });
     });
 
@@ -278,4 +285,64 @@ describe('LettaClient', () => {
       );
     });
   });
+
+  describe('Request instrumentation', () => {
+    const args = { url: 'https://api.example.com/v1/agents', method: 'GET', maxRetries: 2 };
+    let instrumentedFetcher: (a: typeof args) => Promise<any>;
+    const mockFetcher = sdkFetcher as unknown as jest.Mock<(...a: any[]) => Promise<any>>;
+
+    beforeEach(() => {
+      const calls = (SDKLettaClient as unknown as jest.Mock<(options: any) => unknown>).mock.calls;
+      instrumentedFetcher = calls[calls.length - 1][0].fetcher;
+      mockFetcher.mockReset();
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should retry server errors and count the retries', async () => {
+      const before = (await lettaRetries.get()).values.find((v) => v.labels.method === 'GET');
+      mockFetcher
+        .mockResolvedValueOnce({ ok: false, error: { reason: 'status-code', statusCode: 503 } })
+        .mockResolvedValueOnce({ ok: true, body: { id: 'agent-123' } });
+
+      const pending = instrumentedFetcher(args);
+      await jest.advanceTimersByTimeAsync(2000);
+      const response = await pending;
+
+      expect(response).toEqual({ ok: true, body: { id: 'agent-123' } });
+      expect(mockFetcher).toHaveBeenCalledTimes(2);
+      expect(mockFetcher).toHaveBeenCalledWith({ ...args, maxRetries: 0 });
+      const after = (await lettaRetries.get()).values.find((v) => v.labels.method === 'GET');
+      expect((after?.value ?? 0) - (before?.value ?? 0)).toBe(1);
+    });
+
+    it('should not retry client errors', async () => {
+      mockFetcher.mockResolvedValueOnce({
+        ok: false,
+        error: { reason: 'status-code', statusCode: 404 },
+      });
+
+      const response = await instrumentedFetcher(args);
+
+      expect(response.ok).toBe(false);
+      expect(mockFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after maxRetries attempts', async () => {
+      mockFetcher.mockResolvedValue({
+        ok: false,
+        error: { reason: 'status-code', statusCode: 500 },
+      });
+
+      const pending = instrumentedFetcher(args);
+      await jest.advanceTimersByTimeAsync(10000);
+      const response = await pending;
+
+      expect(response.ok).toBe(false);
+      expect(mockFetcher).toHaveBeenCalledTimes(3);
+    });
+  });
 });
@@ -0,0 +1,107 @@
+import { MatrixMessageRouter } from '../../src/matrix-message-router.js';
+import { PermissionGate } from '../../src/permission-gate.js';
+import type { MatrixClientWrapper } from '../../src/matrix-client.js';
+import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+import type { TaskRegistry } from '../../src/task-registry.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+
+const task = {
+  taskId: 'task-1',
+  agentId: 'agent-1',
+  status: 'running',
+  createdAt: 1000,
+  workspaceBlockId: 'block-1',
+  matrixRoom: {
+    roomId: '!room:matrix.org',
+    taskId: 'task-1',
+    createdAt: 1000,
+    participants: [
+      { id: '@calling-agent:matrix.org', type: 'agent', role: 'calling_agent', invitedAt: 1000 },
+      { id: '@observer:matrix.org', type: 'human', role: 'observer', invitedAt: 1000 },
+    ],
+  },
+};
+
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+describe('MatrixMessageRouter', () => {
+  let listener: (roomId: string, event: unknown) => void;
+  let mockExecution: jest.Mocked<ExecutionManager>;
+  let permissions: PermissionGate;
+  let router: MatrixMessageRouter;
+
+  function reply(sender: string, body: string): void {
+    listener('!room:matrix.org', {
+      event_id: `$${sender}`,
+      type: 'm.room.message',
+      sender,
+      origin_server_ts: 2000,
+      content: { msgtype: 'm.text', body },
+    });
+  }
+
+  beforeEach(() => {
+    mockExecution = {
+      respondToPermission: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<ExecutionManager>;
+    permissions = new PermissionGate(
+      { timeoutMs: 60000, defaultDecision: 'reject' },
+      mockExecution
+    );
+    permissions.request({
+      permissionId: 'perm-1',
+      taskId: 'task-1',
+      agentId: 'agent-1',
+      sessionId: 'session-1',
+      type: 'bash',
+      title: 'rm -rf dist',
+    });
+
+    const client = {
+      on: jest.fn((_event: string, handler: typeof listener) => {
+        listener = handler;
+      }),
+      removeListener: jest.fn(),
+    };
+    router = new MatrixMessageRouter({
+      matrix: { getClient: () => client } as unknown as MatrixClientWrapper,
+      rooms: {} as MatrixRoomManager,
+      registry: {
+        findTaskByMatrixRoom: jest.fn().mockReturnValue(task),
+      } as unknown as TaskRegistry,
+      workspace: {
+        appendEvent: jest.fn().mockResolvedValue(undefined),
+      } as unknown as WorkspaceManager,
+      permissions,
+      config: { permissionApprovers: ['@lead:matrix.org'] },
+    });
+    router.start();
+  });
+
+  afterEach(() => {
+    router.stop();
+    permissions.cleanup();
+  });
+
+  it('should ignore permission replies from observers', async () => {
+    reply('@observer:matrix.org', 'approve perm-1');
+    await flush();
+
+    expect(mockExecution.respondToPermission).not.toHaveBeenCalled();
+    expect(permissions.get('perm-1')).toBeDefined();
+  });
+
+  it.each(['@calling-agent:matrix.org', '@lead:matrix.org'])(
+    'should relay a permission reply from %s',
+    async (sender) => {
+      reply(sender, 'approve perm-1');
+      await flush();
+
+      expect(mockExecution.respondToPermission).toHaveBeenCalledWith('task-1', 'perm-1', 'once');
+      expect(permissions.get('perm-1')).toBeUndefined();
+    }
+  );
+});
@@ -0,0 +1,36 @@
+import { metricsRegistry, registerTaskSources, taskDuration } from '../../src/metrics.js';
+import type { TaskRegistry } from '../../src/task-registry.js';
+import type { TaskQueue } from '../../src/task-queue.js';
+
+describe('metrics', () => {
+  it('should report task counts by status and queue depth at scrape time', async () => {
+    registerTaskSources({
+      registry: {
+        getAllTasks: () => [
+          { taskId: 'task-1', status: 'running' },
+          { taskId: 'task-2', status: 'queued' },
+          { taskId: 'task-3', status: 'queued' },
+        ],
+      } as unknown as TaskRegistry,
+      queue: { getDepth: () => 2 } as unknown as TaskQueue,
+    });
+
+    const body = await metricsRegistry.metrics();
+
+    expect(body).toContain('letta_opencode_tasks{status="queued"} 2');
+    expect(body).toContain('letta_opencode_tasks{status="running"} 1');
+    expect(body).toContain('letta_opencode_tasks{status="completed"} 0');
+    expect(body).toContain('letta_opencode_queue_depth 2');
+  });
+
+  it('should record task durations in seconds', async () => {
+    taskDuration.observe({ status: 'completed' }, 42);
+
+    const body = await metricsRegistry.metrics();
+
+    expect(body).toContain(
+      'letta_opencode_task_duration_seconds_bucket{le="60",status="completed"} 1'
+    );
+    expect(body).toContain('letta_opencode_task_duration_seconds_sum{status="completed"} 42');
+  });
+});
@@ -6,12 +6,18 @@ const mockClient = {
   session: {
     create: jest.fn(),
     prompt: jest.fn(),
+    promptAsync: jest.fn(),
     get: jest.fn(),
     abort: jest.fn(),
+    messages: jest.fn(),
+    status: jest.fn(),
+    fork: jest.fn(),
+    update: jest.fn(),
   },
   event: {
     subscribe: jest.fn(),
   },
+  postSessionIdPermissionsPermissionId: jest.fn(),
   file: {
     status: jest.fn(),
     read: jest.fn(),
@@ -26,9 +32,21 @@ jest.mock('@opencode-ai/sdk', () => ({
 // Mock fetch globally
 global.fetch = jest.fn() as jest.MockedFunction<typeof fetch>;
 
+function streamOf(...events: Array<Record<string, unknown>>) {
+  return {
+    stream: (async function* () {
+      yield* events;
+    })(),
+  };
+}
+
 describe('OpenCodeClientManager', () => {
   let manager: OpenCodeClientManager;
 
+  afterEach(() => {
+    manager.cleanup();
+  });
+
   beforeEach(() => {
     jest.clearAllMocks();
 
@@ -193,9 +211,7 @@ describe('OpenCodeClientManager', () => {
       });
     });
 
-    it('should use custom working directory when provided (no longer in API)', async () => {
-      // OpenCode 1.0 SDK removed metadata from session.create
-      // Working directory is now handled via prompt context
+    it('should bind the session to the working directory when provided', async () => {
       mockClient.session.create.mockResolvedValue({
         data: {
           id: 'session-123',
@@ -204,13 +220,42 @@ describe('OpenCodeClientManager', () => {
 
       mockClient.session.prompt.mockResolvedValue({});
 
-      await manager.createSession('task-123', 'agent-456', 'Test prompt', '/custom/path');
+      const session = await manager.createSession(
+        'task-123',
+        'agent-456',
+        'Test prompt',
+        '/custom/path'
+      );
 
-      // Custom working dir is no longer passed in metadata
       expect(mockClient.session.create).toHaveBeenCalledWith({
         body: {
           title: 'Task: task-123 (agent: agent-456)',
         },
+        query: { directory: '/custom/path' },
+      });
+      expect(session.directory).toBe('/custom/path');
+      expect(manager.getSessionDirectory('session-123')).toBe('/custom/path');
+    });
+
+    it('should scope follow-up calls to the session directory', async () => {
+      mockClient.session.create.mockResolvedValue({ data: { id: 'session-123' } });
+      mockClient.session.promptAsync.mockResolvedValue({});
+      mockClient.file.status.mockResolvedValue({ data: [] });
+      mockClient.file.read.mockResolvedValue({ data: { content: '' } });
+
+      await manager.createSession('task-123', 'agent-456', 'Test prompt', '/custom/path');
+      await manager.sendMessageAsync('session-123', 'Follow-up');
+      await manager.listFiles('session-123');
+      await manager.readFile('session-123', 'src/index.ts');
+
+      expect(mockClient.session.promptAsync).toHaveBeenCalledWith(
+        expect.objectContaining({ query: { directory: '/custom/path' } })
+      );
+      expect(mockClient.file.status).toHaveBeenCalledWith({
+        query: { directory: '/custom/path' },
+      });
+      expect(mockClient.file.read).toHaveBeenCalledWith({
+        query: { path: 'src/index.ts', directory: '/custom/path' },
       });
     });
 
@@ -247,6 +292,40 @@ describe('OpenCodeClientManager', () => {
     });
   });
 
+  describe('forkSession', () => {
+    it('should fork in the source directory and title the copy for the new task', async () => {
+      mockClient.session.create.mockResolvedValue({ data: { id: 'session-123' } });
+      mockClient.session.fork.mockResolvedValue({ data: { id: 'session-456' } });
+      mockClient.session.update.mockResolvedValue({});
+      await manager.createSession('task-123', 'agent-456', 'Test prompt', '/repo');
+
+      const fork = await manager.forkSession('session-123', 'task-789', 'agent-456');
+
+      expect(mockClient.session.fork).toHaveBeenCalledWith({
+        path: { id: 'session-123' },
+        query: { directory: '/repo' },
+      });
+      expect(mockClient.session.update).toHaveBeenCalledWith({
+        path: { id: 'session-456' },
+        body: { title: 'Task: task-789 (agent: agent-456)' },
+        query: { directory: '/repo' },
+      });
+      expect(fork).toMatchObject({ sessionId: 'session-456', taskId: 'task-789' });
+      expect(manager.getActiveSession('task-789')?.directory).toBe('/repo');
+
+      manager.setSessionDirectory('task-789', '/worktrees/task-789');
+      expect(manager.getSessionDirectory('session-456')).toBe('/worktrees/task-789');
+    });
+
+    it('should throw when the fork fails', async () => {
+      mockClient.session.fork.mockResolvedValue({ error: { message: 'not found' } });
+
+      await expect(manager.forkSession('session-123', 'task-789', 'agent-456')).rejects.toThrow(
+        'Failed to fork session: Session fork failed'
+      );
+    });
+  });
+
   describe('sendPrompt', () => {
     it('should send enhanced prompt to session', async () => {
       mockClient.session.prompt.mockResolvedValue({});
@@ -361,9 +440,9 @@ describe('OpenCodeClientManager', () => {
       const mockStream = {
         stream: (async function* () {
           yield {
-            type: 'finish',
+            type: 'session.idle',
             properties: {
-              sessionId: 'session-abc',
+              sessionID: 'session-abc',
             },
           };
         })(),
@@ -379,22 +458,18 @@ describe('OpenCodeClientManager', () => {
 
       expect(onEvent).toHaveBeenCalledWith(
         expect.objectContaining({
-          type: 'complete',
+          type: 'session.idle',
           sessionId: 'session-abc',
         })
       );
     });
 
-    it('should normalize finish variants to complete events', async () => {
+    it('should pass completion-like event types through unchanged', async () => {
       const mockStream = {
         stream: (async function* () {
-          yield {
-            type: 'finish:part',
-            properties: {
-              sessionId: 'session-123',
-              part: 'final',
-            },
-          };
+          yield { type: 'finish:part', properties: { sessionId: 'session-123' } };
+          yield { type: 'task.success', properties: { sessionId: 'session-123' } };
+          yield { type: 'status', properties: { sessionId: 'session-123', status: 'Completed' } };
         })(),
       };
 
@@ -406,104 +481,212 @@ describe('OpenCodeClientManager', () => {
 
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      expect(onEvent).toHaveBeenCalledWith(
-        expect.objectContaining({
-          type: 'complete',
-          sessionId: 'session-123',
-        })
-      );
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'finish:part',
+        'task.success',
+        'status',
+      ]);
     });
 
-    it('should convert status events with completed state to complete', async () => {
-      const mockStream = {
-        stream: (async function* () {
-          yield {
-            type: 'status',
-            properties: {
-              sessionId: 'session-123',
-              status: 'Completed',
-            },
-          };
-        })(),
-      };
+    describe('when reconnects are exhausted', () => {
+      beforeEach(() => {
+        manager = new OpenCodeClientManager({
+          enabled: true,
+          serverUrl: 'http://localhost:3100',
+          healthCheckIntervalMs: 5000,
+          maxRetries: 0,
+          retryDelayMs: 10,
+        });
+      });
 
-      mockClient.event.subscribe.mockResolvedValue(mockStream);
+      it('should call onError when the event stream closes', async () => {
+        mockClient.event.subscribe.mockResolvedValue(
+          streamOf({ type: 'session.status', properties: { sessionID: 'session-123' } })
+        );
 
-      const onEvent = jest.fn();
+        const onEvent = jest.fn();
+        const onError = jest.fn();
 
-      await manager.subscribeToEvents('session-123', onEvent);
+        await manager.subscribeToEvents('session-123', onEvent, onError);
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+        await new Promise((resolve) => setTimeout(resolve, 100));
 
-      expect(onEvent).toHaveBeenCalledWith(
-        expect.objectContaining({
-          type: 'complete',
-          sessionId: 'session-123',
-        })
-      );
-    });
+        expect(onEvent).toHaveBeenCalledTimes(1);
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({ message: expect.stringContaining('Event stream closed') })
+        );
+      });
 
-    it('should call onError when event stream fails', async () => {
-      const mockStream = {
-        stream: (async function* () {
-          throw new Error('Stream error');
-        })(),
-      };
+      it('should call onError when event stream fails', async () => {
+        const mockStream = {
+          stream: (async function* () {
+            throw new Error('Stream error');
+          })(),
+        };
 
-      mockClient.event.subscribe.mockResolvedValue(mockStream);
+        mockClient.event.subscribe.mockResolvedValue(mockStream);
 
-      const onEvent = jest.fn();
-      const onError = jest.fn();
+        const onEvent = jest.fn();
+        const onError = jest.fn();
 
-      await manager.subscribeToEvents('session-123', onEvent, onError);
+        await manager.subscribeToEvents('session-123', onEvent, onError);
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+        await new Promise((resolve) => setTimeout(resolve, 100));
 
-      expect(onError).toHaveBeenCalledWith(expect.any(Error));
-    });
+        expect(onError).toHaveBeenCalledWith(expect.any(Error));
+      });
 
-    it('should call onError when subscription fails', async () => {
-      mockClient.event.subscribe.mockRejectedValue(new Error('Subscribe error'));
+      it('should call onError when subscription fails', async () => {
+        mockClient.event.subscribe.mockRejectedValue(new Error('Subscribe error'));
 
-      const onEvent = jest.fn();
-      const onError = jest.fn();
+        const onEvent = jest.fn();
+        const onError = jest.fn();
 
-      await manager.subscribeToEvents('session-123', onEvent, onError);
+        await manager.subscribeToEvents('session-123', onEvent, onError);
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+        await new Promise((resolve) => setTimeout(resolve, 100));
 
-      expect(onError).toHaveBeenCalledWith(
-        expect.objectContaining({
-          message: 'Subscribe error',
-        })
-      );
+        expect(onError).toHaveBeenCalledWith(
+          expect.objectContaining({
+            message: expect.stringContaining('Subscribe error'),
+          })
+        );
+      });
+
+      it('should handle non-Error exceptions in event stream', async () => {
+        const mockStream = {
+          stream: (async function* () {
+            throw 'String error';
+          })(),
+        };
+
+        mockClient.event.subscribe.mockResolvedValue(mockStream);
+
+        const onEvent = jest.fn();
+        const onError = jest.fn();
+
+        await manager.subscribeToEvents('session-123', onEvent, onError);
+
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(onError).toHaveBeenCalled();
+      });
+
+      it('should not fail if onError is not provided', async () => {
+        mockClient.event.subscribe.mockRejectedValue(new Error('Subscribe error'));
+
+        const onEvent = jest.fn();
+
+        await expect(manager.subscribeToEvents('session-123', onEvent)).resolves.not.toThrow();
+      });
     });
 
-    it('should handle non-Error exceptions in event stream', async () => {
-      const mockStream = {
-        stream: (async function* () {
-          throw 'String error';
-        })(),
-      };
+    it('should share one event stream across sessions', async () => {
+      mockClient.event.subscribe.mockResolvedValue(
+        streamOf(
+          { type: 'session.idle', properties: { sessionID: 'session-a' } },
+          { type: 'session.idle', properties: { sessionID: 'session-b' } },
+          { type: 'session.idle', properties: { sessionID: 'session-c' } }
+        )
+      );
 
-      mockClient.event.subscribe.mockResolvedValue(mockStream);
+      const onEventA = jest.fn();
+      const onEventB = jest.fn();
+
+      await Promise.all([
+        manager.subscribeToEvents('session-a', onEventA),
+        manager.subscribeToEvents('session-b', onEventB),
+      ]);
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(mockClient.event.subscribe).toHaveBeenCalledTimes(1);
+      expect(onEventA).toHaveBeenCalledTimes(1);
+      expect(onEventA).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-a' }));
+      expect(onEventB).toHaveBeenCalledTimes(1);
+      expect(onEventB).toHaveBeenCalledWith(expect.objectContaining({ sessionId: 'session-b' }));
+    });
+
+    it('should reconnect with backoff and report the gap', async () => {
+      manager = new OpenCodeClientManager({
+        enabled: true,
+        serverUrl: 'http://localhost:3100',
+        healthCheckIntervalMs: 5000,
+        maxRetries: 3,
+        retryDelayMs: 10,
+      });
+      mockClient.event.subscribe
+        .mockResolvedValueOnce(
+          streamOf({ type: 'session.status', properties: { sessionID: 'session-123' } })
+        )
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+        .mockResolvedValueOnce(
+          streamOf({ type: 'session.idle', properties: { sessionID: 'session-123' } })
+        )
+        .mockImplementation(() => new Promise(() => {}));
 
       const onEvent = jest.fn();
       const onError = jest.fn();
+      const onGap = jest.fn();
+
+      await manager.subscribeToEvents('session-123', onEvent, onError, onGap);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(mockClient.event.subscribe).toHaveBeenCalledTimes(4);
+      expect(onEvent.mock.calls.map(([event]) => event.type)).toEqual([
+        'session.status',
+        'session.idle',
+      ]);
+      expect(onGap).toHaveBeenCalledTimes(1);
+      expect(onGap).toHaveBeenCalledWith({
+        disconnectedAt: expect.any(Number),
+        reconnectedAt: expect.any(Number),
+        reconnects: 2,
+      });
+      expect(onError).not.toHaveBeenCalled();
+    });
 
-      await manager.subscribeToEvents('session-123', onEvent, onError);
+    it('should give up after maxRetries failed reconnects', async () => {
+      manager = new OpenCodeClientManager({
+        enabled: true,
+        serverUrl: 'http://localhost:3100',
+        healthCheckIntervalMs: 5000,
+        maxRetries: 2,
+        retryDelayMs: 10,
+      });
+      mockClient.event.subscribe.mockRejectedValue(new Error('ECONNREFUSED'));
 
-      await new Promise((resolve) => setTimeout(resolve, 100));
+      const onError = jest.fn();
+
+      await manager.subscribeToEvents('session-123', jest.fn(), onError);
 
-      expect(onError).toHaveBeenCalled();
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(mockClient.event.subscribe).toHaveBeenCalledTimes(3);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: 'Event stream lost after 2 reconnect attempts: ECONNREFUSED',
+        })
+      );
     });
 
-    it('should not fail if onError is not provided', async () => {
-      mockClient.event.subscribe.mockRejectedValue(new Error('Subscribe error'));
+    it('should close the stream once the last session unsubscribes', async () => {
+      let signal: AbortSignal | undefined;
+      mockClient.event.subscribe.mockImplementation((options: { signal: AbortSignal }) => {
+        signal = options.signal;
+        return new Promise(() => {});
+      });
 
-      const onEvent = jest.fn();
+      await manager.subscribeToEvents('session-a', jest.fn());
+      await manager.subscribeToEvents('session-b', jest.fn());
+
+      manager.unsubscribeFromEvents('session-a');
+      expect(signal?.aborted).toBe(false);
 
-      await expect(manager.subscribeToEvents('session-123', onEvent)).resolves.not.toThrow();
+      manager.unsubscribeFromEvents('session-b');
+      expect(signal?.aborted).toBe(true);
     });
   });
 
@@ -570,6 +753,74 @@ describe('OpenCodeClientManager', () => {
     });
   });
 
+  describe('getSessionSnapshot', () => {
+    const assistant = (error?: Record<string, unknown>) => ({
+      info: { id: 'msg-2', role: 'assistant', sessionID: 'session-123', cost: 0.01, error },
+      parts: [{ id: 'part-1', type: 'text', text: 'Recovered output' }],
+    });
+
+    it('should replay messages and report an idle session', async () => {
+      mockClient.session.messages.mockResolvedValue({
+        data: [{ info: { id: 'msg-1', role: 'user' }, parts: [] }, assistant()],
+      });
+      mockClient.session.status.mockResolvedValue({ data: {} });
+
+      const events = await manager.getSessionSnapshot('session-123');
+
+      expect(mockClient.session.messages).toHaveBeenCalledWith({ path: { id: 'session-123' } });
+      expect(events.map((event) => event.type)).toEqual([
+        'message.updated',
+        'message.updated',
+        'message.part.updated',
+        'session.status',
+      ]);
+      expect(events[2].data).toEqual({
+        sessionID: 'session-123',
+        part: { id: 'part-1', type: 'text', text: 'Recovered output' },
+      });
+      expect(events[3].data).toEqual({ sessionID: 'session-123', status: { type: 'idle' } });
+    });
+
+    it('should report the error of an idle session whose last reply failed', async () => {
+      const error = { name: 'ProviderAuthError', data: { message: 'Invalid API key' } };
+      mockClient.session.messages.mockResolvedValue({ data: [assistant(error)] });
+      mockClient.session.status.mockResolvedValue({ data: {} });
+
+      const events = await manager.getSessionSnapshot('session-123');
+
+      expect(events.slice(-2)).toEqual([
+        expect.objectContaining({
+          type: 'session.error',
+          data: { sessionID: 'session-123', error },
+        }),
+        expect.objectContaining({ type: 'session.status' }),
+      ]);
+    });
+
+    it('should keep a busy session running', async () => {
+      mockClient.session.messages.mockResolvedValue({ data: [assistant()] });
+      mockClient.session.status.mockResolvedValue({
+        data: { 'session-123': { type: 'busy' } },
+      });
+
+      const events = await manager.getSessionSnapshot('session-123');
+
+      expect(events[events.length - 1].data).toEqual({
+        sessionID: 'session-123',
+        status: { type: 'busy' },
+      });
+    });
+
+    it('should throw when the server rejects the request', async () => {
+      mockClient.session.messages.mockResolvedValue({ error: { name: 'NotFoundError' } });
+      mockClient.session.status.mockResolvedValue({ data: {} });
+
+      await expect(manager.getSessionSnapshot('session-123')).rejects.toThrow(
+        'Failed to get session messages'
+      );
+    });
+  });
+
   describe('abortSession', () => {
     it('should abort session', async () => {
       mockClient.session.abort.mockResolvedValue({});
@@ -638,6 +889,71 @@ describe('OpenCodeClientManager', () => {
     });
   });
 
+  describe('sendMessageAsync', () => {
+    it('should queue message on session without waiting for a reply', async () => {
+      mockClient.session.promptAsync.mockResolvedValue({});
+
+      await manager.sendMessageAsync('session-123', 'Test message');
+
+      expect(mockClient.session.promptAsync).toHaveBeenCalledWith({
+        path: { id: 'session-123' },
+        body: {
+          model: {
+            providerID: expect.any(String),
+            modelID: expect.any(String),
+          },
+          parts: [{ type: 'text', text: 'Test message' }],
+        },
+      });
+    });
+
+    it('should use the requested model', async () => {
+      mockClient.session.promptAsync.mockResolvedValue({});
+
+      await manager.sendMessageAsync('session-123', 'Test message', {
+        providerId: 'openai',
+        modelId: 'gpt-5',
+      });
+
+      expect(mockClient.session.promptAsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          body: expect.objectContaining({ model: { providerID: 'openai', modelID: 'gpt-5' } }),
+        })
+      );
+    });
+
+    it('should throw error when the server rejects the message', async () => {
+      mockClient.session.promptAsync.mockResolvedValue({ error: { name: 'NotFoundError' } });
+
+      await expect(manager.sendMessageAsync('session-123', 'Test message')).rejects.toThrow(
+        'Failed to send message'
+      );
+    });
+  });
+
+  describe('respondToPermission', () => {
+    it('should send the decision for the permission request', async () => {
+      mockClient.postSessionIdPermissionsPermissionId.mockResolvedValue({ data: true });
+
+      await manager.respondToPermission('session-123', 'perm-1', 'once');
+
+      expect(mockClient.postSessionIdPermissionsPermissionId).toHaveBeenCalledWith({
+        path: { id: 'session-123', permissionID: 'perm-1' },
+        body: { response: 'once' },
+      });
+    });
+
+    it('should throw error when the server rejects the decision', async () => {
+      mockClient.postSessionIdPermissionsPermissionId.mockResolvedValue({
+        error: { name: 'NotFoundError' },
+      });
+
+      await expect(manager.respondToPermission('session-123', 'perm-1', 'reject')).rejects.toThrow(
+        'Failed to respond to permission'
+      );
+    });
+  });
+
   describe('listFiles', () => {
     it('should list files in root directory', async () => {
       // OpenCode 1.0 SDK returns { data, error } format
@@ -0,0 +1,129 @@
+import { PermissionGate, parsePermissionReply } from '../../src/permission-gate.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+
+const permission = {
+  permissionId: 'perm-1',
+  taskId: 'task-1',
+  agentId: 'agent-1',
+  sessionId: 'session-1',
+  type: 'bash',
+  title: 'rm -rf dist',
+};
+
+describe('PermissionGate', () => {
+  let mockExecution: jest.Mocked<ExecutionManager>;
+  let gate: PermissionGate;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockExecution = {
+      respondToPermission: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<ExecutionManager>;
+    gate = new PermissionGate({ timeoutMs: 60000, defaultDecision: 'reject' }, mockExecution);
+  });
+
+  afterEach(() => {
+    gate.cleanup();
+    jest.useRealTimers();
+  });
+
+  it('should relay a decision to the task session and report it once', async () => {
+    const onResolved = jest.fn();
+    const pending = gate.request(permission, onResolved);
+
+    expect(pending).toMatchObject({ ...permission, expiresAt: pending!.requestedAt + 60000 });
+    expect(gate.list('task-1')).toEqual([pending]);
+
+    const resolution = await gate.resolve('perm-1', 'once', 'tool');
+
+    expect(mockExecution.respondToPermission).toHaveBeenCalledWith('task-1', 'perm-1', 'once');
+    expect(resolution).toEqual({ permission: pending, decision: 'once', source: 'tool' });
+    expect(onResolved).toHaveBeenCalledWith(resolution);
+    expect(gate.list()).toEqual([]);
+    await expect(gate.resolve('perm-1', 'reject', 'tool')).resolves.toBeUndefined();
+  });
+
+  it('should apply the default decision when nobody answers in time', async () => {
+    const onResolved = jest.fn();
+    gate.request(permission, onResolved);
+
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(mockExecution.respondToPermission).toHaveBeenCalledWith('task-1', 'perm-1', 'reject');
+    expect(onResolved).toHaveBeenCalledWith(
+      expect.objectContaining({ decision: 'reject', source: 'timeout' })
+    );
+  });
+
+  it('should ignore repeated reports of a pending request', () => {
+    gate.request(permission);
+
+    expect(gate.request(permission)).toBeUndefined();
+    expect(gate.list()).toHaveLength(1);
+  });
+
+  it('should keep the request pending when OpenCode rejects the answer', async () => {
+    mockExecution.respondToPermission.mockRejectedValueOnce(new Error('Network error'));
+    gate.request(permission);
+
+    await expect(gate.resolve('perm-1', 'once', 'matrix')).rejects.toThrow('Network error');
+    expect(gate.get('perm-1')).toBeDefined();
+  });
+
+  it('should retry the default decision when OpenCode rejects it', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mockExecution.respondToPermission.mockRejectedValueOnce(new Error('Network error'));
+    const onResolved = jest.fn();
+    gate.request(permission, onResolved);
+
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(gate.get('perm-1')).toBeDefined();
+    expect(onResolved).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(5000);
+
+    expect(mockExecution.respondToPermission).toHaveBeenCalledTimes(2);
+    expect(gate.get('perm-1')).toBeUndefined();
+    expect(onResolved).toHaveBeenCalledWith(
+      expect.objectContaining({ decision: 'reject', source: 'timeout' })
+    );
+  });
+
+  it('should drop requests whose session has ended', async () => {
+    mockExecution.respondToPermission.mockResolvedValueOnce(false);
+    const onResolved = jest.fn();
+    gate.request(permission, onResolved);
+
+    await expect(gate.resolve('perm-1', 'once', 'tool')).resolves.toBeUndefined();
+    expect(gate.get('perm-1')).toBeUndefined();
+    expect(onResolved).not.toHaveBeenCalled();
+  });
+
+  it('should clear a finished task without answering its requests', async () => {
+    gate.request(permission);
+    gate.request({ ...permission, permissionId: 'perm-2', taskId: 'task-2' });
+
+    gate.clearTask('task-1');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(mockExecution.respondToPermission).toHaveBeenCalledTimes(1);
+    expect(mockExecution.respondToPermission).toHaveBeenCalledWith('task-2', 'perm-2', 'reject');
+  });
+});
+
+describe('parsePermissionReply', () => {
+  it('should map reply keywords to decisions', () => {
+    expect(parsePermissionReply('approve perm-1')).toEqual({
+      decision: 'once',
+      permissionId: 'perm-1',
+    });
+    expect(parsePermissionReply('Always perm-1')).toMatchObject({ decision: 'always' });
+    expect(parsePermissionReply(' deny ')).toEqual({ decision: 'reject', permissionId: undefined });
+  });
+
+  it('should ignore other messages', () => {
+    expect(parsePermissionReply('approve of this approach, but add tests')).toBeUndefined();
+    expect(parsePermissionReply('looks good')).toBeUndefined();
+  });
+});
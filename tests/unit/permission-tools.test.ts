@@ -0,0 +1,72 @@
+import {
+  approveTaskPermission,
+  type PermissionToolDependencies,
+} from '../../src/tools/permission-tools.js';
+import { PermissionGate } from '../../src/permission-gate.js';
+import type { TaskRegistry } from '../../src/task-registry.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+
+describe('approveTaskPermission', () => {
+  let mockExecution: jest.Mocked<ExecutionManager>;
+  let deps: PermissionToolDependencies;
+
+  beforeEach(() => {
+    mockExecution = {
+      respondToPermission: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<ExecutionManager>;
+    deps = {
+      registry: {
+        getTask: jest.fn((taskId: string) =>
+          taskId.startsWith('task-') ? { taskId, status: 'running' } : undefined
+        ),
+      } as unknown as jest.Mocked<TaskRegistry>,
+      permissions: new PermissionGate(
+        { timeoutMs: 60000, defaultDecision: 'reject' },
+        mockExecution
+      ),
+    };
+    deps.permissions.request({
+      permissionId: 'perm-1',
+      taskId: 'task-1',
+      agentId: 'agent-1',
+      sessionId: 'session-1',
+      type: 'edit',
+      title: 'Edit src/index.ts',
+    });
+  });
+
+  afterEach(() => {
+    deps.permissions.cleanup();
+  });
+
+  it('should relay the decision to the task session', async () => {
+    const result = await approveTaskPermission(
+      { task_id: 'task-1', permission_id: 'perm-1', decision: 'always' },
+      deps
+    );
+
+    expect(result).toEqual({
+      task_id: 'task-1',
+      permission_id: 'perm-1',
+      decision: 'always',
+      message: 'Decision relayed to OpenCode',
+    });
+    expect(mockExecution.respondToPermission).toHaveBeenCalledWith('task-1', 'perm-1', 'always');
+  });
+
+  it('should reject permissions that are not pending for the task', async () => {
+    const result = await approveTaskPermission(
+      { task_id: 'task-2', permission_id: 'perm-1', decision: 'once' },
+      deps
+    );
+
+    expect(result).toMatchObject({ code: 'PERMISSION_NOT_PENDING', status: 404 });
+    expect(mockExecution.respondToPermission).not.toHaveBeenCalled();
+  });
+
+  it('should throw for an unknown task', async () => {
+    await expect(
+      approveTaskPermission({ task_id: 'missing', permission_id: 'perm-1', decision: 'once' }, deps)
+    ).rejects.toThrow('Task missing not found');
+  });
+});
@@ -0,0 +1,48 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonScheduleStore } from '../../src/schedule-store.js';
+import type { ScheduledTask } from '../../src/types/schedule.js';
+
+const schedule: ScheduledTask = {
+  scheduleId: 'schedule-1',
+  cron: '0 9 * * *',
+  request: { agent_id: 'agent-1', task_description: 'Run the nightly audit' },
+  createdAt: 1700000000000,
+  nextRunAt: 1700000060000,
+  runCount: 0,
+};
+
+describe('JsonScheduleStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'schedule-store-'));
+    filePath = path.join(dir, 'nested', 'schedules.json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should round-trip saved schedules', () => {
+    new JsonScheduleStore(filePath).save([schedule]);
+
+    expect(new JsonScheduleStore(filePath).load()).toEqual([schedule]);
+  });
+
+  it.each([
+    ['malformed JSON', '[{"scheduleId": '],
+    ['an entry of the wrong shape', JSON.stringify([{ ...schedule, request: {} }])],
+  ])('should not overwrite a file with %s', (_, contents) => {
+    const store = new JsonScheduleStore(filePath);
+    fs.writeFileSync(filePath, contents);
+
+    expect(store.load()).toEqual([]);
+    store.save([schedule]);
+
+    expect(fs.readFileSync(filePath, 'utf8')).toBe(contents);
+  });
+});
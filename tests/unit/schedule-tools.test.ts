@@ -0,0 +1,114 @@
+import {
+  deleteScheduledTask,
+  listScheduledTasks,
+  scheduleTask,
+  type ScheduleToolDependencies,
+} from '../../src/tools/schedule-tools.js';
+import { TaskScheduler } from '../../src/task-scheduler.js';
+import { InMemoryScheduleStore } from '../../src/schedule-store.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+
+describe('schedule tools', () => {
+  let deps: ScheduleToolDependencies;
+  let mockExecution: jest.Mocked<ExecutionManager>;
+
+  beforeEach(() => {
+    mockExecution = {
+      resolveModel: jest.fn(),
+      resolveWorkingDir: jest.fn(),
+    } as unknown as jest.Mocked<ExecutionManager>;
+    deps = {
+      scheduler: new TaskScheduler({}, new InMemoryScheduleStore(), jest.fn()),
+      execution: mockExecution,
+    };
+  });
+
+  it('should create a schedule and list it for its agent', async () => {
+    const created = await scheduleTask(
+      {
+        agent_id: 'agent-1',
+        task_description: 'Update dependencies',
+        cron: '0 6 * * 1',
+        priority: 'low',
+      },
+      deps
+    );
+
+    expect(created).toMatchObject({
+      schedule_id: expect.stringMatching(/^schedule-/),
+      cron: '0 6 * * 1',
+      next_run_at: expect.any(Number),
+      run_count: 0,
+    });
+    expect(deps.scheduler.get(created.schedule_id as string)?.request).toEqual({
+      agent_id: 'agent-1',
+      task_description: 'Update dependencies',
+      priority: 'low',
+    });
+
+    const { schedules } = await listScheduledTasks({ agent_id: 'agent-1' }, deps);
+    expect(schedules).toEqual([created]);
+    expect((await listScheduledTasks({ agent_id: 'agent-2' }, deps)).schedules).toEqual([]);
+  });
+
+  it('should reject invalid timing with INVALID_SCHEDULE', async () => {
+    const result = await scheduleTask(
+      { agent_id: 'agent-1', task_description: 'Update dependencies', run_at: 1 },
+      deps
+    );
+
+    expect(result).toEqual({
+      error: 'run_at must be in the future',
+      code: 'INVALID_SCHEDULE',
+      status: 400,
+    });
+  });
+
+  it('should reject a workspace path that every run would fail on', async () => {
+    mockExecution.resolveWorkingDir.mockImplementation(() => {
+      throw new Error('Path escapes WORKSPACE_DIR');
+    });
+
+    const result = await scheduleTask(
+      {
+        agent_id: 'agent-1',
+        task_description: 'Update dependencies',
+        cron: '0 6 * * 1',
+        workspace_path: '../etc',
+      },
+      deps
+    );
+
+    expect(result).toMatchObject({ code: 'INVALID_WORKSPACE_PATH', status: 400 });
+    expect(deps.scheduler.list()).toHaveLength(0);
+  });
+
+  it('should reject a callback URL that would receive unsigned deliveries', async () => {
+    const result = await scheduleTask(
+      {
+        agent_id: 'agent-1',
+        task_description: 'Update dependencies',
+        cron: '0 6 * * 1',
+        callback_url: 'https://agent.example.com/hook',
+      },
+      deps
+    );
+
+    expect(result).toMatchObject({ code: 'WEBHOOK_SECRET_REQUIRED', status: 400 });
+    expect(deps.scheduler.list()).toEqual([]);
+  });
+
+  it('should delete schedules and throw for unknown ones', async () => {
+    const created = await scheduleTask(
+      { agent_id: 'agent-1', task_description: 'Update dependencies', cron: '0 6 * * 1' },
+      deps
+    );
+
+    await expect(
+      deleteScheduledTask({ schedule_id: created.schedule_id as string }, deps)
+    ).resolves.toEqual({ schedule_id: created.schedule_id, deleted: true });
+    await expect(deleteScheduledTask({ schedule_id: 'missing' }, deps)).rejects.toThrow(
+      'Schedule missing not found'
+    );
+  });
+});
@@ -0,0 +1,164 @@
+import { SessionStateMachine, parseSessionError } from '../../src/session-state.js';
+import type { OpenCodeEvent } from '../../src/types/opencode.js';
+
+function event(type: string, data: unknown = {}): OpenCodeEvent {
+  return { type, timestamp: Date.now(), sessionId: 'session-123', data };
+}
+
+async function* fakeStream(events: OpenCodeEvent[]): AsyncGenerator<OpenCodeEvent> {
+  for (const e of events) {
+    yield e;
+  }
+}
+
+async function consume(state: SessionStateMachine, events: OpenCodeEvent[]): Promise<void> {
+  for await (const e of fakeStream(events)) {
+    state.handleEvent(e);
+  }
+}
+
+describe('SessionStateMachine', () => {
+  let state: SessionStateMachine;
+
+  beforeEach(() => {
+    state = new SessionStateMachine();
+    state.start();
+  });
+
+  describe('false-positive completion', () => {
+    it.each([
+      ['finish', {}],
+      ['finish-step', {}],
+      ['session.complete', {}],
+      ['task.success', {}],
+      ['status', { status: 'completed' }],
+      ['session.updated', { info: { title: 'Task complete' } }],
+      ['message.updated', { info: { role: 'assistant', time: { completed: 1 } } }],
+      ['message.part.updated', { part: { type: 'text', text: 'All tests finished with success' } }],
+      ['session.status', { status: { type: 'busy' } }],
+      ['session.status', { status: { type: 'retry', attempt: 1, message: 'Overloaded' } }],
+    ])('should stay busy after a %s event', async (type, data) => {
+      await consume(state, [event(type, data)]);
+
+      expect(state.isSettled()).toBe(false);
+    });
+
+    it('should ignore idle events that arrive before the prompt is sent', async () => {
+      const fresh = new SessionStateMachine();
+
+      await consume(fresh, [event('session.idle')]);
+
+      expect(fresh.getPhase()).toBe('pending');
+    });
+
+    it('should ignore idle and error events while paused', async () => {
+      state.pause();
+      await consume(state, [
+        event('session.error', { error: { name: 'MessageAbortedError' } }),
+        event('session.idle'),
+      ]);
+
+      expect(state.getPhase()).toBe('paused');
+
+      state.resume();
+      await consume(state, [event('session.status', { status: { type: 'busy' } })]);
+      await consume(state, [event('session.idle')]);
+
+      await expect(state.done).resolves.toEqual({ status: 'success' });
+    });
+
+    it('should ignore the aborted turn settling after a quick resume', async () => {
+      state.pause();
+      state.resume();
+      await consume(state, [
+        event('session.error', { error: { name: 'MessageAbortedError' } }),
+        event('session.status', { status: { type: 'idle' } }),
+        event('session.idle'),
+      ]);
+
+      expect(state.getPhase()).toBe('awaiting_busy');
+
+      await consume(state, [
+        event('session.status', { status: { type: 'busy' } }),
+        event('session.idle'),
+      ]);
+
+      await expect(state.done).resolves.toEqual({ status: 'success' });
+    });
+
+    it('should keep the turn running when pausing it failed', async () => {
+      state.pause();
+      state.cancelPause();
+      await consume(state, [event('session.idle')]);
+
+      await expect(state.done).resolves.toEqual({ status: 'success' });
+    });
+  });
+
+  it('should resolve successfully on session.idle', async () => {
+    await consume(state, [
+      event('session.status', { status: { type: 'busy' } }),
+      event('session.idle'),
+    ]);
+
+    await expect(state.done).resolves.toEqual({ status: 'success' });
+    expect(state.getPhase()).toBe('idle');
+  });
+
+  it('should resolve successfully on a session.status idle transition', async () => {
+    await consume(state, [
+      event('session.status', { status: { type: 'retry', attempt: 1 } }),
+      event('session.status', { status: { type: 'idle' } }),
+    ]);
+
+    await expect(state.done).resolves.toEqual({ status: 'success' });
+  });
+
+  it('should fail on session.error', async () => {
+    await consume(state, [
+      event('session.error', {
+        error: { name: 'ProviderAuthError', data: { message: 'Invalid API key' } },
+      }),
+      event('session.idle'),
+    ]);
+
+    await expect(state.done).resolves.toEqual({ status: 'error', error: 'Invalid API key' });
+    expect(state.getPhase()).toBe('errored');
+  });
+
+  it('should fail an idle session when an error was recorded', async () => {
+    state.recordError('Something went wrong');
+    await consume(state, [event('session.idle')]);
+
+    await expect(state.done).resolves.toEqual({ status: 'error', error: 'Something went wrong' });
+  });
+
+  it('should resolve with a timeout and ignore later events', async () => {
+    state.timeout();
+    await consume(state, [event('session.idle')]);
+
+    await expect(state.done).resolves.toEqual({
+      status: 'timeout',
+      error: 'Task execution timed out',
+    });
+    expect(state.getPhase()).toBe('timed_out');
+  });
+
+  it('should reject when the event stream is lost', async () => {
+    await consume(state, [event('session.status', { status: { type: 'busy' } })]);
+    state.disconnect(new Error('Event stream closed'));
+
+    await expect(state.done).rejects.toThrow('Event stream closed');
+    expect(state.getPhase()).toBe('disconnected');
+  });
+});
+
+describe('parseSessionError', () => {
+  it('should prefer the error message over its name', () => {
+    expect(
+      parseSessionError({ error: { name: 'ApiError', data: { message: 'Rate limited' } } })
+    ).toBe('Rate limited');
+    expect(parseSessionError({ error: { name: 'UnknownError' } })).toBe('UnknownError');
+    expect(parseSessionError({})).toBe('Session error');
+  });
+});
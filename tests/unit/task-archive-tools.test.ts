@@ -9,6 +9,7 @@ import type { TaskRegistry } from '../../src/task-registry.js';
 import type { WorkspaceManager } from '../../src/workspace-manager.js';
 import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
 import type { WorkspaceBlock } from '../../src/types/workspace.js';
+import { TaskEventLog } from '../../src/task-event-log.js';
 
 describe('task-archive-tools', () => {
   let mockDeps: jest.Mocked<TaskArchiveDependencies>;
@@ -310,6 +311,85 @@ describe('task-archive-tools', () => {
         expect(result.events[0]).not.toHaveProperty('data');
       });
     });
+
+    describe('Activity log', () => {
+      beforeEach(() => {
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'completed',
+          createdAt: 1000,
+          workspaceBlockId: 'block-789',
+        } as any);
+        mockWorkspace.getWorkspace.mockResolvedValue({
+          version: '1.0.0',
+          task_id: 'task-123',
+          agent_id: 'agent-456',
+          status: 'completed',
+          created_at: 1000,
+          updated_at: 2000,
+          events: [
+            { timestamp: 1100, type: 'task_started', message: 'Task started' },
+            { timestamp: 2000, type: 'task_completed', message: 'Task completed' },
+          ],
+          artifacts: [],
+        });
+
+        const eventLog = new TaskEventLog();
+        eventLog.record('task-123', {
+          type: 'message.part.updated',
+          timestamp: 1500,
+          sessionId: 'session-1',
+          data: {
+            part: {
+              type: 'tool',
+              callID: 'call-1',
+              tool: 'edit',
+              state: { status: 'completed', input: { filePath: 'src/a.ts' } },
+            },
+          },
+        });
+        mockDeps.eventLog = eventLog;
+      });
+
+      it('should interleave logged activity with workspace events', async () => {
+        const result = await getTaskHistory(
+          { task_id: 'task-123', include_artifacts: false, events_limit: 100, events_offset: 0 },
+          mockDeps
+        );
+
+        expect(result.events.map((e) => e.type)).toEqual([
+          'task_started',
+          'tool_call',
+          'file_edit',
+          'task_completed',
+        ]);
+        expect(result.events[2].data).toEqual({ path: 'src/a.ts', tool: 'edit' });
+      });
+
+      it('should filter events by type before paginating', async () => {
+        const result = await getTaskHistory(
+          {
+            task_id: 'task-123',
+            include_artifacts: false,
+            events_limit: 100,
+            events_offset: 0,
+            event_types: ['file_edit'],
+          },
+          mockDeps
+        );
+
+        expect(result.events).toEqual([
+          {
+            timestamp: 1500,
+            type: 'file_edit',
+            message: 'Edited src/a.ts',
+            data: { path: 'src/a.ts', tool: 'edit' },
+          },
+        ]);
+        expect(result.events_total).toBe(1);
+      });
+    });
   });
 
   describe('archiveTaskConversation', () => {
@@ -11,6 +11,7 @@ import {
 } from '../../src/tools/task-coordination-tools.js';
 import type { TaskRegistry } from '../../src/task-registry.js';
 import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+import type { ControlSignalHandler } from '../../src/control-signal-handler.js';
 
 describe('task-coordination-tools', () => {
   let mockDeps: jest.Mocked<TaskCoordinationDependencies>;
@@ -667,6 +668,131 @@ describe('task-coordination-tools', () => {
       });
     });
 
+    describe('Queued task cancellation', () => {
+      it('should cancel queued task directly without a communication channel', async () => {
+        const mockControlHandler = {
+          handleControlSignal: jest.fn().mockResolvedValue({
+            success: true,
+            taskId: 'task-123',
+            signal: 'cancel',
+            newStatus: 'cancelled',
+          }),
+        } as unknown as jest.Mocked<ControlSignalHandler>;
+
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'queued',
+          createdAt: Date.now(),
+        } as any);
+
+        const result = await sendTaskControl(
+          { task_id: 'task-123', control: 'cancel', reason: 'No longer needed' },
+          { ...mockDeps, controlHandler: mockControlHandler }
+        );
+
+        expect(result).toEqual({ task_id: 'task-123', control: 'cancel' });
+        expect(mockControlHandler.handleControlSignal).toHaveBeenCalledWith({
+          taskId: 'task-123',
+          signal: 'cancel',
+          reason: 'No longer needed',
+          requestedBy: 'agent-456',
+        });
+      });
+
+      it('should surface queued cancellation failures', async () => {
+        const mockControlHandler = {
+          handleControlSignal: jest.fn().mockResolvedValue({
+            success: false,
+            taskId: 'task-123',
+            signal: 'cancel',
+            error: 'Cannot cancel task with status: completed',
+          }),
+        } as unknown as jest.Mocked<ControlSignalHandler>;
+
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'queued',
+          createdAt: Date.now(),
+        } as any);
+
+        await expect(
+          sendTaskControl(
+            { task_id: 'task-123', control: 'cancel' },
+            { ...mockDeps, controlHandler: mockControlHandler }
+          )
+        ).rejects.toThrow('Cannot cancel task with status: completed');
+      });
+    });
+
+    describe('Direct control', () => {
+      it('should pause a running task without Matrix', async () => {
+        const mockControlHandler = {
+          handleControlSignal: jest.fn().mockResolvedValue({
+            success: true,
+            taskId: 'task-123',
+            signal: 'pause',
+            newStatus: 'paused',
+          }),
+        } as unknown as jest.Mocked<ControlSignalHandler>;
+
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'running',
+          createdAt: Date.now(),
+        } as any);
+
+        const result = await sendTaskControl(
+          { task_id: 'task-123', control: 'pause' },
+          { ...mockDeps, controlHandler: mockControlHandler }
+        );
+
+        expect(result).toEqual({ task_id: 'task-123', control: 'pause' });
+        expect(mockControlHandler.handleControlSignal).toHaveBeenCalledWith({
+          taskId: 'task-123',
+          signal: 'pause',
+          reason: undefined,
+          requestedBy: 'agent-456',
+        });
+      });
+
+      it('should not relay the signal through Matrix when it is applied directly', async () => {
+        const mockControlHandler = {
+          handleControlSignal: jest.fn().mockResolvedValue({
+            success: true,
+            taskId: 'task-123',
+            signal: 'resume',
+            newStatus: 'running',
+          }),
+        } as unknown as jest.Mocked<ControlSignalHandler>;
+        const mockMatrixManager = {
+          sendControlSignal: jest.fn().mockResolvedValue(undefined),
+        } as unknown as jest.Mocked<MatrixRoomManager>;
+
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'paused',
+          createdAt: Date.now(),
+          matrixRoom: { roomId: '!room123:matrix.org', createdAt: 1000 },
+        } as any);
+
+        const result = await sendTaskControl(
+          { task_id: 'task-123', control: 'resume' },
+          { ...mockDeps, matrix: mockMatrixManager, controlHandler: mockControlHandler }
+        );
+
+        expect(result).toEqual({
+          channel_id: '!room123:matrix.org',
+          task_id: 'task-123',
+          control: 'resume',
+        });
+        expect(mockMatrixManager.sendControlSignal).not.toHaveBeenCalled();
+      });
+    });
+
     describe('Control signal sending', () => {
       it('should send pause control signal', async () => {
         const mockMatrixManager = {
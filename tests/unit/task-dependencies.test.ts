@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { TaskRegistry } from '../../src/task-registry.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
+import {
+  buildDependencyContext,
+  findUnknownDependencies,
+  hasPendingDependencies,
+  waitForDependencies,
+} from '../../src/task-dependencies.js';
+
+describe('task-dependencies', () => {
+  let registry: TaskRegistry;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    registry = new TaskRegistry({ maxConcurrentTasks: 3, idempotencyWindowMs: 60000 });
+    registry.register('upstream-1', 'agent-1');
+    registry.register('upstream-2', 'agent-1');
+    registry.register('downstream', 'agent-1');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('findUnknownDependencies', () => {
+    it('should return ids the registry does not know', () => {
+      expect(findUnknownDependencies(registry, ['upstream-1', 'missing'])).toEqual(['missing']);
+    });
+  });
+
+  describe('hasPendingDependencies', () => {
+    it('should be true until every dependency has settled', () => {
+      registry.updateStatus('upstream-1', 'completed');
+      expect(hasPendingDependencies(registry, ['upstream-1', 'upstream-2'])).toBe(true);
+
+      registry.updateStatus('upstream-2', 'failed');
+      expect(hasPendingDependencies(registry, ['upstream-1', 'upstream-2'])).toBe(false);
+    });
+  });
+
+  describe('waitForDependencies', () => {
+    it('should resolve with the dependencies once all have settled', async () => {
+      const waiting = waitForDependencies(registry, 'downstream', ['upstream-1', 'upstream-2']);
+
+      registry.updateStatus('upstream-1', 'completed');
+      registry.updateStatus('upstream-2', 'running');
+      registry.updateStatus('upstream-2', 'timeout');
+
+      const upstream = await waiting;
+      expect(upstream?.map((task) => [task.taskId, task.status])).toEqual([
+        ['upstream-1', 'completed'],
+        ['upstream-2', 'timeout'],
+      ]);
+    });
+
+    it('should resolve immediately when the dependencies already settled', async () => {
+      registry.updateStatus('upstream-1', 'completed');
+
+      await expect(waitForDependencies(registry, 'downstream', ['upstream-1'])).resolves.toEqual([
+        expect.objectContaining({ taskId: 'upstream-1' }),
+      ]);
+    });
+
+    it('should resolve with null when the waiting task is cancelled', async () => {
+      const waiting = waitForDependencies(registry, 'downstream', ['upstream-1']);
+
+      registry.updateStatus('downstream', 'cancelled');
+
+      await expect(waiting).resolves.toBeNull();
+    });
+  });
+
+  describe('buildDependencyContext', () => {
+    it('should include status, description, output and diff of each dependency', async () => {
+      registry.updateStatus('upstream-1', 'completed', {
+        workspaceBlockId: 'block-1',
+        output: 'Added the parser',
+      });
+      registry.updateStatus('upstream-2', 'failed', { error: 'Tests failed' });
+      const workspace = {
+        getWorkspace: jest.fn(async () => ({
+          metadata: { task_description: 'Write the parser' },
+          artifacts: [
+            { timestamp: 1, type: 'output', name: 'execution_output', content: 'done' },
+            { timestamp: 1, type: 'diff', name: 'git_diff', content: '+parser' },
+          ],
+        })),
+      } as unknown as jest.Mocked<WorkspaceManager>;
+
+      const context = await buildDependencyContext(
+        [registry.getTask('upstream-1')!, registry.getTask('upstream-2')!],
+        workspace
+      );
+
+      expect(workspace.getWorkspace).toHaveBeenCalledTimes(1);
+      expect(context).toContain('## Results of prerequisite tasks');
+      expect(context).toContain(
+        '### upstream-1 (completed)\nTask: Write the parser\nOutput:\nAdded the parser\n' +
+          'Changes:\n```diff\n+parser\n```'
+      );
+      expect(context).toContain('### upstream-2 (failed)\nError: Tests failed');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { formatSessionDiff, parseSessionDiffEvent, splitUnifiedDiff } from '../../src/task-diff.js';
+
+describe('task-diff', () => {
+  describe('formatSessionDiff', () => {
+    it('should render a unified diff per file', () => {
+      const [file] = formatSessionDiff([
+        { path: 'src/a.ts', before: 'a\nb\n', after: 'a\nc\n', additions: 1, deletions: 1 },
+      ]);
+
+      expect(file.path).toBe('src/a.ts');
+      expect(file.diff).toBe(
+        'diff --git a/src/a.ts b/src/a.ts\n--- a/src/a.ts\n+++ b/src/a.ts\n' +
+          '@@ -1,2 +1,2 @@\n a\n-b\n+c\n'
+      );
+      expect(file.additions).toBe(1);
+      expect(file.deletions).toBe(1);
+    });
+
+    it('should use /dev/null for created files', () => {
+      const [file] = formatSessionDiff([
+        { path: 'new.ts', before: '', after: 'x\n', additions: 1, deletions: 0 },
+      ]);
+
+      expect(file.diff).toContain('--- /dev/null\n+++ b/new.ts');
+    });
+  });
+
+  describe('splitUnifiedDiff', () => {
+    it('should split a git diff into files and count changed lines', () => {
+      const files = splitUnifiedDiff(
+        'diff --git a/a.ts b/a.ts\nindex 1..2 100644\n--- a/a.ts\n+++ b/a.ts\n' +
+          '@@ -1,2 +1,3 @@\n a\n-b\n+c\n+d\n' +
+          'diff --git a/gone.ts b/gone.ts\ndeleted file mode 100644\n--- a/gone.ts\n+++ /dev/null\n' +
+          '@@ -1 +0,0 @@\n--- not a header\n'
+      );
+
+      expect(files).toEqual([
+        expect.objectContaining({ path: 'a.ts', additions: 2, deletions: 1 }),
+        expect.objectContaining({ path: 'gone.ts', additions: 0, deletions: 1 }),
+      ]);
+      expect(files[1].diff.startsWith('diff --git a/gone.ts')).toBe(true);
+    });
+
+    it('should return no files for an empty diff', () => {
+      expect(splitUnifiedDiff('')).toEqual([]);
+    });
+  });
+
+  describe('parseSessionDiffEvent', () => {
+    it('should map OpenCode file diffs', () => {
+      expect(
+        parseSessionDiffEvent({
+          sessionID: 'session-1',
+          diff: [{ file: 'a.ts', before: 'a', after: 'b', additions: 1, deletions: 1 }],
+        })
+      ).toEqual([{ path: 'a.ts', before: 'a', after: 'b', additions: 1, deletions: 1 }]);
+    });
+
+    it('should ignore payloads without a diff list', () => {
+      expect(parseSessionDiffEvent({ sessionID: 'session-1' })).toBeUndefined();
+    });
+  });
+});
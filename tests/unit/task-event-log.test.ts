@@ -0,0 +1,137 @@
+import { TaskEventLog } from '../../src/task-event-log.js';
+import type { OpenCodeEvent } from '../../src/types/opencode.js';
+
+function event(type: string, data: unknown, timestamp = 1000): OpenCodeEvent {
+  return { type, timestamp, sessionId: 'session-1', data };
+}
+
+function toolPart(status: string, tool = 'edit', input: Record<string, unknown> = {}) {
+  return {
+    part: {
+      id: 'part-1',
+      sessionID: 'session-1',
+      messageID: 'msg-1',
+      type: 'tool',
+      callID: 'call-1',
+      tool,
+      state: { status, input, output: 'ok', title: 'src/a.ts' },
+    },
+  };
+}
+
+describe('TaskEventLog', () => {
+  let log: TaskEventLog;
+
+  beforeEach(() => {
+    log = new TaskEventLog();
+  });
+
+  it('should record a tool call once it completes', () => {
+    log.record('task-1', event('message.part.updated', toolPart('running', 'bash')));
+    log.record('task-1', event('message.part.updated', toolPart('completed', 'bash')));
+    log.record('task-1', event('message.part.updated', toolPart('completed', 'bash')));
+
+    const entries = log.getEntries('task-1');
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      type: 'tool_call',
+      message: 'Tool bash completed: src/a.ts',
+      data: { tool: 'bash', call_id: 'call-1', status: 'completed', output: 'ok' },
+    });
+  });
+
+  it('should record file edits made by editing tools', () => {
+    log.record(
+      'task-1',
+      event('message.part.updated', toolPart('completed', 'edit', { filePath: 'src/a.ts' }))
+    );
+
+    expect(log.getEntries('task-1', { types: ['file_edit'] })).toEqual([
+      expect.objectContaining({ data: { path: 'src/a.ts', tool: 'edit' } }),
+    ]);
+  });
+
+  it('should record completed assistant messages with their text and usage', () => {
+    log.record(
+      'task-1',
+      event('message.part.updated', {
+        part: { type: 'text', messageID: 'msg-1', sessionID: 'session-1', text: 'All done' },
+      })
+    );
+    const info = {
+      id: 'msg-1',
+      sessionID: 'session-1',
+      role: 'assistant',
+      providerID: 'anthropic',
+      modelID: 'claude-sonnet-4-5-20250929',
+      cost: 0.25,
+      tokens: { input: 1200, output: 300, reasoning: 50, cache: { read: 800, write: 100 } },
+      time: { created: 1, completed: 2 },
+    };
+    log.record('task-1', event('message.updated', { info: { ...info, time: { created: 1 } } }));
+    log.record('task-1', event('message.updated', { info }));
+    log.record('task-1', event('message.updated', { info }));
+
+    const entries = log.getEntries('task-1');
+    expect(entries.map((e) => e.type)).toEqual(['message', 'usage']);
+    expect(entries[0].data).toEqual({
+      message_id: 'msg-1',
+      model: 'anthropic/claude-sonnet-4-5-20250929',
+      text: 'All done',
+    });
+    expect(entries[1].data).toMatchObject({
+      input_tokens: 1200,
+      output_tokens: 300,
+      reasoning_tokens: 50,
+      cache_read_tokens: 800,
+      cache_write_tokens: 100,
+      cost: 0.25,
+    });
+  });
+
+  it('should record session diffs and errors', () => {
+    log.record(
+      'task-1',
+      event('session.diff', {
+        sessionID: 'session-1',
+        diff: [{ file: 'a.ts', before: 'a', after: 'b', additions: 1, deletions: 1 }],
+      })
+    );
+    log.record(
+      'task-1',
+      event('session.error', { error: { name: 'APIError', data: { message: 'Rate limited' } } })
+    );
+
+    expect(log.getEntries('task-1')).toEqual([
+      expect.objectContaining({
+        type: 'diff',
+        data: { files: [{ path: 'a.ts', additions: 1, deletions: 1 }] },
+      }),
+      expect.objectContaining({ type: 'error', message: 'Rate limited' }),
+    ]);
+  });
+
+  it('should ignore events it does not track', () => {
+    log.record('task-1', event('server.heartbeat', {}));
+
+    expect(log.getEntries('task-1')).toEqual([]);
+  });
+
+  it('should cap entries per task and the number of tasks kept', () => {
+    const bounded = new TaskEventLog({ maxEntriesPerTask: 2, maxTasks: 2 });
+    for (const message of ['a', 'b', 'c']) {
+      bounded.record('task-1', event('error', { error: { name: message } }));
+    }
+    bounded.record('task-2', event('error', { error: { name: 'x' } }));
+    bounded.record('task-3', event('error', { error: { name: 'y' } }));
+
+    expect(bounded.has('task-1')).toBe(false);
+    expect(bounded.getEntries('task-3')).toHaveLength(1);
+
+    const capped = new TaskEventLog({ maxEntriesPerTask: 2 });
+    for (const message of ['a', 'b', 'c']) {
+      capped.record('task-1', event('error', { error: { name: message } }));
+    }
+    expect(capped.getEntries('task-1').map((e) => e.message)).toEqual(['b', 'c']);
+  });
+});
@@ -8,11 +8,13 @@ import {
 import type { TaskRegistry } from '../../src/task-registry.js';
 import type { WorkspaceManager } from '../../src/workspace-manager.js';
 import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
 
 describe('task-feedback-tools', () => {
   let mockDeps: jest.Mocked<TaskFeedbackDependencies>;
   let mockRegistry: jest.Mocked<TaskRegistry>;
   let mockWorkspace: jest.Mocked<WorkspaceManager>;
+  let mockExecution: jest.Mocked<ExecutionManager>;
   let mockMatrix: jest.Mocked<MatrixRoomManager> | null;
 
   beforeEach(() => {
@@ -26,11 +28,16 @@ describe('task-feedback-tools', () => {
       appendEvent: jest.fn(),
     } as unknown as jest.Mocked<WorkspaceManager>;
 
+    mockExecution = {
+      sendTaskMessage: jest.fn().mockResolvedValue('delivered'),
+    } as unknown as jest.Mocked<ExecutionManager>;
+
     mockMatrix = null;
 
     mockDeps = {
       registry: mockRegistry,
       workspace: mockWorkspace,
+      execution: mockExecution,
       matrix: mockMatrix,
     };
   });
@@ -252,6 +259,75 @@ describe('task-feedback-tools', () => {
       });
     });
 
+    describe('Session delivery', () => {
+      const mockTask = {
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: Date.now(),
+        workspaceBlockId: 'block-123',
+      };
+
+      it('should forward feedback into the OpenCode session', async () => {
+        mockRegistry.getTask.mockReturnValue(mockTask as any);
+
+        const result = await sendTaskFeedback(
+          { task_id: 'task-123', feedback: 'Use the existing helper', feedback_type: 'correction' },
+          mockDeps
+        );
+
+        expect(mockExecution.sendTaskMessage).toHaveBeenCalledWith(
+          'task-123',
+          expect.stringContaining('[CORRECTION]')
+        );
+        expect(mockExecution.sendTaskMessage.mock.calls[0][1]).toContain('Use the existing helper');
+        expect(result.delivery_status).toBe('delivered');
+        expect(mockWorkspace.appendEvent).toHaveBeenCalledWith(
+          'agent-456',
+          'block-123',
+          expect.objectContaining({
+            data: expect.objectContaining({ delivery_status: 'delivered' }),
+          })
+        );
+      });
+
+      it('should record delivery failures without throwing', async () => {
+        mockRegistry.getTask.mockReturnValue(mockTask as any);
+        mockExecution.sendTaskMessage.mockRejectedValue(new Error('Failed to send message: 500'));
+
+        const result = await sendTaskFeedback(
+          { task_id: 'task-123', feedback: 'Test feedback', feedback_type: 'guidance' },
+          mockDeps
+        );
+
+        expect(result.delivery_status).toBe('failed');
+        expect(result.delivery_error).toBe('Failed to send message: 500');
+        expect(mockWorkspace.appendEvent).toHaveBeenCalled();
+      });
+
+      it('should not let caller metadata overwrite the recorded delivery outcome', async () => {
+        mockRegistry.getTask.mockReturnValue(mockTask as any);
+        mockExecution.sendTaskMessage.mockRejectedValue(new Error('Failed to send message: 500'));
+
+        await sendTaskFeedback(
+          {
+            task_id: 'task-123',
+            feedback: 'Test feedback',
+            feedback_type: 'guidance',
+            metadata: { delivery_status: 'delivered', source: 'human' },
+          },
+          mockDeps
+        );
+
+        const callArgs = mockWorkspace.appendEvent.mock.calls[0];
+        expect(callArgs?.[2]?.data).toMatchObject({
+          source: 'human',
+          delivery_status: 'failed',
+          delivery_error: 'Failed to send message: 500',
+        });
+      });
+    });
+
     describe('Matrix integration', () => {
       it('should send Matrix update when Matrix is enabled and room exists', async () => {
         const mockMatrixManager = {
@@ -382,6 +458,7 @@ describe('task-feedback-tools', () => {
           task_id: 'task-123',
           feedback_id: expect.stringMatching(/^feedback-\d+$/),
           timestamp: expect.any(Number),
+          delivery_status: 'delivered',
         });
         expect(result.timestamp).toBeGreaterThanOrEqual(beforeTime);
         expect(result.timestamp).toBeLessThanOrEqual(afterTime);
@@ -532,6 +609,54 @@ describe('task-feedback-tools', () => {
       });
     });
 
+    describe('Session delivery', () => {
+      it('should forward the update into the OpenCode session', async () => {
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'paused',
+          createdAt: Date.now(),
+          workspaceBlockId: 'block-123',
+        } as any);
+        mockExecution.sendTaskMessage.mockResolvedValue('queued');
+
+        const result = await sendRuntimeUpdate(
+          { task_id: 'task-123', update: 'Target Node 22', update_type: 'requirement_change' },
+          mockDeps
+        );
+
+        expect(mockExecution.sendTaskMessage).toHaveBeenCalledWith(
+          'task-123',
+          expect.stringContaining('[REQUIREMENT_CHANGE]')
+        );
+        expect(result.delivery_status).toBe('queued');
+      });
+
+      it('should not let caller metadata overwrite the recorded delivery outcome', async () => {
+        mockRegistry.getTask.mockReturnValue({
+          taskId: 'task-123',
+          agentId: 'agent-456',
+          status: 'running',
+          createdAt: Date.now(),
+          workspaceBlockId: 'block-123',
+        } as any);
+        mockExecution.sendTaskMessage.mockResolvedValue('not_delivered');
+
+        await sendRuntimeUpdate(
+          {
+            task_id: 'task-123',
+            update: 'Target Node 22',
+            update_type: 'requirement_change',
+            metadata: { delivery_status: 'delivered' },
+          },
+          mockDeps
+        );
+
+        const callArgs = mockWorkspace.appendEvent.mock.calls[0];
+        expect(callArgs?.[2]?.data?.delivery_status).toBe('not_delivered');
+      });
+    });
+
     describe('Matrix integration', () => {
       it('should send Matrix update when Matrix is enabled and room exists', async () => {
         const mockMatrixManager = {
@@ -603,6 +728,7 @@ describe('task-feedback-tools', () => {
           task_id: 'task-123',
           update_id: expect.stringMatching(/^update-\d+$/),
           timestamp: expect.any(Number),
+          delivery_status: 'delivered',
         });
         expect(result.timestamp).toBeGreaterThanOrEqual(beforeTime);
         expect(result.timestamp).toBeLessThanOrEqual(afterTime);
@@ -6,11 +6,13 @@ import {
 import type { TaskRegistry } from '../../src/task-registry.js';
 import type { WorkspaceManager } from '../../src/workspace-manager.js';
 import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
 
 describe('task-message-tools', () => {
   let mockDeps: jest.Mocked<TaskMessageDependencies>;
   let mockRegistry: jest.Mocked<TaskRegistry>;
   let mockWorkspace: jest.Mocked<WorkspaceManager>;
+  let mockExecution: jest.Mocked<ExecutionManager>;
   let mockMatrix: jest.Mocked<MatrixRoomManager> | null;
 
   beforeEach(() => {
@@ -24,11 +26,16 @@ describe('task-message-tools', () => {
       appendEvent: jest.fn(),
     } as unknown as jest.Mocked<WorkspaceManager>;
 
+    mockExecution = {
+      sendTaskMessage: jest.fn().mockResolvedValue('delivered'),
+    } as unknown as jest.Mocked<ExecutionManager>;
+
     mockMatrix = null;
 
     mockDeps = {
       registry: mockRegistry,
       workspace: mockWorkspace,
+      execution: mockExecution,
       matrix: mockMatrix,
     };
   });
@@ -639,10 +646,116 @@ describe('task-message-tools', () => {
           task_id: 'task-123',
           message_id: expect.stringMatching(/^msg-\d+$/),
           timestamp: expect.any(Number),
+          delivery_status: 'delivered',
         });
         expect(result.timestamp).toBeGreaterThanOrEqual(beforeTime);
         expect(result.timestamp).toBeLessThanOrEqual(afterTime);
       });
     });
+
+    describe('Session delivery', () => {
+      const runningTask = {
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: Date.now(),
+        workspaceBlockId: 'block-123',
+      };
+
+      beforeEach(() => {
+        mockRegistry.getTask.mockReturnValue(runningTask as any);
+        mockWorkspace.appendEvent.mockResolvedValue(undefined);
+      });
+
+      it('should forward a framed message to the live session', async () => {
+        const params: SendTaskMessageParams = {
+          task_id: 'task-123',
+          message: 'Use the v2 API instead',
+          message_type: 'correction',
+        };
+
+        const result = await sendTaskMessage(params, mockDeps);
+
+        expect(mockExecution.sendTaskMessage).toHaveBeenCalledWith(
+          'task-123',
+          expect.stringContaining('[CORRECTION]')
+        );
+        expect(mockExecution.sendTaskMessage.mock.calls[0][1]).toContain('Use the v2 API instead');
+        expect(result.delivery_status).toBe('delivered');
+        expect(mockWorkspace.appendEvent).toHaveBeenCalledWith(
+          'agent-456',
+          'block-123',
+          expect.objectContaining({
+            data: expect.objectContaining({ delivery_status: 'delivered' }),
+          })
+        );
+      });
+
+      it('should record not_delivered when the task has no active session', async () => {
+        mockExecution.sendTaskMessage.mockResolvedValue('not_delivered');
+
+        const result = await sendTaskMessage(
+          { task_id: 'task-123', message: 'Hello', message_type: 'update' },
+          mockDeps
+        );
+
+        expect(result.delivery_status).toBe('not_delivered');
+      });
+
+      it('should record queued when the task is paused', async () => {
+        mockRegistry.getTask.mockReturnValue({ ...runningTask, status: 'paused' } as any);
+        mockExecution.sendTaskMessage.mockResolvedValue('queued');
+
+        const result = await sendTaskMessage(
+          { task_id: 'task-123', message: 'Hello', message_type: 'update' },
+          mockDeps
+        );
+
+        expect(result.delivery_status).toBe('queued');
+      });
+
+      it('should record delivery failures without throwing', async () => {
+        mockExecution.sendTaskMessage.mockRejectedValue(new Error('Failed to send message: 500'));
+
+        const result = await sendTaskMessage(
+          { task_id: 'task-123', message: 'Hello', message_type: 'guidance' },
+          mockDeps
+        );
+
+        expect(result.delivery_status).toBe('failed');
+        expect(result.delivery_error).toBe('Failed to send message: 500');
+        expect(mockWorkspace.appendEvent).toHaveBeenCalledWith(
+          'agent-456',
+          'block-123',
+          expect.objectContaining({
+            data: expect.objectContaining({
+              delivery_status: 'failed',
+              delivery_error: 'Failed to send message: 500',
+            }),
+          })
+        );
+      });
+
+      it('should not let caller metadata overwrite the recorded delivery outcome', async () => {
+        mockExecution.sendTaskMessage.mockRejectedValue(new Error('Failed to send message: 500'));
+
+        await sendTaskMessage(
+          {
+            task_id: 'task-123',
+            message: 'Hello',
+            message_type: 'update',
+            metadata: { delivery_status: 'delivered', delivery_error: undefined, step: 2 },
+          },
+          mockDeps
+        );
+
+        const callArgs = mockWorkspace.appendEvent.mock.calls[0];
+        expect(callArgs?.[2]?.data).toMatchObject({
+          step: 2,
+          delivery_status: 'failed',
+          delivery_error: 'Failed to send message: 500',
+        });
+      });
+    });
   });
 });
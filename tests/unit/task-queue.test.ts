@@ -0,0 +1,124 @@
+import { describe, it, expect } from '@jest/globals';
+import { TaskQueue } from '../../src/task-queue.js';
+
+function deferred<T = void>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+async function flush(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await Promise.resolve();
+  }
+}
+
+describe('TaskQueue', () => {
+  it('should start tasks immediately while slots are available', async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 2 });
+    const run = jest.fn(() => Promise.resolve('done'));
+
+    await expect(queue.enqueue('task-1', run)).resolves.toBe('done');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hold tasks until a running task finishes', async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1 });
+    const first = deferred();
+    const secondRun = jest.fn(() => Promise.resolve());
+
+    void queue.enqueue('task-1', () => first.promise);
+    const second = queue.enqueue('task-2', secondRun);
+    await flush();
+
+    expect(secondRun).not.toHaveBeenCalled();
+    expect(queue.getPosition('task-2')).toBe(1);
+    expect(queue.getRunningCount()).toBe(1);
+
+    first.resolve();
+    await second;
+
+    expect(secondRun).toHaveBeenCalled();
+    expect(queue.getPosition('task-2')).toBeUndefined();
+  });
+
+  it('should dispatch higher priority tasks first and FIFO within a priority', async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1 });
+    const blocker = deferred();
+    const order: string[] = [];
+    const track = (id: string) => () => {
+      order.push(id);
+      return Promise.resolve();
+    };
+
+    void queue.enqueue('blocker', () => blocker.promise);
+    const pending = [
+      queue.enqueue('low', track('low'), 'low'),
+      queue.enqueue('normal-1', track('normal-1')),
+      queue.enqueue('high', track('high'), 'high'),
+      queue.enqueue('normal-2', track('normal-2')),
+    ];
+
+    expect(queue.getPosition('high')).toBe(1);
+    expect(queue.getPosition('low')).toBe(4);
+
+    blocker.resolve();
+    await Promise.all(pending);
+
+    expect(order).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('should reject and skip tasks cancelled while queued', async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1 });
+    const blocker = deferred();
+    const run = jest.fn(() => Promise.resolve());
+
+    void queue.enqueue('blocker', () => blocker.promise);
+    const cancelled = queue.enqueue('task-2', run);
+
+    expect(queue.cancel('task-2')).toBe(true);
+    await expect(cancelled).rejects.toThrow('cancelled while queued');
+    expect(queue.cancel('task-2')).toBe(false);
+
+    blocker.resolve();
+    await flush();
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should release the slot when a task fails', async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1 });
+
+    await expect(queue.enqueue('task-1', () => Promise.reject(new Error('boom')))).rejects.toThrow(
+      'boom'
+    );
+    await expect(queue.enqueue('task-2', () => Promise.resolve('ok'))).resolves.toBe('ok');
+  });
+
+  it('should report full only when slots and waiting room are exhausted', async () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 1, maxQueuedTasks: 1 });
+    const blocker = deferred();
+
+    void queue.enqueue('task-1', () => blocker.promise);
+    expect(queue.isFull()).toBe(false);
+
+    void queue.enqueue('task-2', () => Promise.resolve());
+    expect(queue.isFull()).toBe(true);
+    expect(queue.getDepth()).toBe(1);
+
+    blocker.resolve();
+    await flush();
+    expect(queue.isFull()).toBe(false);
+  });
+
+  it('should count free slots and waiting room when checking capacity for several tasks', () => {
+    const queue = new TaskQueue({ maxConcurrentTasks: 2, maxQueuedTasks: 1 });
+    expect(queue.hasCapacityFor(3)).toBe(true);
+    expect(queue.hasCapacityFor(4)).toBe(false);
+
+    void queue.enqueue('task-1', () => deferred().promise);
+    expect(queue.hasCapacityFor(2)).toBe(true);
+    expect(queue.hasCapacityFor(3)).toBe(false);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, jest, afterEach } from '@jest/globals';
 import { TaskRegistry } from '../../src/task-registry.js';
+import type { TaskRegistryEntry, TaskStore } from '../../src/types/task.js';
 
 describe('TaskRegistry', () => {
   let registry: TaskRegistry;
@@ -106,6 +107,19 @@ describe('TaskRegistry', () => {
         registry.updateStatus('nonexistent', 'running');
       }).not.toThrow();
     });
+
+    it('should notify status listeners until they unsubscribe', () => {
+      const listener = jest.fn();
+      registry.register('task-1', 'agent-1');
+      const unsubscribe = registry.onStatusChange(listener);
+
+      registry.updateStatus('task-1', 'running');
+      unsubscribe();
+      registry.updateStatus('task-1', 'completed');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ taskId: 'task-1' }));
+    });
   });
 
   describe('getTask', () => {
@@ -209,6 +223,35 @@ describe('TaskRegistry', () => {
     });
   });
 
+  describe('reopen', () => {
+    it('should clear the outcome of a finished task, queue it and count its follow-ups', () => {
+      registry.register('task-1', 'agent-1');
+      registry.updateStatus('task-1', 'failed', { error: 'Tests failed', exitCode: 1 });
+
+      registry.reopen('task-1');
+      const task = registry.reopen('task-1');
+
+      expect(task).toMatchObject({ status: 'queued', followUps: 2 });
+      expect(task?.completedAt).toBeUndefined();
+      expect(task?.error).toBeUndefined();
+      expect(task?.exitCode).toBeUndefined();
+      expect(registry.reopen('missing')).toBeUndefined();
+    });
+  });
+
+  describe('Forks', () => {
+    it('should trace the lineage of a fork and list the forks of a task', () => {
+      registry.register('task-1', 'agent-1');
+      registry.register('task-2', 'agent-1', undefined, { parentTaskId: 'task-1' });
+      registry.register('task-3', 'agent-1', undefined, { parentTaskId: 'task-2' });
+      registry.register('task-4', 'agent-1', undefined, { parentTaskId: 'task-2' });
+
+      expect(registry.getLineage('task-3')).toEqual(['task-1', 'task-2']);
+      expect(registry.getLineage('task-1')).toEqual([]);
+      expect(registry.findForks('task-2').map((task) => task.taskId)).toEqual(['task-3', 'task-4']);
+    });
+  });
+
   describe('Matrix room management', () => {
     it('should update Matrix room info', () => {
       registry.register('task-1', 'agent-1');
@@ -333,5 +376,98 @@ describe('TaskRegistry', () => {
 
       expect(registry.getTask('task-1')).toBeUndefined();
     });
+
+    it('should cleanup cancelled tasks after expiry', () => {
+      registry.register('task-1', 'agent-1');
+      registry.updateStatus('task-1', 'cancelled');
+
+      expect(registry.getTask('task-1')?.completedAt).toBeDefined();
+
+      // Fast forward past expiry
+      jest.advanceTimersByTime(3600000 + 60001);
+
+      expect(registry.getTask('task-1')).toBeUndefined();
+    });
+  });
+
+  describe('Persistence', () => {
+    function createStore(initial: TaskRegistryEntry[] = []): jest.Mocked<TaskStore> {
+      return {
+        load: jest.fn<() => TaskRegistryEntry[]>().mockReturnValue(initial),
+        save: jest.fn(),
+        delete: jest.fn(),
+      };
+    }
+
+    it('should restore tasks and idempotency keys from the store', () => {
+      const store = createStore([
+        {
+          taskId: 'task-1',
+          agentId: 'agent-1',
+          idempotencyKey: 'idem-1',
+          status: 'completed',
+          createdAt: Date.now(),
+          completedAt: Date.now(),
+        },
+      ]);
+
+      const restored = new TaskRegistry(
+        { maxConcurrentTasks: 3, idempotencyWindowMs: 60000 },
+        store
+      );
+
+      expect(restored.getTask('task-1')?.status).toBe('completed');
+      expect(restored.register('task-2', 'agent-1', 'idem-1').taskId).toBe('task-1');
+    });
+
+    it('should save entries on register and status updates', () => {
+      const store = createStore();
+      const persisted = new TaskRegistry(
+        { maxConcurrentTasks: 3, idempotencyWindowMs: 60000 },
+        store
+      );
+
+      persisted.register('task-1', 'agent-1');
+      persisted.updateStatus('task-1', 'running');
+
+      expect(store.save).toHaveBeenCalledTimes(2);
+      expect(store.save).toHaveBeenLastCalledWith(
+        expect.objectContaining({ taskId: 'task-1', status: 'running' })
+      );
+    });
+
+    it('should delete expired entries from the store', () => {
+      const store = createStore();
+      const persisted = new TaskRegistry(
+        { maxConcurrentTasks: 3, idempotencyWindowMs: 60000 },
+        store
+      );
+
+      persisted.register('task-1', 'agent-1');
+      persisted.updateStatus('task-1', 'completed');
+      jest.advanceTimersByTime(3600000 + 60001);
+
+      expect(store.delete).toHaveBeenCalledWith('task-1');
+    });
+  });
+
+  describe('reconcile', () => {
+    it('should fail active tasks that are not tracked by the execution layer', () => {
+      registry.register('task-running', 'agent-1');
+      registry.updateStatus('task-running', 'running');
+      registry.register('task-queued', 'agent-1');
+      registry.register('task-live', 'agent-1');
+      registry.updateStatus('task-live', 'running');
+      registry.register('task-done', 'agent-1');
+      registry.updateStatus('task-done', 'completed');
+
+      const orphaned = registry.reconcile((taskId) => taskId === 'task-live');
+
+      expect(orphaned.map((t) => t.taskId).sort()).toEqual(['task-queued', 'task-running']);
+      expect(registry.getTask('task-running')?.status).toBe('failed');
+      expect(registry.getTask('task-running')?.error).toContain('orphaned');
+      expect(registry.getTask('task-live')?.status).toBe('running');
+      expect(registry.getTask('task-done')?.status).toBe('completed');
+    });
   });
 });
@@ -0,0 +1,146 @@
+import { TaskScheduler, type ScheduleSubmitter } from '../../src/task-scheduler.js';
+import type { ScheduledTask, ScheduleStore } from '../../src/types/schedule.js';
+
+const NOW = Date.parse('2026-03-10T08:00:00Z');
+const request = { agent_id: 'agent-1', task_description: 'Run the nightly audit' };
+
+function createStore(initial: ScheduledTask[] = []): jest.Mocked<ScheduleStore> {
+  return {
+    load: jest.fn(() => initial),
+    save: jest.fn(),
+  };
+}
+
+describe('TaskScheduler', () => {
+  let store: jest.Mocked<ScheduleStore>;
+  let submit: jest.MockedFunction<ScheduleSubmitter>;
+  let scheduler: TaskScheduler;
+
+  beforeEach(() => {
+    store = createStore();
+    submit = jest.fn().mockResolvedValue({ task_id: 'task-1', status: 'queued' });
+    scheduler = new TaskScheduler({}, store, submit);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  describe('create', () => {
+    it('should compute the first run of a cron schedule and persist it', () => {
+      const schedule = scheduler.create(request, { cron: '0 9 * * *' }, NOW);
+
+      expect(schedule.nextRunAt).toBe(Date.parse('2026-03-10T09:00:00Z'));
+      expect(store.save).toHaveBeenCalledWith([schedule]);
+    });
+
+    it.each([
+      [{}, 'exactly one of cron or run_at'],
+      [{ cron: '0 9 * * *', runAt: NOW + 1000 }, 'exactly one of cron or run_at'],
+      [{ runAt: NOW - 1000 }, 'run_at must be in the future'],
+      [{ cron: '0 0 31 2 *' }, 'never matches'],
+      [{ cron: 'every day' }, 'Cron expression must have 5 fields'],
+    ])('should reject invalid timing %j', (timing, message) => {
+      expect(() => scheduler.create(request, timing, NOW)).toThrow(message);
+      expect(scheduler.list()).toHaveLength(0);
+    });
+  });
+
+  describe('tick', () => {
+    it('should submit due cron runs and advance to the next run', async () => {
+      const schedule = scheduler.create(request, { cron: '0 9 * * *' }, NOW);
+
+      await scheduler.tick(Date.parse('2026-03-10T08:59:00Z'));
+      expect(submit).not.toHaveBeenCalled();
+
+      await scheduler.tick(Date.parse('2026-03-10T09:00:30Z'));
+      expect(submit).toHaveBeenCalledWith(request, schedule.scheduleId);
+      expect(scheduler.get(schedule.scheduleId)).toMatchObject({
+        runCount: 1,
+        lastTaskId: 'task-1',
+        lastRunAt: Date.parse('2026-03-10T09:00:30Z'),
+        nextRunAt: Date.parse('2026-03-11T09:00:00Z'),
+      });
+    });
+
+    it('should run a one-shot schedule once', async () => {
+      const schedule = scheduler.create(request, { runAt: NOW + 60_000 }, NOW);
+
+      await scheduler.tick(NOW + 60_000);
+      await scheduler.tick(NOW + 120_000);
+
+      expect(submit).toHaveBeenCalledTimes(1);
+      expect(scheduler.get(schedule.scheduleId)?.nextRunAt).toBeUndefined();
+    });
+
+    it('should record why a run could not be submitted', async () => {
+      submit.mockResolvedValueOnce({ error: 'Task queue full', code: 'QUEUE_FULL', status: 429 });
+      const schedule = scheduler.create(request, { runAt: NOW + 60_000 }, NOW);
+
+      await scheduler.tick(NOW + 60_000);
+
+      expect(scheduler.get(schedule.scheduleId)).toMatchObject({
+        lastTaskId: undefined,
+        lastError: 'Task queue full',
+      });
+    });
+
+    it('should disable a stored schedule whose cron no longer parses', async () => {
+      const broken: ScheduledTask = {
+        scheduleId: 'schedule-broken',
+        cron: 'every day',
+        request,
+        createdAt: NOW - 1000,
+        nextRunAt: NOW,
+        runCount: 0,
+      };
+      const other = { ...broken, scheduleId: 'schedule-other', cron: '0 9 * * *' };
+      scheduler = new TaskScheduler({}, createStore([broken, other]), submit);
+
+      await scheduler.tick(NOW);
+
+      expect(scheduler.get('schedule-broken')).toMatchObject({
+        nextRunAt: undefined,
+        runCount: 0,
+        lastError: expect.stringContaining('Cron expression must have 5 fields'),
+      });
+      expect(submit).toHaveBeenCalledTimes(1);
+      expect(scheduler.get('schedule-other')?.runCount).toBe(1);
+    });
+
+    it('should submit a run missed while the server was down once after restart', async () => {
+      const missed: ScheduledTask = {
+        scheduleId: 'schedule-1',
+        cron: '0 9 * * *',
+        request,
+        createdAt: NOW - 86_400_000,
+        nextRunAt: Date.parse('2026-03-09T09:00:00Z'),
+        runCount: 3,
+      };
+      const restored = new TaskScheduler({}, createStore([missed]), submit);
+
+      await restored.tick(NOW);
+
+      expect(submit).toHaveBeenCalledTimes(1);
+      expect(restored.get('schedule-1')).toMatchObject({
+        runCount: 4,
+        nextRunAt: Date.parse('2026-03-10T09:00:00Z'),
+      });
+    });
+  });
+
+  describe('list and delete', () => {
+    it('should filter by agent and persist deletions', () => {
+      const first = scheduler.create(request, { cron: '0 9 * * *' }, NOW);
+      scheduler.create({ ...request, agent_id: 'agent-2' }, { cron: '0 9 * * *' }, NOW);
+
+      expect(scheduler.list('agent-1')).toEqual([first]);
+      expect(scheduler.delete(first.scheduleId)).toBe(true);
+      expect(scheduler.delete(first.scheduleId)).toBe(false);
+      expect(store.save).toHaveBeenLastCalledWith([
+        expect.objectContaining({ request: expect.objectContaining({ agent_id: 'agent-2' }) }),
+      ]);
+    });
+  });
+});
@@ -6,6 +6,8 @@ import {
 import type { TaskRegistry } from '../../src/task-registry.js';
 import type { WorkspaceManager } from '../../src/workspace-manager.js';
 import type { WorkspaceBlock } from '../../src/types/workspace.js';
+import type { TaskQueue } from '../../src/task-queue.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
 
 describe('getTaskStatus', () => {
   let mockDeps: jest.Mocked<TaskStatusDependencies>;
@@ -17,6 +19,8 @@ describe('getTaskStatus', () => {
 
     mockRegistry = {
       getTask: jest.fn(),
+      getLineage: jest.fn().mockReturnValue([]),
+      findForks: jest.fn().mockReturnValue([]),
     } as unknown as jest.Mocked<TaskRegistry>;
 
     mockWorkspace = {
@@ -304,6 +308,75 @@ describe('getTaskStatus', () => {
     });
   });
 
+  describe('Usage', () => {
+    const usage = {
+      inputTokens: 1000,
+      outputTokens: 200,
+      reasoningTokens: 0,
+      cacheReadTokens: 500,
+      cacheWriteTokens: 50,
+      cost: 0.12,
+    };
+
+    it('should report usage recorded on the task', async () => {
+      mockRegistry.getTask.mockReturnValue({
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'completed',
+        createdAt: 1000,
+        usage,
+      } as any);
+
+      const result = await getTaskStatus({ task_id: 'task-123' }, mockDeps);
+
+      expect(result.usage).toEqual({
+        input_tokens: 1000,
+        output_tokens: 200,
+        reasoning_tokens: 0,
+        cache_read_tokens: 500,
+        cache_write_tokens: 50,
+        cost: 0.12,
+      });
+    });
+
+    it('should report live usage for running tasks', async () => {
+      mockRegistry.getTask.mockReturnValue({
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: 1000,
+      } as any);
+      mockDeps.execution = {
+        getTaskUsage: jest.fn().mockReturnValue(usage),
+      } as unknown as ExecutionManager;
+
+      const result = await getTaskStatus({ task_id: 'task-123' }, mockDeps);
+
+      expect(mockDeps.execution.getTaskUsage).toHaveBeenCalledWith('task-123');
+      expect(result.usage?.cost).toBe(0.12);
+    });
+  });
+
+  describe('Lineage', () => {
+    it('should report the parent, ancestors and forks of a task', async () => {
+      mockRegistry.getTask.mockReturnValue({
+        taskId: 'task-2',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: 1000,
+        parentTaskId: 'task-1',
+      } as any);
+      mockRegistry.getLineage.mockReturnValue(['task-0', 'task-1']);
+      mockRegistry.findForks.mockReturnValue([{ taskId: 'task-3' }] as any);
+
+      const result = await getTaskStatus({ task_id: 'task-2' }, mockDeps);
+
+      expect(result.parent_task_id).toBe('task-1');
+      expect(result.lineage).toEqual(['task-0', 'task-1']);
+      expect(result.forks).toEqual(['task-3']);
+    });
+  });
+
   describe('Different task statuses', () => {
     it('should handle queued tasks', async () => {
       const mockTask = {
@@ -414,5 +487,42 @@ describe('getTaskStatus', () => {
       expect(result.status).toBe('timeout');
       expect(result.completed_at).toBe(3500);
     });
+
+    it('should report the model the task runs with', async () => {
+      mockRegistry.getTask.mockReturnValue({
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'running',
+        createdAt: 1000,
+        model: { providerId: 'openai', modelId: 'gpt-5' },
+      } as any);
+
+      const result = await getTaskStatus({ task_id: 'task-123' }, mockDeps);
+
+      expect(result.model).toBe('openai/gpt-5');
+    });
+
+    it('should report queue position for queued tasks', async () => {
+      const mockTask = {
+        taskId: 'task-123',
+        agentId: 'agent-456',
+        status: 'queued',
+        createdAt: 1000,
+      };
+      const mockQueue = {
+        getPosition: jest.fn().mockReturnValue(3),
+      } as unknown as jest.Mocked<TaskQueue>;
+
+      mockRegistry.getTask.mockReturnValue(mockTask as any);
+
+      const result = await getTaskStatus(
+        { task_id: 'task-123' },
+        { ...mockDeps, queue: mockQueue }
+      );
+
+      expect(result.status).toBe('queued');
+      expect(result.queue_position).toBe(3);
+      expect(mockQueue.getPosition).toHaveBeenCalledWith('task-123');
+    });
   });
 });
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonlTaskStore, InMemoryTaskStore, createTaskStore } from '../../src/task-store.js';
+import type { TaskRegistryEntry } from '../../src/types/task.js';
+
+function makeEntry(taskId: string, status: TaskRegistryEntry['status']): TaskRegistryEntry {
+  return {
+    taskId,
+    agentId: 'agent-1',
+    status,
+    createdAt: 1700000000000,
+  };
+}
+
+describe('JsonlTaskStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-store-'));
+    filePath = path.join(dir, 'nested', 'tasks.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return no entries when the journal does not exist', () => {
+    const store = new JsonlTaskStore(filePath);
+    expect(store.load()).toEqual([]);
+  });
+
+  it('should replay puts and deletes, keeping the latest entry per task', () => {
+    const store = new JsonlTaskStore(filePath);
+    store.save(makeEntry('task-1', 'queued'));
+    store.save(makeEntry('task-1', 'running'));
+    store.save(makeEntry('task-2', 'completed'));
+    store.delete('task-2');
+
+    const reloaded = new JsonlTaskStore(filePath).load();
+
+    expect(reloaded).toEqual([makeEntry('task-1', 'running')]);
+  });
+
+  it('should compact the journal on load', () => {
+    const store = new JsonlTaskStore(filePath);
+    store.save(makeEntry('task-1', 'queued'));
+    store.save(makeEntry('task-1', 'running'));
+    store.save(makeEntry('task-1', 'completed'));
+
+    store.load();
+
+    const lines = fs.readFileSync(filePath, 'utf8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0]).entry.status).toBe('completed');
+  });
+
+  it('should skip corrupt journal lines', () => {
+    const store = new JsonlTaskStore(filePath);
+    store.save(makeEntry('task-1', 'running'));
+    fs.appendFileSync(filePath, '{"op":"put","entry":\n');
+    store.save(makeEntry('task-2', 'queued'));
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const reloaded = store.load();
+    warn.mockRestore();
+
+    expect(reloaded.map((e) => e.taskId)).toEqual(['task-1', 'task-2']);
+  });
+});
+
+describe('createTaskStore', () => {
+  it('should return an in-memory store when no path is configured', () => {
+    expect(createTaskStore()).toBeInstanceOf(InMemoryTaskStore);
+  });
+
+  it('should return a journal store when a path is configured', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-store-'));
+    expect(createTaskStore(path.join(dir, 'tasks.jsonl'))).toBeInstanceOf(JsonlTaskStore);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
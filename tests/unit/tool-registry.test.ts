@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { defineTool, ToolRegistry } from '../../src/tool-registry.js';
+import { allTools } from '../../src/tools/index.js';
+import type { ToolDependencies } from '../../src/types/tool.js';
+import type { MatrixRoomManager } from '../../src/matrix-room-manager.js';
+
+describe('ToolRegistry', () => {
+  let deps: ToolDependencies;
+
+  const echoTool = defineTool({
+    name: 'echo',
+    description: 'Echo the message back',
+    schema: z.object({ message: z.string().describe('Message to echo') }),
+    handler: async (params) => ({ echoed: params.message }),
+  });
+
+  const matrixTool = defineTool({
+    name: 'matrix_only',
+    description: 'Requires Matrix',
+    schema: z.object({}),
+    requiredDeps: ['matrix'],
+    handler: async () => ({ ok: true }),
+  });
+
+  beforeEach(() => {
+    deps = {
+      letta: {},
+      workspace: {},
+      execution: {},
+      registry: {},
+      queue: {},
+      controlHandler: {},
+      matrix: null,
+    } as unknown as ToolDependencies;
+  });
+
+  describe('listTools', () => {
+    it('should generate input schemas from zod schemas', () => {
+      const registry = new ToolRegistry([echoTool], deps);
+
+      expect(registry.listTools()).toEqual([
+        {
+          name: 'echo',
+          description: 'Echo the message back',
+          inputSchema: {
+            type: 'object',
+            properties: { message: { type: 'string', description: 'Message to echo' } },
+            required: ['message'],
+            additionalProperties: false,
+          },
+        },
+      ]);
+    });
+
+    it('should hide tools whose required dependencies are missing', () => {
+      const registry = new ToolRegistry([echoTool, matrixTool], deps);
+
+      expect(registry.listTools().map((tool) => tool.name)).toEqual(['echo']);
+    });
+
+    it('should list tools once their required dependencies are configured', () => {
+      deps.matrix = {} as MatrixRoomManager;
+      const registry = new ToolRegistry([echoTool, matrixTool], deps);
+
+      expect(registry.listTools().map((tool) => tool.name)).toEqual(['echo', 'matrix_only']);
+    });
+
+    it('should hide the Matrix archive tool when Matrix is disabled', () => {
+      const registry = new ToolRegistry(allTools, deps);
+
+      expect(registry.listTools().map((tool) => tool.name)).not.toContain(
+        'archive_task_conversation'
+      );
+    });
+
+    it('should register every built-in tool with a unique name', () => {
+      deps.matrix = {} as MatrixRoomManager;
+      const registry = new ToolRegistry(allTools, deps);
+
+      expect(registry.listTools()).toHaveLength(allTools.length);
+    });
+  });
+
+  describe('callTool', () => {
+    it('should validate arguments and call the handler', async () => {
+      const registry = new ToolRegistry([echoTool], deps);
+
+      await expect(registry.callTool('echo', { message: 'hi' })).resolves.toEqual({
+        echoed: 'hi',
+      });
+    });
+
+    it('should reject invalid arguments', async () => {
+      const registry = new ToolRegistry([echoTool], deps);
+
+      await expect(registry.callTool('echo', { message: 42 })).rejects.toThrow();
+    });
+
+    it('should reject unknown tools', async () => {
+      const registry = new ToolRegistry([echoTool], deps);
+
+      await expect(registry.callTool('missing', {})).rejects.toThrow('Unknown tool: missing');
+    });
+
+    it('should reject tools whose required dependencies are missing', async () => {
+      const registry = new ToolRegistry([matrixTool], deps);
+
+      await expect(registry.callTool('matrix_only', {})).rejects.toThrow(
+        'Tool matrix_only is not enabled for this deployment'
+      );
+    });
+  });
+
+  it('should reject duplicate tool names', () => {
+    expect(() => new ToolRegistry([echoTool, echoTool], deps)).toThrow('Duplicate tool name: echo');
+  });
+});
@@ -0,0 +1,124 @@
+import { getUsageReport } from '../../src/tools/usage-tools.js';
+import type { TaskRegistry } from '../../src/task-registry.js';
+import type { ExecutionManager } from '../../src/execution-manager.js';
+import type { TaskUsage } from '../../src/types/execution.js';
+
+function usage(inputTokens: number, cost: number): TaskUsage {
+  return {
+    inputTokens,
+    outputTokens: 10,
+    reasoningTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    cost,
+  };
+}
+
+describe('getUsageReport', () => {
+  let mockRegistry: jest.Mocked<TaskRegistry>;
+  let mockExecution: jest.Mocked<ExecutionManager>;
+
+  const tasks = [
+    {
+      taskId: 'task-1',
+      agentId: 'agent-a',
+      status: 'completed',
+      createdAt: 1000,
+      usage: usage(100, 0.1),
+    },
+    {
+      taskId: 'task-2',
+      agentId: 'agent-a',
+      status: 'completed',
+      createdAt: 2000,
+      usage: usage(200, 0.2),
+    },
+    { taskId: 'task-3', agentId: 'agent-b', status: 'running', createdAt: 3000 },
+    { taskId: 'task-4', agentId: 'agent-b', status: 'queued', createdAt: 4000 },
+  ];
+
+  beforeEach(() => {
+    mockRegistry = {
+      getAllTasks: jest.fn().mockReturnValue(tasks),
+      findTasksByAgent: jest.fn((agentId: string) => tasks.filter((t) => t.agentId === agentId)),
+    } as unknown as jest.Mocked<TaskRegistry>;
+    mockExecution = {
+      getTaskUsage: jest.fn((taskId: string) =>
+        taskId === 'task-3' ? usage(1000, 0.5) : undefined
+      ),
+    } as unknown as jest.Mocked<ExecutionManager>;
+  });
+
+  it('should aggregate usage per agent, including running tasks', async () => {
+    const report = await getUsageReport({}, { registry: mockRegistry, execution: mockExecution });
+
+    expect(report.agents).toEqual([
+      {
+        agent_id: 'agent-b',
+        task_count: 2,
+        usage: expect.objectContaining({ input_tokens: 1000, output_tokens: 10, cost: 0.5 }),
+      },
+      {
+        agent_id: 'agent-a',
+        task_count: 2,
+        usage: expect.objectContaining({ input_tokens: 300, output_tokens: 20 }),
+      },
+    ]);
+    expect(report.agents[1].usage.cost).toBeCloseTo(0.3);
+    expect(report.totals.task_count).toBe(4);
+    expect(report.totals.usage.input_tokens).toBe(1300);
+  });
+
+  it('should add a live retry attempt to the usage of earlier attempts', async () => {
+    mockRegistry.findTasksByAgent.mockReturnValue([
+      {
+        taskId: 'task-3',
+        agentId: 'agent-b',
+        status: 'running',
+        createdAt: 3000,
+        attempts: 2,
+        usage: usage(400, 0.25),
+      },
+    ]);
+
+    const report = await getUsageReport(
+      { agent_id: 'agent-b' },
+      { registry: mockRegistry, execution: mockExecution }
+    );
+
+    expect(report.agents[0].usage).toMatchObject({ input_tokens: 1400, cost: 0.75 });
+  });
+
+  it('should filter by agent and creation time', async () => {
+    const report = await getUsageReport(
+      { agent_id: 'agent-a', since: 1500 },
+      { registry: mockRegistry }
+    );
+
+    expect(mockRegistry.findTasksByAgent).toHaveBeenCalledWith('agent-a');
+    expect(report.since).toBe(1500);
+    expect(report.agents).toEqual([
+      expect.objectContaining({ agent_id: 'agent-a', task_count: 1 }),
+    ]);
+    expect(report.totals.usage.input_tokens).toBe(200);
+  });
+
+  it('should return an empty report when there are no tasks', async () => {
+    mockRegistry.getAllTasks.mockReturnValue([]);
+
+    const report = await getUsageReport({}, { registry: mockRegistry });
+
+    expect(report.agents).toEqual([]);
+    expect(report.totals).toEqual({
+      task_count: 0,
+      usage: {
+        input_tokens: 0,
+        output_tokens: 0,
+        reasoning_tokens: 0,
+        cache_read_tokens: 0,
+        cache_write_tokens: 0,
+        cost: 0,
+      },
+    });
+  });
+});
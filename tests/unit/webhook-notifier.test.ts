@@ -0,0 +1,103 @@
+import { WebhookNotifier, signPayload } from '../../src/webhook-notifier.js';
+import type { WorkspaceManager } from '../../src/workspace-manager.js';
+import type { TaskRegistryEntry } from '../../src/types/task.js';
+
+function response(status: number): Response {
+  return { ok: status >= 200 && status < 300, status } as Response;
+}
+
+describe('WebhookNotifier', () => {
+  let mockWorkspace: jest.Mocked<WorkspaceManager>;
+  let fetchMock: jest.Mock;
+  let task: TaskRegistryEntry;
+
+  beforeEach(() => {
+    mockWorkspace = {
+      updateWorkspace: jest.fn().mockResolvedValue({}),
+    } as unknown as jest.Mocked<WorkspaceManager>;
+    fetchMock = jest.fn().mockResolvedValue(response(200));
+    global.fetch = fetchMock;
+    task = {
+      taskId: 'task-123',
+      agentId: 'agent-123',
+      status: 'completed',
+      createdAt: 1000,
+      completedAt: 2000,
+      workspaceBlockId: 'block-123',
+      callbackUrl: 'https://agent.example.com/hook',
+    };
+  });
+
+  function createNotifier(urls: string[] = ['https://ops.example.com/hook']): WebhookNotifier {
+    return new WebhookNotifier(
+      { urls, secret: 'shh', maxRetries: 2, retryBaseDelayMs: 0 },
+      mockWorkspace
+    );
+  }
+
+  it('should post a signed payload to the server and task endpoints', async () => {
+    await createNotifier().notify(task, 'completed');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls).toEqual(['https://ops.example.com/hook', 'https://agent.example.com/hook']);
+
+    const [, init] = fetchMock.mock.calls[0];
+    const payload = JSON.parse(init.body);
+    expect(payload).toMatchObject({
+      event: 'task.completed',
+      task: { task_id: 'task-123', agent_id: 'agent-123', status: 'completed' },
+    });
+    expect(init.headers['X-Webhook-Event']).toBe('task.completed');
+    expect(init.headers['X-Webhook-Signature']).toBe(signPayload(init.body, 'shh'));
+  });
+
+  it('should retry failed deliveries and record every attempt', async () => {
+    fetchMock.mockResolvedValueOnce(response(503)).mockRejectedValueOnce(new Error('ECONNRESET'));
+
+    await createNotifier([]).notify(task, 'completed');
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const events = mockWorkspace.updateWorkspace.mock.calls.map(
+      ([, , update]) => update.events![0]
+    );
+    expect(events.map((event) => event.data)).toEqual([
+      expect.objectContaining({ attempt: 1, delivered: false, status_code: 503, will_retry: true }),
+      expect.objectContaining({ attempt: 2, delivered: false, will_retry: true }),
+      expect.objectContaining({ attempt: 3, delivered: true, status_code: 200 }),
+    ]);
+    expect(events.every((event) => event.type === 'task_webhook')).toBe(true);
+  });
+
+  it('should not retry client errors', async () => {
+    fetchMock.mockResolvedValue(response(404));
+
+    await createNotifier([]).notify(task, 'failed');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(mockWorkspace.updateWorkspace.mock.calls[0][2].events![0].data).toMatchObject({
+      delivered: false,
+      status_code: 404,
+      will_retry: false,
+    });
+  });
+
+  it('should deliver the outcome of every follow-up turn of a task', async () => {
+    const notifier = createNotifier([]);
+
+    await notifier.notify(task, 'completed');
+    await notifier.notify(task, 'failed');
+
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).event)).toEqual([
+      'task.completed',
+      'task.failed',
+    ]);
+  });
+
+  it('should do nothing when no endpoint is configured', async () => {
+    await createNotifier([]).notify({ ...task, callbackUrl: undefined }, 'queued');
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockWorkspace.updateWorkspace).not.toHaveBeenCalled();
+  });
+});
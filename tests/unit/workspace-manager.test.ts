@@ -517,6 +517,26 @@ describe('WorkspaceManager', () => {
     });
   });
 
+  describe('attachWorkspaceBlock', () => {
+    it('should attach a detached block again', async () => {
+      mockLettaClient.listMemoryBlocks.mockResolvedValue([]);
+
+      await workspaceManager.attachWorkspaceBlock('agent-456', 'block-789');
+
+      expect(mockLettaClient.attachMemoryBlock).toHaveBeenCalledWith('agent-456', {
+        block_id: 'block-789',
+      });
+    });
+
+    it('should leave an attached block alone', async () => {
+      mockLettaClient.listMemoryBlocks.mockResolvedValue([{ id: 'block-789' }] as any);
+
+      await workspaceManager.attachWorkspaceBlock('agent-456', 'block-789');
+
+      expect(mockLettaClient.attachMemoryBlock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('detachWorkspaceBlock', () => {
     it('should detach workspace block from agent', async () => {
       mockLettaClient.detachMemoryBlock.mockResolvedValue(undefined);